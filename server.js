@@ -24,7 +24,9 @@ const app = express();
 app.use(helmet());
 app.use(cors({
   origin: process.env.CLIENT_URL || "http://localhost:3000",
-  credentials: true
+  credentials: true,
+  // Cross-origin downloads name files after the order reference
+  exposedHeaders: ["X-Order-Ref"]
 }));
 
 /* -------------------- BODY PARSER -------------------- */
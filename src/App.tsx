@@ -18,6 +18,7 @@ const HistoryPage = lazy(() => import("./components/pages/HistoryPage.tsx").then
 const AdminDashboard = lazy(() => import("./components/pages/AdminDashboard.tsx").then(m => ({ default: m.AdminDashboard })));
 const UserAccessPage = lazy(() => import("./components/pages/UserAccessPage.tsx").then(m => ({ default: m.UserAccessPage })));
 const MasterDataPage = lazy(() => import("./components/pages/MasterDataPage.tsx").then(m => ({ default: m.MasterDataPage })));
+const ApprovalQueuePage = lazy(() => import("./components/pages/ApprovalQueuePage.tsx").then(m => ({ default: m.ApprovalQueuePage })));
 const EditOrdersPage = lazy(() => import("./components/pages/EditOrdersPage.tsx").then(m => ({ default: m.EditOrdersPage })));
 
 export default function App() {
@@ -168,6 +169,15 @@ export default function App() {
                 }
               />
 
+              <Route
+                path="/admin/approvals"
+                element={
+                  <ProtectedRoute role="admin">
+                    <ApprovalQueuePage />
+                  </ProtectedRoute>
+                }
+              />
+
               <Route
                 path="/admin/master-data"
                 element={
@@ -0,0 +1,63 @@
+import React from "react";
+import { History, Redo2, Undo2, X } from "lucide-react";
+import { EditCommand } from "../utils/editHistory";
+
+interface EditHistoryPanelProps {
+  past: EditCommand<any>[];
+  future: EditCommand<any>[];
+  onUndo: () => void;
+  onRedo: () => void;
+  onClose: () => void;
+}
+
+const timeLabel = (at: number) => new Date(at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+/**
+ * Change log for an editing screen: applied actions newest first,
+ * undone actions (available for redo) greyed out above them.
+ */
+export function EditHistoryPanel({ past, future, onUndo, onRedo, onClose }: EditHistoryPanelProps) {
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl shadow-sm w-72 flex flex-col max-h-[60vh]">
+      <div className="flex items-center justify-between px-3 py-2 border-b bg-slate-50 rounded-t-xl">
+        <span className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+          <History className="w-4 h-4" /> Changes ({past.length})
+        </span>
+        <div className="flex items-center gap-1">
+          <button onClick={onUndo} disabled={past.length === 0} className="p-1 rounded hover:bg-slate-200 disabled:opacity-30" title="Undo (Ctrl+Z)">
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button onClick={onRedo} disabled={future.length === 0} className="p-1 rounded hover:bg-slate-200 disabled:opacity-30" title="Redo (Ctrl+Shift+Z)">
+            <Redo2 className="w-4 h-4" />
+          </button>
+          <button onClick={onClose} className="p-1 rounded hover:bg-slate-200" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-y-auto text-xs">
+        {past.length === 0 && future.length === 0 && (
+          <p className="px-3 py-6 text-center text-slate-400">No changes yet</p>
+        )}
+
+        {future.map(cmd => (
+          <div key={`f-${cmd.id}`} className="flex justify-between gap-2 px-3 py-1.5 border-b border-slate-100 text-slate-400 line-through">
+            <span className="truncate">{cmd.label}</span>
+            <span className="shrink-0">{timeLabel(cmd.at)}</span>
+          </div>
+        ))}
+
+        {[...past].reverse().map((cmd, idx) => (
+          <div
+            key={`p-${cmd.id}`}
+            className={`flex justify-between gap-2 px-3 py-1.5 border-b border-slate-100 ${idx === 0 ? "bg-blue-50 text-blue-800 font-medium" : "text-slate-700"}`}
+          >
+            <span className="truncate" title={cmd.label}>{cmd.label}</span>
+            <span className="shrink-0 text-slate-400">{timeLabel(cmd.at)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
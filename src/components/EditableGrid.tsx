@@ -0,0 +1,686 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { Popover, PopoverAnchor, PopoverContent } from "./ui/popover";
+
+/* =====================================================
+   KEYBOARD-DRIVEN EDITING GRID
+   Spreadsheet-style navigation for order rows:
+   arrows / Tab / Enter move, typing or F2 edits, Shift
+   extends the selection, Ctrl+C / Ctrl+V exchange ranges
+   with Excel (tab-separated), Ctrl+D fills down and
+   Delete clears. Plain columns take pasted / filled
+   values; autocomplete columns only change through a
+   picked option (and onClear).
+   ===================================================== */
+
+export interface CellChange {
+  rowIndex: number;
+  key: string;
+  value: any;
+}
+
+export interface GridOption {
+  value: any;
+  label: string;
+  hint?: string;
+  badge?: React.ReactNode;
+  section?: string;
+}
+
+export interface GridColumn<R = any> {
+  key: string;
+  label: string;
+  header?: React.ReactNode;
+  headerClassName?: string;
+  cellClassName?: string | ((row: R, rowIndex: number) => string);
+  editable?: boolean | ((row: R) => boolean);
+  numeric?: boolean;
+  placeholder?: string;
+  // Value used for editing and copying (defaults to row[key])
+  getValue?: (row: R) => any;
+  // Display when not editing (defaults to the value)
+  render?: (row: R, rowIndex: number) => React.ReactNode;
+  // Autocomplete columns
+  options?: (query: string, row: R) => GridOption[];
+  initialQuery?: (row: R) => string;
+  onSelectOption?: (rowIndex: number, option: GridOption) => void;
+  onClear?: (rowIndices: number[]) => void;
+}
+
+export interface GridGroup {
+  key: string;
+  label: React.ReactNode;
+  rowIndices: number[];
+  collapsed?: boolean;
+}
+
+interface EditableGridProps<R = any> {
+  columns: GridColumn<R>[];
+  rows: R[];
+  groups?: GridGroup[];
+  onToggleGroup?: (key: string) => void;
+  onCellsChange: (changes: CellChange[], label: string) => void;
+  onActiveRowChange?: (rowIndex: number | null) => void;
+  rowClassName?: (row: R, rowIndex: number) => string;
+  emptyState?: React.ReactNode;
+  className?: string;
+  headerRowClassName?: string;
+  groupRowClassName?: string;
+}
+
+interface Pos {
+  r: number; // position in the visible row list
+  c: number;
+}
+
+interface EditState {
+  pos: Pos;
+  draft: string;
+  highlight: number;
+}
+
+const INTERACTIVE = "button, a, input, select, textarea, label";
+
+const isEditable = (col: GridColumn, row: any) =>
+  typeof col.editable === "function" ? col.editable(row) : !!col.editable;
+
+const cellValue = (col: GridColumn, row: any) => (col.getValue ? col.getValue(row) : row?.[col.key]);
+
+const cellText = (col: GridColumn, row: any) => {
+  const v = cellValue(col, row);
+  return v === undefined || v === null ? "" : String(v);
+};
+
+const parseInput = (col: GridColumn, text: string) =>
+  col.numeric ? text.replace(/,/g, "").trim() : text;
+
+// "a\tb\r\nc\td\r\n" → [["a","b"],["c","d"]]
+const parseClipboard = (text: string) => {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  if (lines.length > 1 && lines[lines.length - 1] === "") lines.pop();
+  return lines.map(l => l.split("\t"));
+};
+
+/* ---------------- IN-CELL EDITOR ---------------- */
+function CellEditor({
+  column,
+  row,
+  edit,
+  setEdit,
+  onCommit,
+  onCancel,
+  onPick
+}: {
+  column: GridColumn;
+  row: any;
+  edit: EditState;
+  setEdit: (e: EditState) => void;
+  onCommit: (move: "down" | "up" | "right" | "left" | null) => void;
+  onCancel: () => void;
+  onPick: (option: GridOption, moveDown: boolean) => void;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const options = useMemo(
+    () => (column.options ? column.options(edit.draft, row) : []),
+    [column, edit.draft, row]
+  );
+
+  useEffect(() => {
+    const input = inputRef.current;
+    if (!input) return;
+    input.focus();
+    input.setSelectionRange(input.value.length, input.value.length);
+  }, []);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-option="${edit.highlight}"]`)?.scrollIntoView({ block: "nearest" });
+  }, [edit.highlight]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    e.stopPropagation();
+
+    if (column.options && options.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const delta = e.key === "ArrowDown" ? 1 : -1;
+        setEdit({ ...edit, highlight: (edit.highlight + delta + options.length) % options.length });
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        onPick(options[edit.highlight] || options[0], e.key === "Enter");
+        return;
+      }
+    }
+
+    if (e.key === "Escape") {
+      e.preventDefault();
+      onCancel();
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      onCommit(e.shiftKey ? "up" : "down");
+    } else if (e.key === "Tab") {
+      e.preventDefault();
+      onCommit(e.shiftKey ? "left" : "right");
+    } else if (!column.options && (e.key === "ArrowDown" || e.key === "ArrowUp")) {
+      e.preventDefault();
+      onCommit(e.key === "ArrowDown" ? "down" : "up");
+    }
+  };
+
+  const input = (
+    <input
+      ref={inputRef}
+      type="text"
+      inputMode={column.numeric ? "decimal" : undefined}
+      value={edit.draft}
+      placeholder={column.placeholder}
+      onChange={e => setEdit({ ...edit, draft: e.target.value, highlight: 0 })}
+      onKeyDown={handleKeyDown}
+      onBlur={() => (column.options ? onCancel() : onCommit(null))}
+      className={`w-full px-2 py-1 text-base border-2 border-blue-500 rounded bg-white focus:outline-none ${
+        column.numeric ? "text-center" : ""
+      }`}
+    />
+  );
+
+  if (!column.options) return input;
+
+  let lastSection: string | undefined;
+  return (
+    <Popover open={options.length > 0}>
+      <PopoverAnchor asChild>{input}</PopoverAnchor>
+      <PopoverContent
+        align="start"
+        className="p-0 w-[var(--radix-popover-trigger-width)] min-w-[320px] max-h-72 overflow-y-auto bg-white"
+        onOpenAutoFocus={e => e.preventDefault()}
+        onCloseAutoFocus={e => e.preventDefault()}
+      >
+        <div ref={listRef}>
+          {options.map((opt, idx) => {
+            const showSection = opt.section && opt.section !== lastSection;
+            lastSection = opt.section;
+            return (
+              <React.Fragment key={`${opt.section || ""}-${opt.label}-${idx}`}>
+                {showSection && (
+                  <div className="px-3 pt-2 pb-1 text-[10px] font-semibold uppercase tracking-wide text-blue-700 bg-blue-50/40">
+                    {opt.section}
+                  </div>
+                )}
+                <button
+                  type="button"
+                  data-option={idx}
+                  onMouseDown={e => e.preventDefault()}
+                  onClick={() => onPick(opt, false)}
+                  onMouseEnter={() => setEdit({ ...edit, highlight: idx })}
+                  className={`w-full text-left px-3 py-2 text-sm border-b last:border-0 border-neutral-100 block ${
+                    idx === edit.highlight ? "bg-blue-100" : "hover:bg-blue-50"
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-neutral-900">{opt.label}</span>
+                    {opt.badge}
+                  </div>
+                  {opt.hint && <div className="text-xs text-neutral-500">{opt.hint}</div>}
+                </button>
+              </React.Fragment>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/* ---------------- GRID ---------------- */
+export function EditableGrid<R = any>({
+  columns,
+  rows,
+  groups,
+  onToggleGroup,
+  onCellsChange,
+  onActiveRowChange,
+  rowClassName,
+  emptyState,
+  className = "",
+  headerRowClassName = "bg-neutral-50 border-b border-neutral-200 text-neutral-500 text-base uppercase tracking-wider",
+  groupRowClassName = "bg-blue-50/50 hover:bg-blue-50"
+}: EditableGridProps<R>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [anchor, setAnchor] = useState<Pos | null>(null);
+  const [focus, setFocus] = useState<Pos | null>(null);
+  const [edit, setEdit] = useState<EditState | null>(null);
+  const editRef = useRef<EditState | null>(null);
+  editRef.current = edit;
+  const dragging = useRef(false);
+
+  const allGroups: GridGroup[] = useMemo(
+    () => groups || [{ key: "__all", label: null, rowIndices: rows.map((_, i) => i) }],
+    [groups, rows]
+  );
+
+  // Row indices in on-screen order (collapsed groups are skipped by navigation)
+  const visibleRows = useMemo(
+    () => allGroups.flatMap(g => (g.collapsed ? [] : g.rowIndices)),
+    [allGroups]
+  );
+
+  const lastRow = visibleRows.length - 1;
+  const lastCol = columns.length - 1;
+
+  // Keep the cursor inside the grid when rows disappear (delete, filter, collapse)
+  useEffect(() => {
+    if (!focus) return;
+    if (visibleRows.length === 0) {
+      setFocus(null);
+      setAnchor(null);
+      setEdit(null);
+    } else if (focus.r > lastRow) {
+      const clamped = { r: lastRow, c: focus.c };
+      setFocus(clamped);
+      setAnchor(clamped);
+      setEdit(null);
+    }
+  }, [visibleRows.length]);
+
+  useEffect(() => {
+    onActiveRowChange?.(focus ? visibleRows[focus.r] ?? null : null);
+    if (!focus) return;
+    containerRef.current
+      ?.querySelector(`[data-cell="${focus.r}:${focus.c}"]`)
+      ?.scrollIntoView({ block: "nearest", inline: "nearest" });
+  }, [focus?.r, focus?.c]);
+
+  useEffect(() => {
+    const stopDrag = () => (dragging.current = false);
+    window.addEventListener("mouseup", stopDrag);
+    return () => window.removeEventListener("mouseup", stopDrag);
+  }, []);
+
+  const range = useMemo(() => {
+    if (!anchor || !focus) return null;
+    return {
+      r0: Math.min(anchor.r, focus.r),
+      r1: Math.max(anchor.r, focus.r),
+      c0: Math.min(anchor.c, focus.c),
+      c1: Math.max(anchor.c, focus.c)
+    };
+  }, [anchor, focus]);
+
+  const inRange = (r: number, c: number) =>
+    !!range && r >= range.r0 && r <= range.r1 && c >= range.c0 && c <= range.c1;
+
+  const moveTo = (pos: Pos, extend = false) => {
+    const next = {
+      r: Math.max(0, Math.min(lastRow, pos.r)),
+      c: Math.max(0, Math.min(lastCol, pos.c))
+    };
+    setFocus(next);
+    if (!extend) setAnchor(next);
+  };
+
+  const refocus = () => containerRef.current?.focus({ preventScroll: true });
+
+  /* ---------- editing ---------- */
+  const startEdit = (pos: Pos, draft?: string) => {
+    const col = columns[pos.c];
+    const row = rows[visibleRows[pos.r]];
+    if (!col || !row || !isEditable(col, row)) return;
+
+    const initial = draft ?? (col.options ? col.initialQuery?.(row) ?? "" : cellText(col, row));
+    setEdit({ pos, draft: initial, highlight: 0 });
+  };
+
+  const finishEdit = (move: "down" | "up" | "right" | "left" | null) => {
+    const current = editRef.current;
+    if (!current) return;
+    editRef.current = null;
+    setEdit(null);
+
+    const col = columns[current.pos.c];
+    const rowIndex = visibleRows[current.pos.r];
+    if (!col.options && rowIndex !== undefined) {
+      const value = parseInput(col, current.draft);
+      if (value !== cellText(col, rows[rowIndex])) {
+        onCellsChange([{ rowIndex, key: col.key, value }], `Row ${rowIndex + 1}: ${col.label} → ${value === "" ? "(blank)" : value}`);
+      }
+    }
+
+    refocus();
+    const { r, c } = current.pos;
+    if (move === "down") moveTo({ r: r + 1, c });
+    else if (move === "up") moveTo({ r: r - 1, c });
+    else if (move === "right") moveTo(c < lastCol ? { r, c: c + 1 } : { r: r + 1, c: 0 });
+    else if (move === "left") moveTo(c > 0 ? { r, c: c - 1 } : { r: r - 1, c: lastCol });
+  };
+
+  const cancelEdit = () => {
+    if (!editRef.current) return;
+    editRef.current = null;
+    setEdit(null);
+    refocus();
+  };
+
+  const pickOption = (option: GridOption, moveDown: boolean) => {
+    const current = editRef.current;
+    if (!current) return;
+    editRef.current = null;
+    setEdit(null);
+
+    const col = columns[current.pos.c];
+    col.onSelectOption?.(visibleRows[current.pos.r], option);
+    refocus();
+    if (moveDown) moveTo({ r: current.pos.r + 1, c: current.pos.c });
+  };
+
+  /* ---------- range operations ---------- */
+  const plainEditable = (c: number, rowIndex: number) => {
+    const col = columns[c];
+    return !!col && !col.options && isEditable(col, rows[rowIndex]);
+  };
+
+  const clearRange = () => {
+    if (!range) return;
+    const changes: CellChange[] = [];
+
+    for (let c = range.c0; c <= range.c1; c++) {
+      const col = columns[c];
+      const targets: number[] = [];
+      for (let r = range.r0; r <= range.r1; r++) {
+        const rowIndex = visibleRows[r];
+        if (!isEditable(col, rows[rowIndex])) continue;
+        if (col.options) targets.push(rowIndex);
+        else if (cellText(col, rows[rowIndex]) !== "") changes.push({ rowIndex, key: col.key, value: "" });
+      }
+      if (col.options && targets.length > 0) col.onClear?.(targets);
+    }
+
+    if (changes.length > 0) onCellsChange(changes, `Clear ${changes.length} cell${changes.length > 1 ? "s" : ""}`);
+  };
+
+  const fillDown = () => {
+    if (!range) return;
+    // Single row selected → copy from the row above (as in Excel)
+    const sourceR = range.r0 === range.r1 ? range.r0 - 1 : range.r0;
+    if (sourceR < 0) return;
+
+    const changes: CellChange[] = [];
+    for (let c = range.c0; c <= range.c1; c++) {
+      const col = columns[c];
+      const value = cellText(col, rows[visibleRows[sourceR]]);
+      for (let r = sourceR + 1; r <= range.r1; r++) {
+        const rowIndex = visibleRows[r];
+        if (!plainEditable(c, rowIndex) || cellText(col, rows[rowIndex]) === value) continue;
+        changes.push({ rowIndex, key: col.key, value: parseInput(col, value) });
+      }
+    }
+
+    if (changes.length > 0) onCellsChange(changes, `Fill down ${changes.length} cell${changes.length > 1 ? "s" : ""}`);
+  };
+
+  const handleCopy = (e: React.ClipboardEvent) => {
+    if (editRef.current || !range) return;
+    e.preventDefault();
+
+    const lines: string[] = [];
+    for (let r = range.r0; r <= range.r1; r++) {
+      const row = rows[visibleRows[r]];
+      const cells: string[] = [];
+      for (let c = range.c0; c <= range.c1; c++) cells.push(cellText(columns[c], row).replace(/[\t\n]/g, " "));
+      lines.push(cells.join("\t"));
+    }
+    e.clipboardData.setData("text/plain", lines.join("\n"));
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    if (editRef.current || !range) return;
+    const text = e.clipboardData.getData("text/plain");
+    if (!text) return;
+    e.preventDefault();
+
+    const block = parseClipboard(text);
+    const single = block.length === 1 && block[0].length === 1;
+    // One value over a selection fills it; a block is pasted from the top-left cell
+    const rowsToFill = single ? range.r1 - range.r0 + 1 : block.length;
+    const colsToFill = single ? range.c1 - range.c0 + 1 : Math.max(...block.map(b => b.length));
+
+    const changes: CellChange[] = [];
+    for (let dr = 0; dr < rowsToFill; dr++) {
+      const r = range.r0 + dr;
+      if (r > lastRow) break;
+      const rowIndex = visibleRows[r];
+
+      for (let dc = 0; dc < colsToFill; dc++) {
+        const c = range.c0 + dc;
+        if (c > lastCol) break;
+        const raw = single ? block[0][0] : block[dr]?.[dc];
+        if (raw === undefined || !plainEditable(c, rowIndex)) continue;
+        changes.push({ rowIndex, key: columns[c].key, value: parseInput(columns[c], raw.trim()) });
+      }
+    }
+
+    if (changes.length > 0) {
+      onCellsChange(changes, `Paste ${changes.length} cell${changes.length > 1 ? "s" : ""}`);
+      if (!single) {
+        setAnchor({ r: range.r0, c: range.c0 });
+        setFocus({ r: Math.min(lastRow, range.r0 + rowsToFill - 1), c: Math.min(lastCol, range.c0 + colsToFill - 1) });
+      }
+    }
+  };
+
+  /* ---------- keyboard ---------- */
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (edit || !focus || visibleRows.length === 0) return;
+    if ((e.target as HTMLElement) !== containerRef.current) return;
+
+    const mod = e.ctrlKey || e.metaKey;
+    const { r, c } = focus;
+
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        moveTo({ r: mod ? lastRow : r + 1, c }, e.shiftKey);
+        return;
+      case "ArrowUp":
+        e.preventDefault();
+        moveTo({ r: mod ? 0 : r - 1, c }, e.shiftKey);
+        return;
+      case "ArrowRight":
+        e.preventDefault();
+        moveTo({ r, c: mod ? lastCol : c + 1 }, e.shiftKey);
+        return;
+      case "ArrowLeft":
+        e.preventDefault();
+        moveTo({ r, c: mod ? 0 : c - 1 }, e.shiftKey);
+        return;
+      case "Home":
+        e.preventDefault();
+        moveTo({ r: mod ? 0 : r, c: 0 }, e.shiftKey);
+        return;
+      case "End":
+        e.preventDefault();
+        moveTo({ r: mod ? lastRow : r, c: lastCol }, e.shiftKey);
+        return;
+      case "Tab":
+        e.preventDefault();
+        if (e.shiftKey) moveTo(c > 0 ? { r, c: c - 1 } : { r: r - 1, c: lastCol });
+        else moveTo(c < lastCol ? { r, c: c + 1 } : { r: r + 1, c: 0 });
+        return;
+      case "Enter":
+        e.preventDefault();
+        if (e.shiftKey) moveTo({ r: r - 1, c });
+        else if (isEditable(columns[c], rows[visibleRows[r]])) startEdit(focus);
+        else moveTo({ r: r + 1, c });
+        return;
+      case "F2":
+        e.preventDefault();
+        startEdit(focus);
+        return;
+      case "Escape":
+        setAnchor(focus);
+        return;
+      case "Delete":
+      case "Backspace":
+        e.preventDefault();
+        clearRange();
+        return;
+    }
+
+    if (mod && e.key.toLowerCase() === "d") {
+      e.preventDefault();
+      fillDown();
+      return;
+    }
+
+    if (mod && e.key.toLowerCase() === "a") {
+      e.preventDefault();
+      setAnchor({ r: 0, c: 0 });
+      setFocus({ r: lastRow, c: lastCol });
+      return;
+    }
+
+    // Typing replaces the cell, as in a spreadsheet
+    if (e.key.length === 1 && !mod && !e.altKey) {
+      const col = columns[c];
+      if (isEditable(col, rows[visibleRows[r]])) {
+        e.preventDefault();
+        startEdit(focus, e.key);
+      }
+    }
+  };
+
+  /* ---------- mouse ---------- */
+  const handleCellMouseDown = (e: React.MouseEvent, pos: Pos) => {
+    if (e.button !== 0) return;
+    const target = e.target as HTMLElement;
+
+    if (edit) {
+      if (edit.pos.r === pos.r && edit.pos.c === pos.c) return;
+      finishEdit(null);
+    }
+
+    // Buttons / checkboxes inside cells keep working; the cell still becomes active
+    if (!target.closest(INTERACTIVE)) {
+      e.preventDefault();
+      refocus();
+      dragging.current = true;
+    }
+    moveTo(pos, e.shiftKey);
+  };
+
+  const handleCellMouseEnter = (pos: Pos) => {
+    if (dragging.current) setFocus(pos);
+  };
+
+  /* ---------- render ---------- */
+  let visiblePos = -1;
+
+  return (
+    <div
+      ref={containerRef}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      onCopy={handleCopy}
+      onPaste={handlePaste}
+      onFocus={e => {
+        // Tabbing into the grid lands on the first cell
+        if (e.target === e.currentTarget && !focus && visibleRows.length > 0) moveTo({ r: 0, c: 0 });
+      }}
+      className={`outline-none ${className}`}
+    >
+      <table className="w-full text-left border-collapse select-none">
+        <thead>
+          <tr className={headerRowClassName}>
+            {columns.map(col => (
+              <th key={col.key} className={`px-3 py-3 ${col.headerClassName || ""}`}>
+                {col.header ?? col.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-neutral-100">
+          {allGroups.map(group => (
+            <React.Fragment key={group.key}>
+              {groups && (
+                <tr
+                  onClick={() => onToggleGroup?.(group.key)}
+                  className={`${groupRowClassName} cursor-pointer transition-colors`}
+                >
+                  <td colSpan={columns.length} className="px-3 py-2">
+                    <div className="flex items-center gap-2">
+                      {group.collapsed ? (
+                        <ChevronRight className="w-4 h-4 text-blue-600" />
+                      ) : (
+                        <ChevronDown className="w-4 h-4 text-blue-600" />
+                      )}
+                      {group.label}
+                    </div>
+                  </td>
+                </tr>
+              )}
+
+              {!group.collapsed &&
+                group.rowIndices.map(rowIndex => {
+                  visiblePos++;
+                  const r = visiblePos;
+                  const row = rows[rowIndex];
+
+                  return (
+                    <tr
+                      key={rowIndex}
+                      className={`transition-colors ${rowClassName ? rowClassName(row, rowIndex) : "hover:bg-neutral-50"}`}
+                    >
+                      {columns.map((col, c) => {
+                        const isActive = focus?.r === r && focus?.c === c;
+                        const isEditing = edit?.pos.r === r && edit?.pos.c === c;
+                        const extraClass =
+                          typeof col.cellClassName === "function" ? col.cellClassName(row, rowIndex) : col.cellClassName || "";
+
+                        return (
+                          <td
+                            key={col.key}
+                            data-cell={`${r}:${c}`}
+                            onMouseDown={e => handleCellMouseDown(e, { r, c })}
+                            onMouseEnter={() => handleCellMouseEnter({ r, c })}
+                            onDoubleClick={() => startEdit({ r, c })}
+                            className={`px-3 py-2 align-middle ${extraClass} ${
+                              inRange(r, c) && !isActive ? "bg-blue-50" : ""
+                            } ${isActive && !isEditing ? "outline outline-2 -outline-offset-2 outline-blue-500" : ""}`}
+                          >
+                            {isEditing && edit ? (
+                              <CellEditor
+                                column={col}
+                                row={row}
+                                edit={edit}
+                                setEdit={setEdit}
+                                onCommit={finishEdit}
+                                onCancel={cancelEdit}
+                                onPick={pickOption}
+                              />
+                            ) : col.render ? (
+                              col.render(row, rowIndex)
+                            ) : (
+                              cellText(col, row) || (
+                                col.placeholder ? <span className="text-neutral-300">{col.placeholder}</span> : ""
+                              )
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+            </React.Fragment>
+          ))}
+
+          {allGroups.every(g => g.rowIndices.length === 0) && emptyState && (
+            <tr>
+              <td colSpan={columns.length}>{emptyState}</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import React from "react";
+import { Badge } from "./Badge";
+import { ORDER_STATUS_META, normalizeOrderStatus } from "../utils/orderStatus";
+
+interface OrderStatusBadgeProps {
+  status?: string | null;
+  className?: string;
+}
+
+export function OrderStatusBadge({ status, className = "" }: OrderStatusBadgeProps) {
+  const meta = ORDER_STATUS_META[normalizeOrderStatus(status)];
+  return (
+    <Badge variant={meta.variant} className={className}>
+      {meta.label}
+    </Badge>
+  );
+}
@@ -15,12 +15,14 @@ interface SchemeSummaryCardProps {
   orderId: string;
   schemeSummary: SchemeSummary;
   fileName?: string;
+  downloadLocked?: boolean;
 }
 
 export function SchemeSummaryCard({
   orderId,
   schemeSummary,
-  fileName
+  fileName,
+  downloadLocked = false
 }: SchemeSummaryCardProps) {
   const [downloading, setDownloading] = useState(false);
 
@@ -67,6 +69,7 @@ export function SchemeSummaryCard({
         </div>
 
         {/* DOWNLOAD BUTTON */}
+        {!downloadLocked && (
         <Button
           variant="warning"
           onClick={handleDownload}
@@ -85,6 +88,7 @@ export function SchemeSummaryCard({
             </>
           )}
         </Button>
+        )}
       </div>
     </Card>
   );
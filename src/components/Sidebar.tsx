@@ -8,6 +8,7 @@ import {
   LayoutDashboard,
   LogOut,
   X,
+  ShieldCheck,
 } from "lucide-react";
 import { NavLink, useNavigate } from "react-router-dom";
 import { Badge } from "./Badge";
@@ -30,6 +31,7 @@ const USER_MENU_ITEMS = [
 const ADMIN_MENU_ITEMS = [
   { to: "/admin", label: "Dashboard", icon: LayoutDashboard },
   { to: "/upload", label: "Convert Order", icon: Upload },
+  { to: "/admin/approvals", label: "Approvals", icon: ShieldCheck },
   { to: "/admin/master-data", label: "Master Data", icon: Map },
   { to: "/admin/user-access", label: "User Access", icon: Users },
 ];
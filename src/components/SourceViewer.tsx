@@ -0,0 +1,206 @@
+import React, { useEffect, useRef, useState } from "react";
+import { FileText, RefreshCw } from "lucide-react";
+import { SourceDocument, getSourceDocument, getSourcePageImage } from "../services/orderApi";
+
+interface Box {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export type SourceHighlight =
+  | { sheet: string; row: number }
+  | { page: number; bbox?: Box }
+  | null;
+
+interface SourceViewerProps {
+  uploadId?: string;
+  fileName?: string;
+  highlight: SourceHighlight;
+}
+
+/* ---------------- PAGE IMAGE WITH HIGHLIGHT ---------------- */
+function SourcePage({ uploadId, page, bbox, active }: { uploadId: string; page: number; bbox?: Box; active: boolean }) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [natural, setNatural] = useState<{ w: number; h: number } | null>(null);
+  const boxRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    getSourcePageImage(uploadId, page)
+      .then(u => {
+        objectUrl = u;
+        setUrl(u);
+      })
+      .catch(err => console.error(`Source page ${page} load failed`, err));
+
+    return () => {
+      if (objectUrl) window.URL.revokeObjectURL(objectUrl);
+    };
+  }, [uploadId, page]);
+
+  useEffect(() => {
+    if (active && natural) boxRef.current?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [active, bbox, natural]);
+
+  return (
+    <div className="relative border-b border-neutral-200">
+      <div className="absolute top-1 left-1 z-10 bg-white/80 text-[10px] px-1.5 rounded text-neutral-500">Page {page}</div>
+      {url ? (
+        <div className="relative">
+          <img
+            src={url}
+            alt={`Page ${page}`}
+            className="block w-full"
+            onLoad={e => setNatural({ w: e.currentTarget.naturalWidth, h: e.currentTarget.naturalHeight })}
+          />
+          {active && bbox && natural && (
+            <div
+              ref={boxRef}
+              className="absolute border-2 border-amber-500 bg-amber-300/25 transition-all"
+              style={{
+                left: `${(bbox.x0 / natural.w) * 100}%`,
+                top: `${(bbox.y0 / natural.h) * 100}%`,
+                width: `${((bbox.x1 - bbox.x0) / natural.w) * 100}%`,
+                height: `${((bbox.y1 - bbox.y0) / natural.h) * 100}%`
+              }}
+            />
+          )}
+        </div>
+      ) : (
+        <div className="flex items-center justify-center h-64">
+          <RefreshCw className="w-5 h-5 animate-spin text-neutral-400" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Renders the uploaded source file next to the mapping grid and keeps
+ * the line / cell of the selected row highlighted and in view.
+ */
+export function SourceViewer({ uploadId, fileName, highlight }: SourceViewerProps) {
+  const [doc, setDoc] = useState<SourceDocument | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [activeSheet, setActiveSheet] = useState(0);
+  const highlightRowRef = useRef<HTMLTableRowElement>(null);
+
+  useEffect(() => {
+    if (!uploadId) return;
+
+    setLoading(true);
+    setFailed(false);
+    setActiveSheet(0);
+
+    getSourceDocument(uploadId)
+      .then(setDoc)
+      .catch(err => {
+        console.error("Source document load failed", err);
+        setDoc(null);
+        setFailed(true);
+      })
+      .finally(() => setLoading(false));
+  }, [uploadId]);
+
+  // Follow the selected row onto its sheet
+  useEffect(() => {
+    if (!doc?.sheets || !highlight || !("sheet" in highlight)) return;
+    const idx = doc.sheets.findIndex(s => s.name.toLowerCase() === String(highlight.sheet).toLowerCase());
+    if (idx !== -1) setActiveSheet(idx);
+  }, [doc, highlight]);
+
+  useEffect(() => {
+    highlightRowRef.current?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [highlight, activeSheet, doc]);
+
+  if (!uploadId) {
+    return <p className="p-6 text-sm text-neutral-500">No source file for these rows.</p>;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full py-16">
+        <RefreshCw className="w-6 h-6 animate-spin text-primary-600" />
+      </div>
+    );
+  }
+
+  if (failed || !doc) {
+    return <p className="p-6 text-sm text-neutral-500">The original file is not available for this upload.</p>;
+  }
+
+  const sheet = doc.sheets?.[activeSheet];
+  const highlightedRow =
+    highlight && "sheet" in highlight && sheet && sheet.name.toLowerCase() === String(highlight.sheet).toLowerCase()
+      ? highlight.row
+      : null;
+  const colCount = sheet ? Math.max(0, ...sheet.rows.map(r => r.length)) : 0;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-2 px-3 py-2 border-b bg-neutral-50 text-sm">
+        <FileText className="w-4 h-4 text-neutral-400" />
+        <span className="font-medium truncate">{doc.fileName || fileName}</span>
+      </div>
+
+      {doc.kind === "sheet" && doc.sheets && doc.sheets.length > 1 && (
+        <div className="flex gap-1 px-2 pt-2 border-b overflow-x-auto">
+          {doc.sheets.map((s, idx) => (
+            <button
+              key={s.name}
+              onClick={() => setActiveSheet(idx)}
+              className={`px-3 py-1 text-xs rounded-t border border-b-0 whitespace-nowrap ${
+                idx === activeSheet ? "bg-white font-semibold" : "bg-neutral-100 text-neutral-500"
+              }`}
+            >
+              {s.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto">
+        {doc.kind === "sheet" && sheet ? (
+          <table className="text-xs border-collapse min-w-full">
+            <tbody>
+              {sheet.rows.map((row, r) => {
+                const isHighlighted = r === highlightedRow;
+                return (
+                  <tr
+                    key={r}
+                    ref={isHighlighted ? highlightRowRef : undefined}
+                    className={isHighlighted ? "bg-amber-100 outline outline-2 outline-amber-400" : ""}
+                  >
+                    <td className="px-2 py-1 border-r border-b bg-neutral-50 text-neutral-400 text-right sticky left-0">
+                      {r + 1}
+                    </td>
+                    {Array.from({ length: colCount }, (_, c) => (
+                      <td key={c} className="px-2 py-1 border-r border-b whitespace-nowrap max-w-[240px] truncate" title={row[c] || ""}>
+                        {row[c] || ""}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        ) : doc.kind === "pages" ? (
+          Array.from({ length: doc.pageCount || 0 }, (_, p) => (
+            <SourcePage
+              key={p}
+              uploadId={uploadId}
+              page={p + 1}
+              bbox={highlight && "page" in highlight ? highlight.bbox : undefined}
+              active={!!highlight && "page" in highlight && highlight.page === p + 1}
+            />
+          ))
+        ) : (
+          <p className="p-6 text-sm text-neutral-500">Nothing to show.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import React, { useState } from "react";
+import { ChevronDown, ChevronRight, RefreshCw } from "lucide-react";
+import { SheetPreview } from "../services/orderApi";
+
+interface WorkbookSheetPickerProps {
+  sheets?: SheetPreview[];
+  loading?: boolean;
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Include / exclude the sheets of a workbook before extraction,
+ * with row counts and a peek at the first rows of each sheet.
+ */
+export function WorkbookSheetPicker({ sheets, loading, selected, onChange, disabled }: WorkbookSheetPickerProps) {
+  const [openSheet, setOpenSheet] = useState<string | null>(null);
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-neutral-500 px-3 py-2">
+        <RefreshCw className="w-3 h-3 animate-spin" /> Reading sheets...
+      </div>
+    );
+  }
+
+  // Single-sheet files have nothing to choose
+  if (!sheets || sheets.length < 2) return null;
+
+  const toggle = (name: string) => {
+    onChange(selected.includes(name) ? selected.filter(s => s !== name) : [...selected, name]);
+  };
+
+  return (
+    <div className="px-3 pb-3 space-y-1">
+      <div className="text-[10px] text-neutral-400 font-bold uppercase tracking-wider">
+        Sheets to extract ({selected.length}/{sheets.length})
+      </div>
+
+      {sheets.map(sheet => {
+        const included = selected.includes(sheet.name);
+        const isOpen = openSheet === sheet.name;
+        const previewRows = sheet.rows.slice(sheet.detectedHeaderRowIndex, sheet.detectedHeaderRowIndex + 5);
+        const previewCols = Math.min(6, Math.max(0, ...previewRows.map(r => r.length)));
+
+        return (
+          <div key={sheet.name} className={`border rounded-md ${included ? "border-neutral-200" : "border-neutral-100 opacity-60"}`}>
+            <div className="flex items-center gap-2 px-2 py-1.5 text-sm">
+              <input
+                type="checkbox"
+                checked={included}
+                onChange={() => toggle(sheet.name)}
+                disabled={disabled}
+                className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <button
+                type="button"
+                onClick={() => setOpenSheet(isOpen ? null : sheet.name)}
+                className="flex items-center gap-1 flex-1 text-left"
+              >
+                {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                <span className={`font-medium ${included ? "text-neutral-800" : "text-neutral-500 line-through"}`}>
+                  {sheet.name}
+                </span>
+              </button>
+              <span className="text-xs text-neutral-500">{sheet.totalRows} rows</span>
+            </div>
+
+            {isOpen && (
+              <div className="overflow-x-auto border-t bg-neutral-50">
+                {previewRows.length === 0 ? (
+                  <p className="text-xs text-neutral-400 px-3 py-2">Empty sheet</p>
+                ) : (
+                  <table className="text-[11px] w-full">
+                    <tbody>
+                      {previewRows.map((row, r) => (
+                        <tr key={r} className={r === 0 ? "font-semibold bg-neutral-100" : ""}>
+                          {Array.from({ length: previewCols }, (_, c) => (
+                            <td key={c} className="px-2 py-0.5 border-b whitespace-nowrap max-w-[160px] truncate">
+                              {row[c] || ""}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+/**
+ * ALIAS TABLE
+ * Learned customer ITEMDESC → product mappings (recorded from MappingPage manual mappings)
+ */
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { masterDataApi, ProductAliasData } from "../../services/masterDataApi";
+import { Button } from "../Button";
+import { Card } from "../Card";
+import { Input } from "../Input";
+import { Trash2, Edit2, RefreshCw } from "lucide-react";
+import { CustomModal } from "../Modal";
+
+export function AliasTable() {
+  const [aliases, setAliases] = useState<ProductAliasData[]>([]);
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const limit = 20;
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [paginating, setPaginating] = useState(false);
+
+  const [editingAlias, setEditingAlias] = useState<ProductAliasData | null>(null);
+  const [formData, setFormData] = useState({ invoiceDesc: "", productCode: "" });
+
+  const loadAliases = async () => {
+    try {
+      if (!loading) {
+        setPaginating(true);
+      }
+      const res = await masterDataApi.getAliases(search, page, limit);
+      setAliases(res.data);
+      setTotal(res.total);
+    } catch (err) {
+      console.error("Alias load error:", err);
+      toast.error("Failed to load aliases");
+      setAliases([]);
+    } finally {
+      setLoading(false);
+      setPaginating(false);
+    }
+  };
+
+  useEffect(() => {
+    loadAliases();
+  }, [page, search]);
+
+  const openEdit = (alias: ProductAliasData) => {
+    setEditingAlias(alias);
+    setFormData({ invoiceDesc: alias.invoiceDesc, productCode: alias.productCode });
+  };
+
+  const handleSave = async () => {
+    if (!editingAlias?._id) return;
+
+    if (!formData.invoiceDesc.trim() || !formData.productCode.trim()) {
+      toast.error("Invoice description and product code are required");
+      return;
+    }
+
+    try {
+      await masterDataApi.updateAlias(editingAlias._id, {
+        invoiceDesc: formData.invoiceDesc.trim(),
+        productCode: formData.productCode.trim()
+      });
+      toast.success("Alias updated");
+      setEditingAlias(null);
+      loadAliases();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Update failed");
+    }
+  };
+
+  const handleDelete = async (id?: string) => {
+    if (!id || !confirm("Delete this alias? The item will need manual mapping again.")) return;
+
+    try {
+      await masterDataApi.deleteAlias(id);
+      toast.success("Alias deleted");
+      loadAliases();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Delete failed");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full min-h-[50vh] space-y-4">
+        <RefreshCw className="w-8 h-8 animate-spin text-primary-600" />
+        <div className="text-center">
+          <p className="text-lg font-medium text-neutral-700">Loading aliases</p>
+          <p className="text-sm text-neutral-500 mt-1">Please wait...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const totalPages = Math.ceil(total / limit);
+
+  return (
+    <Card className="relative">
+      {paginating && (
+        <div className="absolute inset-0 bg-white/80 backdrop-blur-sm z-10 flex items-center justify-center animate-fade-in rounded-lg">
+          <div className="flex flex-col items-center gap-3">
+            <RefreshCw className="w-8 h-8 animate-spin text-primary-600" />
+            <p className="text-sm font-medium text-neutral-700">Loading page {page}...</p>
+          </div>
+        </div>
+      )}
+      <div className="flex justify-between items-center mb-3">
+        <div>
+          <h3 className="text-lg font-semibold">Product Aliases ({total})</h3>
+          <p className="text-xs text-neutral-500">
+            Learned from manual mappings. Used before auto-matching on the next upload from the same customer.
+          </p>
+        </div>
+      </div>
+
+      <Input
+        placeholder="Search customer, invoice item or product code"
+        value={search}
+        onChange={e => {
+          setSearch(e.target.value);
+          setPage(1);
+        }}
+        className="mb-3"
+      />
+
+      <div className={`overflow-x-auto ${paginating ? 'opacity-50 pointer-events-none' : ''}`}>
+        <table className="w-full text-sm">
+          <thead className="bg-neutral-100">
+            <tr className="border-b">
+              <th className="text-left p-2">Customer</th>
+              <th className="text-left p-2">Invoice Item</th>
+              <th className="text-left p-2">Mapped Product</th>
+              <th className="text-center p-2">Used</th>
+              <th className="text-left p-2">Last Updated</th>
+              <th className="text-right p-2">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {aliases.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="text-center p-8 text-neutral-500">
+                  {search ? "No aliases found matching your search" : "No aliases learned yet"}
+                </td>
+              </tr>
+            ) : (
+              aliases.map(a => (
+                <tr key={a._id} className="border-b hover:bg-neutral-50">
+                  <td className="p-2">
+                    <p className="font-medium">{a.customerName || a.customerCode}</p>
+                    <p className="text-xs text-neutral-500 font-mono">{a.customerCode}</p>
+                  </td>
+                  <td className="p-2">{a.invoiceDesc}</td>
+                  <td className="p-2">
+                    <p>{a.productName || "-"}</p>
+                    <p className="text-xs text-neutral-500 font-mono">{a.productCode}</p>
+                  </td>
+                  <td className="p-2 text-center">{a.hits || 0}</td>
+                  <td className="p-2 text-xs text-neutral-500">
+                    {a.updatedAt ? new Date(a.updatedAt).toLocaleDateString() : "-"}
+                  </td>
+                  <td className="p-2 text-right">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => openEdit(a)}
+                        className="text-green-600 hover:text-green-700"
+                        title="Edit alias"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(a._id)}
+                        className="text-red-600 hover:text-red-700"
+                        title="Delete alias"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex justify-between items-center mt-4 pt-4 border-t">
+          <p className="text-sm text-neutral-600">
+            Showing {(page - 1) * limit + 1} to {Math.min(page * limit, total)} of {total} aliases
+          </p>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={() => setPage(p => Math.max(1, p - 1))}
+              disabled={page === 1 || paginating}
+            >
+              Previous
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+              disabled={page === totalPages || paginating}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <CustomModal
+        isOpen={!!editingAlias}
+        onClose={() => setEditingAlias(null)}
+        title="Edit Alias"
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setEditingAlias(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave}>Update</Button>
+          </>
+        }
+      >
+        <div className="space-y-3">
+          <div>
+            <label className="text-sm font-medium mb-1 block">Customer</label>
+            <Input value={editingAlias?.customerName || editingAlias?.customerCode || ""} disabled />
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-1 block">Invoice Item</label>
+            <Input
+              value={formData.invoiceDesc}
+              onChange={e => setFormData({ ...formData, invoiceDesc: e.target.value })}
+              placeholder="Item description as written by the customer"
+            />
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-1 block">Product Code</label>
+            <Input
+              value={formData.productCode}
+              onChange={e => setFormData({ ...formData, productCode: e.target.value })}
+              placeholder="SAP Product Code"
+            />
+          </div>
+        </div>
+      </CustomModal>
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * APPROVAL SETTINGS
+ * Thresholds above which a converted order needs admin approval before download
+ */
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { masterDataApi, ApprovalSettings } from "../../services/masterDataApi";
+import { Button } from "../Button";
+import { Card } from "../Card";
+import { Input } from "../Input";
+import { RefreshCw } from "lucide-react";
+
+type LimitField = "maxFreeValue" | "maxSchemePercent" | "maxTotalQty";
+
+const LIMITS: { field: LimitField; label: string; help: string }[] = [
+  { field: "maxFreeValue", label: "Free Goods Value", help: "Free qty × product rate, whole order" },
+  { field: "maxSchemePercent", label: "Scheme %", help: "Highest scheme percent on any line" },
+  { field: "maxTotalQty", label: "Total Quantity", help: "Sum of ordered quantities" }
+];
+
+// Empty input = limit switched off
+const toText = (v: number | null | undefined) => (v === null || v === undefined ? "" : String(v));
+const toLimit = (v: string) => (v.trim() === "" ? null : Number(v));
+
+export function ApprovalSettingsForm() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [enabled, setEnabled] = useState(false);
+  const [limits, setLimits] = useState<Record<LimitField, string>>({
+    maxFreeValue: "",
+    maxSchemePercent: "",
+    maxTotalQty: ""
+  });
+
+  useEffect(() => {
+    masterDataApi
+      .getApprovalSettings()
+      .then(s => {
+        setEnabled(!!s?.enabled);
+        setLimits({
+          maxFreeValue: toText(s?.maxFreeValue),
+          maxSchemePercent: toText(s?.maxSchemePercent),
+          maxTotalQty: toText(s?.maxTotalQty)
+        });
+      })
+      .catch(err => {
+        console.error("Approval settings load error:", err);
+        toast.error("Failed to load approval settings");
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleSave = async () => {
+    const settings: ApprovalSettings = {
+      enabled,
+      maxFreeValue: toLimit(limits.maxFreeValue),
+      maxSchemePercent: toLimit(limits.maxSchemePercent),
+      maxTotalQty: toLimit(limits.maxTotalQty)
+    };
+
+    for (const { field, label } of LIMITS) {
+      const value = settings[field];
+      if (value !== null && (isNaN(value) || value < 0)) {
+        toast.error(`${label} must be a positive number or empty`);
+        return;
+      }
+    }
+
+    if (settings.maxSchemePercent !== null && settings.maxSchemePercent > 100) {
+      toast.error("Scheme % cannot be above 100");
+      return;
+    }
+
+    if (enabled && LIMITS.every(({ field }) => settings[field] === null)) {
+      toast.error("Set at least one limit to turn approvals on");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await masterDataApi.updateApprovalSettings(settings);
+      toast.success("Approval settings saved");
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Save failed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[30vh] space-y-4">
+        <RefreshCw className="w-8 h-8 animate-spin text-primary-600" />
+        <p className="text-sm text-neutral-500">Loading approval settings...</p>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold">Order Approval</h3>
+        <p className="text-xs text-neutral-500">
+          Converted orders above any limit wait in the approval queue and cannot be downloaded until an admin approves them.
+          Leave a limit empty to ignore it.
+        </p>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm font-medium mb-4">
+        <input type="checkbox" checked={enabled} onChange={e => setEnabled(e.target.checked)} />
+        Require approval for orders above these limits
+      </label>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 max-w-4xl">
+        {LIMITS.map(({ field, label, help }) => (
+          <div key={field}>
+            <label className="text-sm font-medium mb-1 block">{label}</label>
+            <Input
+              type="number"
+              min={0}
+              value={limits[field]}
+              placeholder="No limit"
+              disabled={!enabled}
+              onChange={e => setLimits({ ...limits, [field]: e.target.value })}
+            />
+            <p className="text-[11px] text-neutral-500 mt-1">{help}</p>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-neutral-500 mt-4">
+        Free goods value uses the Rate set on each product. Products without a rate are not counted.
+      </p>
+
+      <div className="flex justify-end mt-4">
+        <Button size="sm" onClick={handleSave} isLoading={saving}>
+          Save
+        </Button>
+      </div>
+    </Card>
+  );
+}
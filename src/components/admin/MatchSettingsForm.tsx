@@ -0,0 +1,132 @@
+/**
+ * MATCH SETTINGS
+ * Admin-configurable confidence thresholds for auto-matched products
+ */
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { masterDataApi } from "../../services/masterDataApi";
+import { DEFAULT_MATCH_THRESHOLDS, MatchThresholds } from "../../utils/matchConfidence";
+import { Button } from "../Button";
+import { Card } from "../Card";
+import { Input } from "../Input";
+import { RefreshCw } from "lucide-react";
+
+export function MatchSettingsForm() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    autoAccept: String(DEFAULT_MATCH_THRESHOLDS.autoAccept * 100),
+    review: String(DEFAULT_MATCH_THRESHOLDS.review * 100),
+    onUnreviewed: DEFAULT_MATCH_THRESHOLDS.onUnreviewed as MatchThresholds["onUnreviewed"]
+  });
+
+  useEffect(() => {
+    masterDataApi
+      .getMatchSettings()
+      .then(s =>
+        setFormData({
+          autoAccept: String(Math.round(s.autoAccept * 100)),
+          review: String(Math.round(s.review * 100)),
+          onUnreviewed: s.onUnreviewed
+        })
+      )
+      .catch(err => {
+        console.error("Match settings load error:", err);
+        toast.error("Failed to load match settings, showing defaults");
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleSave = async () => {
+    const autoAccept = Number(formData.autoAccept);
+    const review = Number(formData.review);
+
+    if (isNaN(autoAccept) || isNaN(review) || autoAccept < 0 || review < 0 || autoAccept > 100 || review > 100) {
+      toast.error("Thresholds must be between 0 and 100");
+      return;
+    }
+
+    if (review > autoAccept) {
+      toast.error("Review threshold cannot be above the auto-accept threshold");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await masterDataApi.updateMatchSettings({
+        autoAccept: autoAccept / 100,
+        review: review / 100,
+        onUnreviewed: formData.onUnreviewed
+      });
+      toast.success("Match settings saved");
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Save failed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[30vh] space-y-4">
+        <RefreshCw className="w-8 h-8 animate-spin text-primary-600" />
+        <p className="text-sm text-neutral-500">Loading match settings...</p>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold">Match Confidence</h3>
+        <p className="text-xs text-neutral-500">
+          Auto-matched rows scoring below the auto-accept threshold are flagged "Needs review" on the mapping page.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 max-w-3xl">
+        <div>
+          <label className="text-sm font-medium mb-1 block">Auto-accept at (%)</label>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            value={formData.autoAccept}
+            onChange={e => setFormData({ ...formData, autoAccept: e.target.value })}
+          />
+          <p className="text-[11px] text-neutral-500 mt-1">At or above: trusted match</p>
+        </div>
+
+        <div>
+          <label className="text-sm font-medium mb-1 block">Review at (%)</label>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            value={formData.review}
+            onChange={e => setFormData({ ...formData, review: e.target.value })}
+          />
+          <p className="text-[11px] text-neutral-500 mt-1">Below: flagged as low confidence</p>
+        </div>
+
+        <div>
+          <label className="text-sm font-medium mb-1 block">Unconfirmed rows on Convert</label>
+          <select
+            className="w-full border rounded-md px-3 py-2 text-sm"
+            value={formData.onUnreviewed}
+            onChange={e => setFormData({ ...formData, onUnreviewed: e.target.value as MatchThresholds["onUnreviewed"] })}
+          >
+            <option value="warn">Warn and ask</option>
+            <option value="block">Block conversion</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="flex justify-end mt-4">
+        <Button size="sm" onClick={handleSave} isLoading={saving}>
+          Save
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,168 @@
+/**
+ * ORDER REFERENCE SETTINGS
+ * Format of the server-assigned order numbers used in history and download filenames
+ */
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { masterDataApi, OrderRefSettings } from "../../services/masterDataApi";
+import { Button } from "../Button";
+import { Card } from "../Card";
+import { Input } from "../Input";
+import { RefreshCw } from "lucide-react";
+
+const DEFAULT_SETTINGS: OrderRefSettings = {
+  prefix: "COD",
+  separator: "/",
+  padding: 5,
+  resetEachFinancialYear: true
+};
+
+// Mirrors the server format so admins see the result before saving
+const currentFinancialYear = () => {
+  const now = new Date();
+  const start = now.getMonth() >= 3 ? now.getFullYear() : now.getFullYear() - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+};
+
+const previewRef = (s: OrderRefSettings) => {
+  const number = "1".padStart(s.padding, "0");
+  const parts = s.resetEachFinancialYear ? [s.prefix, currentFinancialYear(), number] : [s.prefix, number];
+  return parts.join(s.separator);
+};
+
+export function OrderRefSettingsForm() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    prefix: DEFAULT_SETTINGS.prefix,
+    separator: DEFAULT_SETTINGS.separator,
+    padding: String(DEFAULT_SETTINGS.padding),
+    resetEachFinancialYear: DEFAULT_SETTINGS.resetEachFinancialYear
+  });
+
+  useEffect(() => {
+    masterDataApi
+      .getOrderRefSettings()
+      .then(s =>
+        setFormData({
+          prefix: s.prefix ?? DEFAULT_SETTINGS.prefix,
+          separator: s.separator ?? DEFAULT_SETTINGS.separator,
+          padding: String(s.padding ?? DEFAULT_SETTINGS.padding),
+          resetEachFinancialYear: s.resetEachFinancialYear ?? DEFAULT_SETTINGS.resetEachFinancialYear
+        })
+      )
+      .catch(err => {
+        console.error("Order ref settings load error:", err);
+        toast.error("Failed to load order number settings, showing defaults");
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const settings: OrderRefSettings = {
+    prefix: formData.prefix.trim().toUpperCase(),
+    separator: formData.separator,
+    padding: Number(formData.padding),
+    resetEachFinancialYear: formData.resetEachFinancialYear
+  };
+
+  const handleSave = async () => {
+    if (!/^[A-Z0-9-]{1,10}$/.test(settings.prefix)) {
+      toast.error("Prefix must be 1-10 letters, digits or dashes");
+      return;
+    }
+
+    if (!Number.isInteger(settings.padding) || settings.padding < 0 || settings.padding > 10) {
+      toast.error("Digits must be between 0 and 10");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await masterDataApi.updateOrderRefSettings(settings);
+      toast.success("Order number settings saved");
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Save failed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[30vh] space-y-4">
+        <RefreshCw className="w-8 h-8 animate-spin text-primary-600" />
+        <p className="text-sm text-neutral-500">Loading order number settings...</p>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold">Order Reference Numbers</h3>
+        <p className="text-xs text-neutral-500">
+          Assigned by the server when an order is converted. Existing orders keep their number when the format changes.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 max-w-4xl">
+        <div>
+          <label className="text-sm font-medium mb-1 block">Prefix</label>
+          <Input
+            value={formData.prefix}
+            maxLength={10}
+            onChange={e => setFormData({ ...formData, prefix: e.target.value })}
+          />
+        </div>
+
+        <div>
+          <label className="text-sm font-medium mb-1 block">Separator</label>
+          <select
+            className="w-full border rounded-md px-3 py-2 text-sm"
+            value={formData.separator}
+            onChange={e => setFormData({ ...formData, separator: e.target.value as OrderRefSettings["separator"] })}
+          >
+            <option value="/">Slash ( / )</option>
+            <option value="-">Dash ( - )</option>
+          </select>
+        </div>
+
+        <div>
+          <label className="text-sm font-medium mb-1 block">Digits</label>
+          <Input
+            type="number"
+            min={0}
+            max={10}
+            value={formData.padding}
+            onChange={e => setFormData({ ...formData, padding: e.target.value })}
+          />
+          <p className="text-[11px] text-neutral-500 mt-1">Zero-padded running number</p>
+        </div>
+
+        <div>
+          <label className="text-sm font-medium mb-1 block">Numbering</label>
+          <select
+            className="w-full border rounded-md px-3 py-2 text-sm"
+            value={formData.resetEachFinancialYear ? "fy" : "never"}
+            onChange={e => setFormData({ ...formData, resetEachFinancialYear: e.target.value === "fy" })}
+          >
+            <option value="fy">Restart every 1 April</option>
+            <option value="never">Never restart</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center mt-4">
+        <p className="text-sm text-neutral-600">
+          Example:{" "}
+          <span className="font-mono font-medium text-neutral-900">
+            {settings.prefix && Number.isInteger(settings.padding) ? previewRef(settings) : "-"}
+          </span>
+        </p>
+        <Button size="sm" onClick={handleSave} isLoading={saving}>
+          Save
+        </Button>
+      </div>
+    </Card>
+  );
+}
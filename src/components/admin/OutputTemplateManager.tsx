@@ -0,0 +1,363 @@
+/**
+ * OUTPUT TEMPLATES
+ * Named column layouts for the converted file (order, header labels, computed columns),
+ * picked on the mapping page and used for preview, downloads and division reports
+ */
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import {
+  masterDataApi,
+  OutputTemplateData,
+  OutputTemplateColumn,
+  OutputField
+} from "../../services/masterDataApi";
+import { Button } from "../Button";
+import { Card } from "../Card";
+import { Input } from "../Input";
+import { Badge } from "../Badge";
+import { CustomModal } from "../Modal";
+import { Trash2, Edit2, RefreshCw, Plus, ArrowUp, ArrowDown } from "lucide-react";
+
+const FIXED_VALUE = "";
+
+const EMPTY_TEMPLATE: OutputTemplateData = {
+  name: "",
+  divisions: [],
+  isDefault: false,
+  columns: [
+    { header: "SAPCODE", field: "SAPCODE" },
+    { header: "ITEMDESC", field: "ITEMDESC" },
+    { header: "ORDERQTY", field: "ORDERQTY" }
+  ]
+};
+
+export function OutputTemplateManager() {
+  const [templates, setTemplates] = useState<OutputTemplateData[]>([]);
+  const [fields, setFields] = useState<OutputField[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const [editing, setEditing] = useState<OutputTemplateData | null>(null);
+  const [divisionsInput, setDivisionsInput] = useState("");
+
+  const loadTemplates = async () => {
+    try {
+      const res = await masterDataApi.getOutputTemplates();
+      setTemplates(res.templates);
+      setFields(res.fields);
+    } catch (err) {
+      console.error("Output template load error:", err);
+      toast.error("Failed to load output templates");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const fieldLabel = (id: string) => fields.find(f => f.id === id)?.label || id;
+
+  const openEditor = (template?: OutputTemplateData) => {
+    const base = template || EMPTY_TEMPLATE;
+    setEditing({ ...base, columns: base.columns.map(c => ({ ...c })) });
+    setDivisionsInput((base.divisions || []).join(", "));
+  };
+
+  /* ---------------- COLUMN EDITING ---------------- */
+  const updateColumn = (index: number, patch: Partial<OutputTemplateColumn>) => {
+    if (!editing) return;
+    setEditing({
+      ...editing,
+      columns: editing.columns.map((c, i) => (i === index ? { ...c, ...patch } : c))
+    });
+  };
+
+  const moveColumn = (index: number, delta: number) => {
+    if (!editing) return;
+    const target = index + delta;
+    if (target < 0 || target >= editing.columns.length) return;
+
+    const columns = [...editing.columns];
+    [columns[index], columns[target]] = [columns[target], columns[index]];
+    setEditing({ ...editing, columns });
+  };
+
+  const addColumn = () => {
+    if (!editing) return;
+    setEditing({ ...editing, columns: [...editing.columns, { header: "", field: "SAPCODE" }] });
+  };
+
+  const removeColumn = (index: number) => {
+    if (!editing) return;
+    setEditing({ ...editing, columns: editing.columns.filter((_, i) => i !== index) });
+  };
+
+  const handleFieldChange = (index: number, field: string) => {
+    const column = editing?.columns[index];
+    // Pre-fill the header from the field the first time it is picked
+    const header = column?.header?.trim() ? column.header : field.replace(/^=/, "");
+    updateColumn(index, field === FIXED_VALUE ? { field, constant: "" } : { field, header, constant: undefined });
+  };
+
+  /* ---------------- SAVE / DELETE ---------------- */
+  const handleSave = async () => {
+    if (!editing) return;
+
+    if (!editing.name.trim()) {
+      toast.error("Template name is required");
+      return;
+    }
+    if (editing.columns.length === 0 || editing.columns.some(c => !c.header.trim())) {
+      toast.error("Every column needs a header");
+      return;
+    }
+    const headers = editing.columns.map(c => c.header.trim().toUpperCase());
+    if (new Set(headers).size !== headers.length) {
+      toast.error("Column headers must be unique");
+      return;
+    }
+
+    const payload: OutputTemplateData = {
+      ...editing,
+      name: editing.name.trim(),
+      divisions: divisionsInput.split(",").map(d => d.trim().toUpperCase()).filter(Boolean),
+      columns: editing.columns.map(c => ({ ...c, header: c.header.trim() }))
+    };
+
+    try {
+      setSaving(true);
+      if (editing._id) {
+        await masterDataApi.updateOutputTemplate(editing._id, payload);
+      } else {
+        await masterDataApi.createOutputTemplate(payload);
+      }
+      toast.success("Output template saved");
+      setEditing(null);
+      loadTemplates();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Save failed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id?: string) => {
+    if (!id || !confirm("Delete this output template? Orders converted with it keep their columns.")) return;
+
+    try {
+      await masterDataApi.deleteOutputTemplate(id);
+      toast.success("Output template deleted");
+      loadTemplates();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Delete failed");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[30vh] space-y-4">
+        <RefreshCw className="w-8 h-8 animate-spin text-primary-600" />
+        <p className="text-sm text-neutral-500">Loading output templates...</p>
+      </div>
+    );
+  }
+
+  const sourceFields = fields.filter(f => !f.computed);
+  const computedFields = fields.filter(f => f.computed);
+
+  return (
+    <Card>
+      <div className="flex justify-between items-center mb-3">
+        <div>
+          <h3 className="text-lg font-semibold">Output Templates ({templates.length})</h3>
+          <p className="text-xs text-neutral-500">
+            Column order and headers of the converted file. The default applies when none is picked on the mapping page.
+          </p>
+        </div>
+        <Button size="sm" onClick={() => openEditor()} className="flex items-center gap-1">
+          <Plus className="w-4 h-4" /> New Template
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-neutral-100">
+            <tr className="border-b">
+              <th className="text-left p-2">Name</th>
+              <th className="text-left p-2">Divisions</th>
+              <th className="text-left p-2">Columns</th>
+              <th className="text-left p-2">Last Updated</th>
+              <th className="text-right p-2">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {templates.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="text-center p-8 text-neutral-500">
+                  No output templates yet – converted files use the built-in columns
+                </td>
+              </tr>
+            ) : (
+              templates.map(t => (
+                <tr key={t._id} className="border-b hover:bg-neutral-50">
+                  <td className="p-2">
+                    <span className="font-medium">{t.name}</span>
+                    {t.isDefault && <Badge variant="success" className="ml-2 text-xs">Default</Badge>}
+                  </td>
+                  <td className="p-2 text-xs">{t.divisions?.length ? t.divisions.join(", ") : "-"}</td>
+                  <td className="p-2 text-xs text-neutral-600 max-w-md truncate" title={t.columns.map(c => c.header).join(" | ")}>
+                    {t.columns.map(c => c.header).join(" | ")}
+                  </td>
+                  <td className="p-2 text-xs text-neutral-500">
+                    {t.updatedAt ? new Date(t.updatedAt).toLocaleDateString() : "-"}
+                  </td>
+                  <td className="p-2 text-right">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => openEditor(t)}
+                        className="text-green-600 hover:text-green-700"
+                        title="Edit template"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(t._id)}
+                        className="text-red-600 hover:text-red-700"
+                        title="Delete template"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <CustomModal
+        isOpen={!!editing}
+        onClose={() => setEditing(null)}
+        title={editing?._id ? "Edit Output Template" : "New Output Template"}
+        size="lg"
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} isLoading={saving}>
+              {editing?._id ? "Update" : "Create"}
+            </Button>
+          </>
+        }
+      >
+        {editing && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium mb-1 block">Name</label>
+                <Input
+                  value={editing.name}
+                  onChange={e => setEditing({ ...editing, name: e.target.value })}
+                  placeholder="e.g. Cardio division ERP"
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-1 block">Divisions (optional)</label>
+                <Input
+                  value={divisionsInput}
+                  onChange={e => setDivisionsInput(e.target.value)}
+                  placeholder="Comma separated, used for division reports"
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={editing.isDefault}
+                onChange={e => setEditing({ ...editing, isDefault: e.target.checked })}
+              />
+              Use as default template
+            </label>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm font-medium">Columns</label>
+                <Button size="sm" variant="secondary" onClick={addColumn} className="flex items-center gap-1">
+                  <Plus className="w-3 h-3" /> Add Column
+                </Button>
+              </div>
+
+              <div className="space-y-2 max-h-[45vh] overflow-y-auto pr-1">
+                {editing.columns.map((col, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <span className="w-6 text-xs text-neutral-400 text-right">{i + 1}</span>
+                    <Input
+                      value={col.header}
+                      onChange={e => updateColumn(i, { header: e.target.value })}
+                      placeholder="Header"
+                      className="flex-1"
+                    />
+                    <select
+                      className="flex-1 border rounded-md px-2 py-2 text-sm bg-white"
+                      value={col.field}
+                      onChange={e => handleFieldChange(i, e.target.value)}
+                      title={fieldLabel(col.field)}
+                    >
+                      <optgroup label="Order fields">
+                        {sourceFields.map(f => (
+                          <option key={f.id} value={f.id}>{f.label}</option>
+                        ))}
+                      </optgroup>
+                      <optgroup label="Computed">
+                        {computedFields.map(f => (
+                          <option key={f.id} value={f.id}>{f.label}</option>
+                        ))}
+                      </optgroup>
+                      <option value={FIXED_VALUE}>Fixed value…</option>
+                    </select>
+                    {col.field === FIXED_VALUE && (
+                      <Input
+                        value={col.constant || ""}
+                        onChange={e => updateColumn(i, { constant: e.target.value })}
+                        placeholder="Value"
+                        className="w-28"
+                      />
+                    )}
+                    <button
+                      onClick={() => moveColumn(i, -1)}
+                      disabled={i === 0}
+                      className="p-1 text-neutral-500 hover:text-neutral-800 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveColumn(i, 1)}
+                      disabled={i === editing.columns.length - 1}
+                      className="p-1 text-neutral-500 hover:text-neutral-800 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => removeColumn(i)}
+                      className="p-1 text-red-600 hover:text-red-700"
+                      title="Remove column"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </CustomModal>
+    </Card>
+  );
+}
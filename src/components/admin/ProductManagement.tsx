@@ -18,6 +18,7 @@ interface Product {
   variant?: string;
   division?: string;
   boxPack?: number;
+  rate?: number;
 }
 
 
@@ -44,6 +45,7 @@ export function ProductManagement({ onDataChange }: ProductManagementProps) {
     productName: "",
     division: "",
     boxPack: "",
+    rate: "",
   });
 
   const loadProducts = async () => {
@@ -91,7 +93,7 @@ export function ProductManagement({ onDataChange }: ProductManagementProps) {
   const handleCreate = () => {
     setEditingProduct(null);
     setViewMode(false);
-    setFormData({ productCode: "", productName: "", division: "", boxPack: "" });
+    setFormData({ productCode: "", productName: "", division: "", boxPack: "", rate: "" });
     setIsModalOpen(true);
   };
 
@@ -103,6 +105,7 @@ export function ProductManagement({ onDataChange }: ProductManagementProps) {
       productName: product.productName,
       division: product.division || "",
       boxPack: product.boxPack ? product.boxPack.toString() : "",
+      rate: product.rate ? product.rate.toString() : "",
     });
 
     setIsModalOpen(true);
@@ -116,6 +119,7 @@ export function ProductManagement({ onDataChange }: ProductManagementProps) {
       productName: product.productName,
       division: product.division || "",
       boxPack: product.boxPack ? product.boxPack.toString() : "",
+      rate: product.rate ? product.rate.toString() : "",
     });
     setIsModalOpen(true);
   };
@@ -131,6 +135,7 @@ export function ProductManagement({ onDataChange }: ProductManagementProps) {
         productName: formData.productName,
         division: formData.division,
         boxPack: formData.boxPack ? Number(formData.boxPack) : 0,
+        rate: formData.rate ? Number(formData.rate) : 0,
         productCode: formData.productCode // Include productCode for creation
       };
 
@@ -376,6 +381,23 @@ export function ProductManagement({ onDataChange }: ProductManagementProps) {
               disabled={viewMode}
             />
           </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1 text-neutral-700">
+              Rate
+            </label>
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              value={formData.rate}
+              onChange={(e) =>
+                setFormData({ ...formData, rate: e.target.value })
+              }
+              placeholder="Price per unit, used to value free goods"
+              disabled={viewMode}
+            />
+          </div>
         </div>
       </CustomModal>
     </Card>
@@ -10,6 +10,7 @@ import { Card } from "../Card";
 import { Input } from "../Input";
 import { Trash2, Edit2, Plus, Eye, RefreshCw } from "lucide-react";
 import { CustomModal } from "../Modal";
+import { STACKING_POLICIES, StackingPolicy, toDayKey } from "../../utils/schemeEngine";
 
 interface Scheme {
   _id: string;
@@ -20,8 +21,54 @@ interface Scheme {
   freeQty: number;
   schemePercent: number;
   isActive?: boolean;
+  // Validity window + targeting (empty = applies to everyone, forever)
+  startDate?: string | null;
+  endDate?: string | null;
+  customerCodes?: string[];
+  customerType?: string;
+  states?: string[];
+  stackingPolicy?: StackingPolicy;
 }
 
+const EMPTY_FORM: Partial<Scheme> = {
+  productCode: "",
+  productName: "",
+  division: "",
+  minQty: 0,
+  freeQty: 0,
+  schemePercent: 0,
+  isActive: true,
+  startDate: "",
+  endDate: "",
+  customerCodes: [],
+  customerType: "",
+  states: [],
+  stackingPolicy: "best-of"
+};
+
+/* ---------------- HELPERS ---------------- */
+const toDateInput = (value?: string | null) => (value ? String(value).slice(0, 10) : "");
+
+const parseList = (value: string) =>
+  value.split(",").map(v => v.trim()).filter(Boolean);
+
+const getValidityStatus = (s: Scheme): "active" | "upcoming" | "expired" | "inactive" => {
+  if (s.isActive === false) return "inactive";
+  // Local day, as the scheme engine judges it
+  const today = toDayKey(new Date());
+  if (s.startDate && toDateInput(s.startDate) > today) return "upcoming";
+  if (s.endDate && toDateInput(s.endDate) < today) return "expired";
+  return "active";
+};
+
+const formatTargeting = (s: Scheme) => {
+  const parts: string[] = [];
+  if (s.customerCodes?.length) parts.push(`${s.customerCodes.length} customer(s)`);
+  if (s.customerType) parts.push(s.customerType);
+  if (s.states?.length) parts.push(s.states.join(", "));
+  return parts.length > 0 ? parts.join(" • ") : "All customers";
+};
+
 interface SchemeTableProps {
   refreshTrigger?: number;
 }
@@ -38,15 +85,16 @@ export function SchemeTable({ refreshTrigger }: SchemeTableProps) {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [viewMode, setViewMode] = useState(false);
   const [editingScheme, setEditingScheme] = useState<Scheme | null>(null);
-  const [formData, setFormData] = useState<Partial<Scheme>>({
-    productCode: "",
-    productName: "",
-    division: "",
-    minQty: 0,
-    freeQty: 0,
-    schemePercent: 0,
-    isActive: true
-  });
+  const [formData, setFormData] = useState<Partial<Scheme>>(EMPTY_FORM);
+  // Comma separated inputs are kept as raw text while typing
+  const [customerCodesText, setCustomerCodesText] = useState("");
+  const [statesText, setStatesText] = useState("");
+
+  const fillForm = (scheme: Partial<Scheme>) => {
+    setFormData({ ...EMPTY_FORM, ...scheme });
+    setCustomerCodesText((scheme.customerCodes || []).join(", "));
+    setStatesText((scheme.states || []).join(", "));
+  };
 
   const loadSchemes = async () => {
     try {
@@ -83,29 +131,21 @@ export function SchemeTable({ refreshTrigger }: SchemeTableProps) {
   const openCreate = () => {
     setEditingScheme(null);
     setViewMode(false);
-    setFormData({
-      productCode: "",
-      productName: "",
-      division: "",
-      minQty: 0,
-      freeQty: 0,
-      schemePercent: 0,
-      isActive: true
-    });
+    fillForm(EMPTY_FORM);
     setIsModalOpen(true);
   };
 
   const openView = (scheme: Scheme) => {
     setEditingScheme(scheme);
     setViewMode(true);
-    setFormData(scheme);
+    fillForm(scheme);
     setIsModalOpen(true);
   };
 
   const openEdit = (scheme: Scheme) => {
     setEditingScheme(scheme);
     setViewMode(false);
-    setFormData(scheme);
+    fillForm(scheme);
     setIsModalOpen(true);
   };
 
@@ -116,11 +156,25 @@ export function SchemeTable({ refreshTrigger }: SchemeTableProps) {
         return;
       }
 
+      if (formData.startDate && formData.endDate && toDateInput(formData.endDate) < toDateInput(formData.startDate)) {
+        toast.error("End date cannot be before start date");
+        return;
+      }
+
+      const payload = {
+        ...formData,
+        startDate: formData.startDate || null,
+        endDate: formData.endDate || null,
+        customerCodes: parseList(customerCodesText),
+        customerType: formData.customerType?.trim() || "",
+        states: parseList(statesText)
+      };
+
       if (editingScheme) {
-        await masterDataApi.updateScheme(editingScheme._id, formData);
+        await masterDataApi.updateScheme(editingScheme._id, payload);
         toast.success("Scheme updated");
       } else {
-        await masterDataApi.createScheme(formData);
+        await masterDataApi.createScheme(payload);
         toast.success("Scheme created");
       }
 
@@ -235,6 +289,9 @@ export function SchemeTable({ refreshTrigger }: SchemeTableProps) {
               <th className="text-center p-2">Min Qty</th>
               <th className="text-center p-2">Free Qty</th>
               <th className="text-center p-2">Scheme %</th>
+              <th className="text-left p-2">Validity</th>
+              <th className="text-left p-2">Applies To</th>
+              <th className="text-center p-2">Stacking</th>
               <th className="text-center p-2">Active</th>
               <th className="text-right p-2">Actions</th>
             </tr>
@@ -242,7 +299,7 @@ export function SchemeTable({ refreshTrigger }: SchemeTableProps) {
           <tbody>
             {schemes.length === 0 ? (
               <tr>
-                <td colSpan={8} className="text-center p-8 text-neutral-500">
+                <td colSpan={11} className="text-center p-8 text-neutral-500">
                   {search ? "No schemes found matching your search" : "No schemes configured yet"}
                 </td>
               </tr>
@@ -261,6 +318,25 @@ export function SchemeTable({ refreshTrigger }: SchemeTableProps) {
                   <td className="p-2 text-center">
                     {s.schemePercent ? `${s.schemePercent}%` : "-"}
                   </td>
+                  <td className="p-2 text-xs whitespace-nowrap">
+                    {s.startDate || s.endDate ? (
+                      <span>
+                        {toDateInput(s.startDate) || "…"} → {toDateInput(s.endDate) || "…"}
+                      </span>
+                    ) : (
+                      <span className="text-neutral-400">Always</span>
+                    )}
+                    {getValidityStatus(s) === "expired" && (
+                      <span className="ml-1 px-1.5 py-0.5 bg-red-50 text-red-700 rounded">Expired</span>
+                    )}
+                    {getValidityStatus(s) === "upcoming" && (
+                      <span className="ml-1 px-1.5 py-0.5 bg-amber-50 text-amber-700 rounded">Upcoming</span>
+                    )}
+                  </td>
+                  <td className="p-2 text-xs text-neutral-600">{formatTargeting(s)}</td>
+                  <td className="p-2 text-center text-xs">
+                    {STACKING_POLICIES.find(p => p.value === s.stackingPolicy)?.label || "Best of"}
+                  </td>
                   <td className="p-2 text-center">
                     {s.isActive ? (
                       <span className="text-green-600">✓</span>
@@ -415,6 +491,77 @@ export function SchemeTable({ refreshTrigger }: SchemeTableProps) {
             </div>
           </div>
 
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-sm font-medium mb-1 block">Valid From</label>
+              <Input
+                type="date"
+                value={toDateInput(formData.startDate)}
+                onChange={e => setFormData({ ...formData, startDate: e.target.value })}
+                disabled={viewMode}
+              />
+            </div>
+
+            <div>
+              <label className="text-sm font-medium mb-1 block">Valid To</label>
+              <Input
+                type="date"
+                value={toDateInput(formData.endDate)}
+                onChange={e => setFormData({ ...formData, endDate: e.target.value })}
+                disabled={viewMode}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-1 block">Customer Codes</label>
+            <Input
+              value={customerCodesText}
+              onChange={e => setCustomerCodesText(e.target.value)}
+              disabled={viewMode}
+              placeholder="Comma separated, leave empty for all customers"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-sm font-medium mb-1 block">Customer Type</label>
+              <Input
+                value={formData.customerType || ""}
+                onChange={e => setFormData({ ...formData, customerType: e.target.value })}
+                disabled={viewMode}
+                placeholder="e.g., Stockist"
+              />
+            </div>
+
+            <div>
+              <label className="text-sm font-medium mb-1 block">States</label>
+              <Input
+                value={statesText}
+                onChange={e => setStatesText(e.target.value)}
+                disabled={viewMode}
+                placeholder="e.g., Kerala, Tamil Nadu"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-1 block">Stacking Policy</label>
+            <select
+              value={formData.stackingPolicy || "best-of"}
+              onChange={e => setFormData({ ...formData, stackingPolicy: e.target.value as StackingPolicy })}
+              disabled={viewMode}
+              className="w-full px-3 py-2 border border-neutral-300 rounded-lg bg-white disabled:bg-neutral-100"
+            >
+              {STACKING_POLICIES.map(p => (
+                <option key={p.value} value={p.value}>{p.label}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-neutral-500">
+              How this scheme combines with other active schemes on the same product
+            </p>
+          </div>
+
           {!viewMode && (
             <div className="flex items-center gap-2">
               <input
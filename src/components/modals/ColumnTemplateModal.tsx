@@ -0,0 +1,333 @@
+/**
+ * COLUMN TEMPLATE MODAL
+ * Define a customer's spreadsheet layout from a raw preview of the file:
+ * header row, which column is which field, and sheets to skip.
+ */
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { RefreshCw, Search } from "lucide-react";
+import { CustomModal } from "../Modal";
+import { Button } from "../Button";
+import api from "../../services/api";
+import {
+  ColumnTemplate,
+  SheetPreview,
+  TemplateField,
+  getColumnTemplate,
+  previewFileLayout,
+  saveColumnTemplate
+} from "../../services/orderApi";
+
+const FIELD_OPTIONS: { value: TemplateField; label: string; required?: boolean }[] = [
+  { value: "ITEMDESC", label: "Item Description", required: true },
+  { value: "ORDERQTY", label: "Order Qty", required: true },
+  { value: "PACK", label: "Pack" },
+  { value: "FREEQTY", label: "Free Qty" }
+];
+
+// 0 → A, 25 → Z, 26 → AA
+const columnLetter = (index: number): string => {
+  let s = "";
+  let n = index + 1;
+  while (n > 0) {
+    const r = (n - 1) % 26;
+    s = String.fromCharCode(65 + r) + s;
+    n = Math.floor((n - 1) / 26);
+  }
+  return s;
+};
+
+interface ColumnTemplateModalProps {
+  isOpen: boolean;
+  file: File | null;
+  onClose: () => void;
+  onSaved: (template: ColumnTemplate) => void;
+}
+
+export function ColumnTemplateModal({ isOpen, file, onClose, onSaved }: ColumnTemplateModalProps) {
+  const [sheets, setSheets] = useState<SheetPreview[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [activeSheet, setActiveSheet] = useState(0);
+
+  const [headerRowIndex, setHeaderRowIndex] = useState(0);
+  const [columns, setColumns] = useState<Partial<Record<TemplateField, number>>>({});
+  const [skipSheets, setSkipSheets] = useState<string[]>([]);
+
+  const [customer, setCustomer] = useState<{ customerCode: string; customerName: string } | null>(null);
+  const [customerInput, setCustomerInput] = useState("");
+  const [customerResults, setCustomerResults] = useState<any[]>([]);
+
+  /* ---------------- LOAD PREVIEW ---------------- */
+  useEffect(() => {
+    if (!isOpen || !file) return;
+
+    setLoading(true);
+    setColumns({});
+    setSkipSheets([]);
+    setActiveSheet(0);
+
+    previewFileLayout(file)
+      .then(data => {
+        setSheets(data);
+        setHeaderRowIndex(data[0]?.detectedHeaderRowIndex || 0);
+      })
+      .catch(err => {
+        console.error("Layout preview failed", err);
+        toast.error(err.response?.data?.message || "Could not read this file");
+        setSheets([]);
+      })
+      .finally(() => setLoading(false));
+  }, [isOpen, file]);
+
+  /* ---------------- CUSTOMER SEARCH (DEBOUNCED) ---------------- */
+  useEffect(() => {
+    if (!customerInput || customerInput.length < 2 || customer?.customerName === customerInput) {
+      setCustomerResults([]);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      api
+        .get("/admin/customers", { params: { search: customerInput, limit: 20 } })
+        .then(res => setCustomerResults(res.data?.data || []))
+        .catch(() => setCustomerResults([]));
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [customerInput]);
+
+  // Existing template for the customer → prefill so it can be corrected
+  const selectCustomer = async (c: any) => {
+    setCustomer({ customerCode: c.customerCode, customerName: c.customerName });
+    setCustomerInput(c.customerName);
+    setCustomerResults([]);
+
+    try {
+      const existing = await getColumnTemplate(c.customerCode);
+      if (existing) {
+        setHeaderRowIndex(existing.headerRowIndex);
+        setColumns(existing.columns || {});
+        setSkipSheets(existing.skipSheets || []);
+        toast.info("Loaded the saved layout for this customer");
+      }
+    } catch {
+      // No template yet
+    }
+  };
+
+  const assignColumn = (colIndex: number, field: TemplateField | "") => {
+    setColumns(prev => {
+      const next = { ...prev };
+      // A column holds one field, a field lives in one column
+      (Object.keys(next) as TemplateField[]).forEach(f => {
+        if (next[f] === colIndex) delete next[f];
+      });
+      if (field) next[field] = colIndex;
+      return next;
+    });
+  };
+
+  const fieldForColumn = (colIndex: number): TemplateField | "" =>
+    (Object.keys(columns) as TemplateField[]).find(f => columns[f] === colIndex) || "";
+
+  const toggleSkipSheet = (name: string) => {
+    const key = name.toLowerCase();
+    setSkipSheets(prev => (prev.includes(key) ? prev.filter(s => s !== key) : [...prev, key]));
+  };
+
+  const handleSave = async () => {
+    if (!customer) {
+      toast.error("Select the customer this layout belongs to");
+      return;
+    }
+
+    const missing = FIELD_OPTIONS.filter(f => f.required && columns[f.value] === undefined);
+    if (missing.length > 0) {
+      toast.error(`Pick a column for: ${missing.map(f => f.label).join(", ")}`);
+      return;
+    }
+
+    const template: ColumnTemplate = {
+      customerCode: customer.customerCode,
+      customerName: customer.customerName,
+      name: file?.name,
+      headerRowIndex,
+      columns,
+      skipSheets
+    };
+
+    try {
+      setSaving(true);
+      await saveColumnTemplate(template);
+      toast.success(`Layout saved for ${customer.customerName}`);
+      onSaved(template);
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || err.response?.data?.error || "Failed to save layout");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const sheet = sheets[activeSheet];
+  const colCount = sheet ? Math.max(0, ...sheet.rows.map(r => r.length)) : 0;
+
+  return (
+    <CustomModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Define Column Layout${file ? ` – ${file.name}` : ""}`}
+      size="full"
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} isLoading={saving} disabled={loading || sheets.length === 0}>
+            Save Layout
+          </Button>
+        </>
+      }
+    >
+      {loading ? (
+        <div className="flex flex-col items-center justify-center py-16 gap-3">
+          <RefreshCw className="w-8 h-8 animate-spin text-primary-600" />
+          <p className="text-sm text-neutral-500">Reading file...</p>
+        </div>
+      ) : sheets.length === 0 ? (
+        <p className="text-center py-12 text-neutral-500">No sheets found in this file.</p>
+      ) : (
+        <div className="space-y-4">
+          {/* CUSTOMER */}
+          <div className="relative max-w-md">
+            <label className="text-sm font-medium mb-1 block">Customer</label>
+            <div className="relative">
+              <Search className="absolute left-2 top-2.5 w-4 h-4 text-neutral-400" />
+              <input
+                type="text"
+                value={customerInput}
+                onChange={e => {
+                  setCustomerInput(e.target.value);
+                  setCustomer(null);
+                }}
+                placeholder="Search customer..."
+                className="w-full border rounded-md pl-8 pr-3 py-2 text-sm focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            {customerResults.length > 0 && (
+              <div className="absolute top-full left-0 w-full mt-1 bg-white border rounded shadow-xl z-50 max-h-48 overflow-y-auto">
+                {customerResults.map(c => (
+                  <button
+                    key={c.customerCode}
+                    onClick={() => selectCustomer(c)}
+                    className="w-full text-left px-3 py-2 text-sm hover:bg-slate-50 border-b last:border-0"
+                  >
+                    <div className="font-medium">{c.customerName}</div>
+                    <div className="text-xs text-slate-400">{c.customerCode} • {c.city || c.state}</div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* SHEETS */}
+          <div className="flex flex-wrap gap-2 items-center">
+            {sheets.map((s, idx) => {
+              const skipped = skipSheets.includes(s.name.toLowerCase());
+              return (
+                <div
+                  key={s.name}
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded-md border text-sm ${
+                    idx === activeSheet ? "border-primary-500 bg-primary-50" : "border-neutral-200"
+                  } ${skipped ? "opacity-60" : ""}`}
+                >
+                  <button onClick={() => setActiveSheet(idx)} className={`font-medium ${skipped ? "line-through" : ""}`}>
+                    {s.name}
+                  </button>
+                  <label className="flex items-center gap-1 text-xs text-neutral-500">
+                    <input type="checkbox" checked={skipped} onChange={() => toggleSkipSheet(s.name)} />
+                    Skip
+                  </label>
+                </div>
+              );
+            })}
+          </div>
+
+          <p className="text-xs text-neutral-500">
+            Click a row number to mark it as the header row. Choose the field for each column from the dropdowns.
+            Rows below the header without an item description are ignored.
+          </p>
+
+          {/* GRID */}
+          <div className="overflow-auto border rounded-md max-h-[55vh]">
+            <table className="text-xs border-collapse min-w-full">
+              <thead className="sticky top-0 bg-neutral-100 z-10">
+                <tr>
+                  <th className="px-2 py-1 border-r border-b w-10"></th>
+                  {Array.from({ length: colCount }, (_, c) => (
+                    <th key={c} className="px-1 py-1 border-r border-b min-w-[110px] text-left font-normal">
+                      <div className="text-[10px] text-neutral-400 font-semibold mb-0.5">{columnLetter(c)}</div>
+                      <select
+                        value={fieldForColumn(c)}
+                        onChange={e => assignColumn(c, e.target.value as TemplateField | "")}
+                        className={`w-full border rounded px-1 py-0.5 text-xs ${
+                          fieldForColumn(c) ? "bg-blue-50 border-blue-300 text-blue-800 font-semibold" : ""
+                        }`}
+                      >
+                        <option value="">—</option>
+                        {FIELD_OPTIONS.map(f => (
+                          <option key={f.value} value={f.value}>
+                            {f.label}
+                          </option>
+                        ))}
+                      </select>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sheet.rows.map((row, r) => {
+                  const isHeader = r === headerRowIndex;
+                  const isAbove = r < headerRowIndex;
+                  return (
+                    <tr
+                      key={r}
+                      className={isHeader ? "bg-amber-100 font-semibold" : isAbove ? "text-neutral-300" : "hover:bg-neutral-50"}
+                    >
+                      <td className="px-2 py-1 border-r border-b text-center">
+                        <button
+                          onClick={() => setHeaderRowIndex(r)}
+                          className={`w-full ${isHeader ? "text-amber-800" : "text-neutral-400 hover:text-primary-600"}`}
+                          title="Use as header row"
+                        >
+                          {r + 1}
+                        </button>
+                      </td>
+                      {Array.from({ length: colCount }, (_, c) => (
+                        <td
+                          key={c}
+                          className={`px-2 py-1 border-r border-b whitespace-nowrap max-w-[220px] truncate ${
+                            fieldForColumn(c) && !isAbove && !isHeader ? "bg-blue-50/50" : ""
+                          }`}
+                          title={row[c] || ""}
+                        >
+                          {row[c] || ""}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {sheet.totalRows > sheet.rows.length && (
+            <p className="text-[11px] text-neutral-400">
+              Showing first {sheet.rows.length} of {sheet.totalRows} rows.
+            </p>
+          )}
+        </div>
+      )}
+    </CustomModal>
+  );
+}
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { AlertTriangle, ExternalLink } from "lucide-react";
+import { CustomModal } from "../Modal";
+import { Button } from "../Button";
+import { DuplicateMatch } from "../../services/orderApi";
+
+interface DuplicateOrderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  duplicates: DuplicateMatch[];
+  onConfirm: (reason: string) => void;
+}
+
+export const describeDuplicate = (d: DuplicateMatch) =>
+  d.matchType === "FILE_HASH"
+    ? "identical file"
+    : `${d.matchedLines}/${d.totalLines} lines match (${Math.round(d.score * 100)}%)`;
+
+/**
+ * "Convert anyway" confirmation for an upload flagged as a duplicate.
+ * The reason is stored with the order.
+ */
+export function DuplicateOrderModal({ isOpen, onClose, duplicates, onConfirm }: DuplicateOrderModalProps) {
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (isOpen) setReason("");
+  }, [isOpen]);
+
+  return (
+    <CustomModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Possible Duplicate Order"
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={() => onConfirm(reason.trim())} disabled={!reason.trim()}>
+            Convert Anyway
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-4">
+        <div className="flex items-start gap-2 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          <span>This order matches orders converted recently. Converting it again may ship the same goods twice.</span>
+        </div>
+
+        <ul className="space-y-2 text-sm">
+          {duplicates.map((d) => (
+            <li key={d.uploadId} className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{d.orderRef || d.fileName}</p>
+                <p className="text-xs text-neutral-500">
+                  {describeDuplicate(d)} · {new Date(d.createdAt).toLocaleString()}
+                </p>
+              </div>
+              <Link
+                to={`/result/${d.uploadId}`}
+                target="_blank"
+                className="text-blue-600 hover:underline inline-flex items-center gap-1 shrink-0"
+              >
+                Open <ExternalLink className="w-3 h-3" />
+              </Link>
+            </li>
+          ))}
+        </ul>
+
+        <div>
+          <label className="block text-sm font-medium mb-1 text-neutral-700">
+            Why convert it anyway? <span className="text-red-500">*</span>
+          </label>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={2}
+            maxLength={500}
+            placeholder="e.g. Customer confirmed this is a separate repeat order"
+            className="w-full text-sm border border-neutral-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="text-[11px] text-neutral-500 mt-1">Saved with the order along with your name.</p>
+        </div>
+      </div>
+    </CustomModal>
+  );
+}
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from "react";
+import { RefreshCw } from "lucide-react";
+import { CustomModal } from "../Modal";
+import { getSourcePageImage } from "../../services/orderApi";
+
+interface OcrBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OcrRowInfo {
+  page: number;
+  bbox?: OcrBox;
+  lineConfidence?: number;
+  confidence?: { ITEMDESC?: number; ORDERQTY?: number };
+  boxes?: { ITEMDESC?: OcrBox | null; ORDERQTY?: OcrBox | null };
+}
+
+interface OcrRegionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  uploadId?: string;
+  ocr?: OcrRowInfo | null;
+  rawText?: string;
+}
+
+const confidenceClass = (c?: number) =>
+  c === undefined ? "text-neutral-500" : c >= 0.8 ? "text-green-700" : c >= 0.6 ? "text-amber-700" : "text-red-700";
+
+/**
+ * Shows the scanned page an OCR row was read from,
+ * with the line and its item / qty fields outlined.
+ */
+export function OcrRegionModal({ isOpen, onClose, uploadId, ocr, rawText }: OcrRegionModalProps) {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [natural, setNatural] = useState<{ w: number; h: number } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !uploadId || !ocr?.page) return;
+
+    let url: string | null = null;
+    setLoading(true);
+    setFailed(false);
+    setNatural(null);
+
+    getSourcePageImage(uploadId, ocr.page)
+      .then(u => {
+        url = u;
+        setImageUrl(u);
+      })
+      .catch(err => {
+        console.error("Source page load failed", err);
+        setFailed(true);
+      })
+      .finally(() => setLoading(false));
+
+    return () => {
+      if (url) window.URL.revokeObjectURL(url);
+      setImageUrl(null);
+    };
+  }, [isOpen, uploadId, ocr?.page]);
+
+  // Bounding boxes are in page pixels → position as % of the natural image size
+  const boxStyle = (b?: OcrBox | null): React.CSSProperties | undefined => {
+    if (!b || !natural) return undefined;
+    return {
+      left: `${(b.x0 / natural.w) * 100}%`,
+      top: `${(b.y0 / natural.h) * 100}%`,
+      width: `${((b.x1 - b.x0) / natural.w) * 100}%`,
+      height: `${((b.y1 - b.y0) / natural.h) * 100}%`
+    };
+  };
+
+  return (
+    <CustomModal isOpen={isOpen} onClose={onClose} title={`Source – Page ${ocr?.page ?? ""}`} size="xl">
+      <div className="space-y-3">
+        <div className="flex flex-wrap gap-4 text-xs">
+          <span>
+            Read as: <span className="font-mono bg-neutral-100 px-1 rounded">{rawText || "-"}</span>
+          </span>
+          <span>
+            Item confidence:{" "}
+            <b className={confidenceClass(ocr?.confidence?.ITEMDESC)}>
+              {ocr?.confidence?.ITEMDESC !== undefined ? `${Math.round(ocr.confidence.ITEMDESC * 100)}%` : "-"}
+            </b>
+          </span>
+          <span>
+            Qty confidence:{" "}
+            <b className={confidenceClass(ocr?.confidence?.ORDERQTY)}>
+              {ocr?.confidence?.ORDERQTY !== undefined ? `${Math.round(ocr.confidence.ORDERQTY * 100)}%` : "-"}
+            </b>
+          </span>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <RefreshCw className="w-8 h-8 animate-spin text-primary-600" />
+          </div>
+        ) : failed || !imageUrl ? (
+          <p className="text-center py-12 text-neutral-500">Source page is not available for this upload.</p>
+        ) : (
+          <div className="relative border rounded overflow-auto max-h-[70vh]">
+            <div className="relative inline-block">
+              <img
+                src={imageUrl}
+                alt={`Page ${ocr?.page}`}
+                className="block max-w-full"
+                onLoad={e => setNatural({ w: e.currentTarget.naturalWidth, h: e.currentTarget.naturalHeight })}
+              />
+              {ocr?.bbox && (
+                <div className="absolute border-2 border-amber-500 bg-amber-200/20" style={boxStyle(ocr.bbox)} />
+              )}
+              {ocr?.boxes?.ITEMDESC && (
+                <div className="absolute border-2 border-blue-500" style={boxStyle(ocr.boxes.ITEMDESC)} title="Item" />
+              )}
+              {ocr?.boxes?.ORDERQTY && (
+                <div className="absolute border-2 border-green-600" style={boxStyle(ocr.boxes.ORDERQTY)} title="Qty" />
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-4 text-[11px] text-neutral-500">
+          <span><span className="inline-block w-3 h-3 border-2 border-amber-500 align-middle mr-1" />Line</span>
+          <span><span className="inline-block w-3 h-3 border-2 border-blue-500 align-middle mr-1" />Item</span>
+          <span><span className="inline-block w-3 h-3 border-2 border-green-600 align-middle mr-1" />Qty</span>
+        </div>
+      </div>
+    </CustomModal>
+  );
+}
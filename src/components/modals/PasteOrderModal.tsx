@@ -0,0 +1,177 @@
+/**
+ * PASTE ORDER MODAL
+ * Turn an order pasted from WhatsApp, an email or an Excel selection
+ * into manual entry rows, matched against master products for review.
+ */
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { ClipboardPaste, RefreshCw } from "lucide-react";
+import { CustomModal } from "../Modal";
+import { Button } from "../Button";
+import { PastedOrderResult, parsePastedOrder } from "../../services/orderApi";
+import { MatchThresholds, getMatchConfidenceLevel } from "../../utils/matchConfidence";
+
+interface PasteOrderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  customerCode?: string;
+  thresholds: MatchThresholds;
+  onAdd: (rows: any[]) => void;
+}
+
+const PLACEHOLDER = `Paste the order here, one item per line, e.g.
+
+Dolo 650 - 10
+2) Pan 40  5 strips
+10 x Azithral 500
+(or cells copied from Excel: item ⇥ pack ⇥ qty)`;
+
+const LEVEL_STYLES: Record<string, string> = {
+  CONFIRMED: "bg-blue-100 text-blue-800",
+  HIGH: "bg-green-100 text-green-800",
+  REVIEW: "bg-orange-100 text-orange-800",
+  LOW: "bg-red-100 text-red-800",
+  UNMATCHED: "bg-amber-100 text-amber-800"
+};
+
+export function PasteOrderModal({ isOpen, onClose, customerCode, thresholds, onAdd }: PasteOrderModalProps) {
+  const [text, setText] = useState("");
+  const [parsing, setParsing] = useState(false);
+  const [result, setResult] = useState<PastedOrderResult | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setText("");
+      setResult(null);
+    }
+  }, [isOpen]);
+
+  const handleParse = async () => {
+    if (!text.trim()) {
+      toast.error("Paste some order lines first");
+      return;
+    }
+
+    setParsing(true);
+    try {
+      const res = await parsePastedOrder(text, customerCode);
+      setResult(res);
+      if (res.rows.length === 0) toast.error("No item / quantity lines found");
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || "Failed to read pasted order");
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const handleAdd = () => {
+    if (!result || result.rows.length === 0) return;
+    onAdd(result.rows);
+    toast.success(`Added ${result.rows.length} items from pasted order`);
+    onClose();
+  };
+
+  const footer = (
+    <div className="flex justify-end gap-2">
+      <Button variant="secondary" onClick={onClose}>
+        Cancel
+      </Button>
+      {result && result.rows.length > 0 ? (
+        <Button variant="primary" onClick={handleAdd}>
+          Add {result.rows.length} Items
+        </Button>
+      ) : (
+        <Button variant="primary" onClick={handleParse} isLoading={parsing}>
+          Read Lines
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <CustomModal isOpen={isOpen} onClose={onClose} title="Paste Order" size="xl" footer={footer}>
+      {!result ? (
+        <textarea
+          value={text}
+          onChange={e => setText(e.target.value)}
+          placeholder={PLACEHOLDER}
+          rows={14}
+          autoFocus
+          className="w-full font-mono text-sm border border-neutral-300 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-neutral-600">
+              <ClipboardPaste className="w-4 h-4 inline mr-1" />
+              {result.rows.length} items read
+              {result.rows.filter(r => r.matchedProduct).length > 0 &&
+                ` · ${result.rows.filter(r => r.matchedProduct).length} matched`}
+            </span>
+            <button onClick={() => setResult(null)} className="text-blue-600 hover:underline flex items-center gap-1">
+              <RefreshCw className="w-3 h-3" /> Edit text
+            </button>
+          </div>
+
+          <div className="border rounded-lg overflow-auto max-h-[50vh]">
+            <table className="w-full text-sm">
+              <thead className="bg-neutral-50 text-xs uppercase text-neutral-500 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left">Line</th>
+                  <th className="px-3 py-2 text-left">Item</th>
+                  <th className="px-3 py-2 text-center">Qty</th>
+                  <th className="px-3 py-2 text-left">Matched Product</th>
+                  <th className="px-3 py-2 text-center">Match</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-neutral-100">
+                {result.rows.map((row, i) => {
+                  const level = getMatchConfidenceLevel(row, thresholds);
+                  return (
+                    <tr key={i}>
+                      <td className="px-3 py-2 text-neutral-400">{row._line}</td>
+                      <td className="px-3 py-2">
+                        {row.ITEMDESC}
+                        {row.packHint && <span className="ml-1 text-xs text-neutral-400">({row.packHint})</span>}
+                      </td>
+                      <td className="px-3 py-2 text-center font-semibold">{row.ORDERQTY}</td>
+                      <td className="px-3 py-2">
+                        {row.matchedProduct ? (
+                          <>
+                            <div className="font-medium">{row.matchedProduct.productName}</div>
+                            <div className="text-[10px] text-neutral-500">#{row.matchedProduct.productCode}</div>
+                          </>
+                        ) : (
+                          <span className="text-neutral-400">Not matched – pick in table</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-center">
+                        <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${LEVEL_STYLES[level]}`}>
+                          {row.matchedProduct ? `${Math.round(Number(row.matchConfidence) * 100)}%` : "None"}
+                        </span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {result.skipped.length > 0 && (
+            <details className="text-xs text-neutral-500">
+              <summary className="cursor-pointer">{result.skipped.length} line(s) not read as items</summary>
+              <ul className="mt-1 space-y-0.5 font-mono">
+                {result.skipped.map(s => (
+                  <li key={s.line}>
+                    <span className="text-neutral-400 mr-2">{s.line}</span>
+                    {s.text}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+    </CustomModal>
+  );
+}
@@ -4,6 +4,7 @@ import { toast } from "sonner";
 import { Button } from "../Button";
 import { Badge } from "../Badge";
 import { Input } from "../Input";
+import { SchemeEngine } from "../../utils/schemeEngine";
 
 interface SchemeOption {
   minQty: number;
@@ -43,11 +44,13 @@ export function SchemeSelectionModal({
     setTotalQty(calculated || pack); // If no box qty, just use pack
   }, [boxQty, pack]);
 
-  // Calculate scaled free quantity
+  // Calculate scaled free quantity (shared engine keeps this in line with Mapping/Manual entry)
   const calculateScaledFree = (scheme: SchemeOption, qty: number): number => {
-    if (!scheme || qty < scheme.minQty) return 0;
-    const multiplier = Math.floor(qty / scheme.minQty);
-    return multiplier * scheme.freeQty;
+    if (!scheme) return 0;
+    return SchemeEngine.calculateForSlab(
+      { minQty: scheme.minQty, freeQty: scheme.freeQty, schemePercent: scheme.percent },
+      qty
+    );
   };
 
   const handleApply = () => {
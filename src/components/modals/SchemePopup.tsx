@@ -3,6 +3,7 @@ import { createPortal } from "react-dom";
 import { Button } from "../Button";
 import { Alert, AlertDescription } from "../ui/alert";
 import { X } from "lucide-react";
+import { SchemeDecision } from "../../utils/schemeEngine";
 
 interface SchemeSuggestion {
   rowIndex: number;
@@ -12,6 +13,7 @@ interface SchemeSuggestion {
   suggestedQty: number;
   freeQty: number;
   minQty: number;
+  decisions?: SchemeDecision[]; // Stacking resolution at the suggested qty
 }
 
 interface SchemePopupProps {
@@ -108,6 +110,21 @@ export function SchemePopup({
                       </div>
                     </div>
 
+                    {s.decisions && s.decisions.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {s.decisions.map((d, dIdx) => (
+                          <li key={dIdx} className="text-xs flex items-start gap-1">
+                            <span className={`px-1.5 rounded font-medium ${d.applied ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-500"}`}>
+                              {d.applied ? "Applied" : "Skipped"}
+                            </span>
+                            <span className="text-gray-700">
+                              {d.schemeName} <span className="text-gray-400">({d.policy})</span> – {d.reason}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
                     <Button 
                       size="sm" 
                       className="w-full mt-3 bg-blue-500 text-white"
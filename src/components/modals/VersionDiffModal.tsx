@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from "react";
+import { RefreshCw } from "lucide-react";
+import { CustomModal } from "../Modal";
+import { Badge } from "../Badge";
+import { getVersionDiff, RowDiff, RowSetDiff, VersionDiff } from "../../services/orderApi";
+
+interface VersionDiffModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  orderId: string;
+  from: number;
+  to: number;
+}
+
+const ROW_STYLES: Record<RowDiff["status"], string> = {
+  added: "bg-green-50",
+  removed: "bg-red-50 text-neutral-500 line-through",
+  changed: "",
+  unchanged: "text-neutral-500",
+};
+
+const cell = (v: any) => (v === null || v === undefined ? "" : String(v));
+
+function DiffTable({ diff, showUnchanged }: { diff: RowSetDiff; showUnchanged: boolean }) {
+  const rows = showUnchanged ? diff.rows : diff.rows.filter((r) => r.status !== "unchanged");
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-neutral-500 py-4">No differences</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto border rounded-lg max-h-[50vh]">
+      <table className="w-full text-xs">
+        <thead className="bg-neutral-50 sticky top-0">
+          <tr>
+            <th className="px-2 py-1.5 text-left font-medium text-neutral-600">Row</th>
+            {diff.headers.map((h) => (
+              <th key={h} className="px-2 py-1.5 text-left font-medium text-neutral-600 whitespace-nowrap">
+                {h}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {rows.map((r, i) => {
+            const row = r.after || r.before || {};
+            return (
+              <tr key={i} className={ROW_STYLES[r.status]}>
+                <td className="px-2 py-1.5 whitespace-nowrap">
+                  {r.status === "added" ? "+" : r.status === "removed" ? "−" : ""}
+                  {(r.toIndex ?? r.fromIndex ?? 0) + 1}
+                </td>
+                {diff.headers.map((h) => {
+                  const changed = r.changedFields.includes(h);
+                  return (
+                    <td key={h} className={`px-2 py-1.5 whitespace-nowrap ${changed ? "bg-yellow-50" : ""}`}>
+                      {changed ? (
+                        <>
+                          <span className="line-through text-red-600 mr-1">{cell(r.before?.[h])}</span>
+                          <span className="text-green-700 font-medium">{cell(r.after?.[h])}</span>
+                        </>
+                      ) : (
+                        cell(row[h])
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function DiffSummary({ diff }: { diff: RowSetDiff }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Badge variant="success">+{diff.summary.added} added</Badge>
+      <Badge variant="error">−{diff.summary.removed} removed</Badge>
+      <Badge variant="warning">{diff.summary.changed} changed</Badge>
+      <Badge variant="neutral">{diff.summary.unchanged} unchanged</Badge>
+    </div>
+  );
+}
+
+export function VersionDiffModal({ isOpen, onClose, orderId, from, to }: VersionDiffModalProps) {
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState<"converted" | "scheme">("converted");
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setLoading(true);
+    setError(null);
+    getVersionDiff(orderId, from, to)
+      .then(setDiff)
+      .catch((err) => setError(err.response?.data?.message || "Failed to compare versions"))
+      .finally(() => setLoading(false));
+  }, [isOpen, orderId, from, to]);
+
+  return (
+    <CustomModal isOpen={isOpen} onClose={onClose} title={`Compare v${from} → v${to}`} size="full">
+      {loading ? (
+        <div className="flex justify-center py-10">
+          <RefreshCw className="w-6 h-6 animate-spin text-neutral-400" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : diff ? (
+        <div className="space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div className="flex gap-1 bg-neutral-100 rounded-lg p-1 w-fit">
+              {(["converted", "scheme"] as const).map((t) => (
+                <button
+                  key={t}
+                  onClick={() => setTab(t)}
+                  className={`px-3 py-1 text-sm rounded-md ${
+                    tab === t ? "bg-white shadow-sm font-medium" : "text-neutral-600"
+                  }`}
+                >
+                  {t === "converted" ? "Order Rows" : "Scheme Rows"}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-neutral-600">
+              <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+              Show unchanged rows
+            </label>
+          </div>
+
+          <DiffSummary diff={diff[tab]} />
+          <DiffTable diff={diff[tab]} showUnchanged={showUnchanged} />
+        </div>
+      ) : null}
+    </CustomModal>
+  );
+}
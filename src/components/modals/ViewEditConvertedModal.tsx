@@ -3,6 +3,7 @@ import { Modal } from "../Modal";
 import { ConfirmationModal } from "../ConfirmationModal";
 import { previewConvertedOrders, updateConvertedData, downloadOrderFile } from "../../services/orderApi";
 import { Download, Save, X, AlertCircle, CheckCircle } from "lucide-react";
+import { EditableGrid, CellChange, GridColumn } from "../EditableGrid";
 
 interface ViewEditConvertedModalProps {
   isOpen: boolean;
@@ -47,7 +48,7 @@ export function ViewEditConvertedModal({
         setTotal(response.pagination?.total || 0);
         setTotalPages(response.pagination?.totalPages || 1);
         
-        // Use headers from backend (final template format)
+        // Use headers from backend (canonical converted columns)
         if (response.headers && response.headers.length > 0) {
           setHeaders(response.headers);
         } else if (response.data && response.data.length > 0) {
@@ -63,16 +64,26 @@ export function ViewEditConvertedModal({
     }
   };
 
-  const handleCellEdit = (rowIndex: number, field: string, value: string) => {
+  const handleCellsChange = (changes: CellChange[]) => {
     const updatedData = [...data];
-    updatedData[rowIndex] = {
-      ...updatedData[rowIndex],
-      [field]: value
-    };
+    changes.forEach(({ rowIndex, key, value }) => {
+      updatedData[rowIndex] = {
+        ...updatedData[rowIndex],
+        [key]: value
+      };
+    });
     setData(updatedData);
     setHasChanges(true);
   };
 
+  const columns: GridColumn[] = headers.map(header => ({
+    key: header,
+    label: header,
+    editable: true,
+    headerClassName: "whitespace-nowrap",
+    cellClassName: "min-w-[80px] whitespace-nowrap"
+  }));
+
   const handleSave = async () => {
     setSaving(true);
     setError(null);
@@ -81,10 +92,14 @@ export function ViewEditConvertedModal({
     try {
       // If we're viewing a paginated subset, we need to get all data first
       // For now, we'll just save the current page
-      const response = await updateConvertedData(uploadId, data);
+      const response = await updateConvertedData(uploadId, data, (page - 1) * limit);
       
       if (response.success) {
-        setSuccessMessage("Data saved successfully!");
+        setSuccessMessage(
+          response.data?.version
+            ? `Saved as version ${response.data.version}`
+            : "Data saved successfully!"
+        );
         setHasChanges(false);
         setTimeout(() => setSuccessMessage(null), 3000);
       }
@@ -189,37 +204,14 @@ export function ViewEditConvertedModal({
           {/* 🔥 FIXED: Add max-height and overflow-y for proper scrolling with sticky headers */}
           <div className="relative border rounded-lg overflow-hidden">
             <div className="max-h-[50vh] overflow-y-auto overflow-x-auto">
-              <table className="min-w-max w-full text-xs sm:text-sm">
-
-              <thead className="bg-neutral-50 border-b border-neutral-200 sticky top-0">
-                <tr>
-                  {headers.map((header) => (
-                    <th
-                      key={header}
-                      className="px-2 sm:px-3 py-2 text-left text-xs font-semibold text-neutral-700 uppercase tracking-wider whitespace-nowrap"
-                    >
-                      {header}
-                    </th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody className="bg-white divide-y divide-neutral-200">
-                {data.map((row, rowIndex) => (
-                  <tr key={rowIndex} className="hover:bg-neutral-50">
-                    {headers.map((header) => (
-                      <td key={header} className="px-2 sm:px-3 py-2">
-                        <input
-                          type="text"
-                          value={row[header] || ""}
-                          onChange={(e) => handleCellEdit(rowIndex, header, e.target.value)}
-                          className="w-full min-w-[80px] px-2 py-1.5 sm:py-1 text-xs sm:text-sm border border-neutral-200 rounded focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all"
-                        />
-                      </td>
-                    ))}
-                  </tr>
-                ))}
-              </tbody>
-            </table>
+              <EditableGrid
+                className="min-w-max w-full text-xs sm:text-sm"
+                columns={columns}
+                rows={data}
+                onCellsChange={handleCellsChange}
+                headerRowClassName="bg-neutral-50 border-b border-neutral-200 text-xs font-semibold text-neutral-700 uppercase tracking-wider"
+                rowClassName={() => "bg-white hover:bg-neutral-50"}
+              />
             </div>
           </div>
 
@@ -111,7 +111,7 @@ const handleEdit = (index: number, field: string, value: string) => {
     setSuccessMessage(null);
     
     try {
-      const response = await updateSchemeData(uploadId, data);
+      const response = await updateSchemeData(uploadId, data, (page - 1) * limit);
       
       if (response.success) {
         setSuccessMessage(`Saved successfully! ${response.data.schemesUpdated} schemes updated, Total Free Qty: ${response.data.totalFreeQty}`);
@@ -229,6 +229,7 @@ const handleEdit = (index: number, field: string, value: string) => {
                   <th className="px-3 py-2 text-center text-xs font-semibold text-neutral-700 uppercase">Order Qty</th>
                   <th className="px-3 py-2 text-center text-xs font-semibold text-neutral-700 uppercase">Free Qty</th>
                   <th className="px-3 py-2 text-center text-xs font-semibold text-neutral-700 uppercase bg-green-50">Total (Order+Free)</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-neutral-700 uppercase">Applied Schemes</th>
                   <th className="px-3 py-2 text-left text-xs font-semibold text-neutral-700 uppercase">Division</th>
                 </tr>
               </thead>
@@ -273,6 +274,23 @@ const handleEdit = (index: number, field: string, value: string) => {
                         </span>
                         <p className="text-xs text-neutral-500">= {orderQty + freeQty} total</p>
                       </td>
+                      <td className="px-3 py-2">
+                        {Array.isArray(scheme.schemeDecisions) && scheme.schemeDecisions.length > 0 ? (
+                          <div className="space-y-0.5">
+                            {scheme.schemeDecisions.map((d: any, dIdx: number) => (
+                              <p
+                                key={dIdx}
+                                title={d.reason}
+                                className={`text-xs ${d.applied ? "text-green-700 font-medium" : "text-neutral-400 line-through"}`}
+                              >
+                                {d.schemeName} <span className="no-underline text-neutral-400">({d.policy})</span>
+                              </p>
+                            ))}
+                          </div>
+                        ) : (
+                          <span className="text-neutral-400 text-xs">-</span>
+                        )}
+                      </td>
                       <td className="px-3 py-2">
                         <span className="text-xs text-neutral-600">{scheme.division || '-'}</span>
                       </td>
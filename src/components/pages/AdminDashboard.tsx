@@ -23,8 +23,10 @@ import { Button } from "../Button";
 import { StatCard } from "../StatCard";
 import { Table } from "../Table";
 import { Badge } from "../Badge";
+import { OrderStatusBadge } from "../OrderStatusBadge";
 import { Modal } from "../Modal"; // ✅ Import Modal
 import api from "../../services/api";
+import { ORDER_STATUSES, ORDER_STATUS_META } from "../../utils/orderStatus";
 
 interface AdminDashboardProps {}
 
@@ -57,6 +59,7 @@ export function AdminDashboard({ }: AdminDashboardProps) {
   const [page, setPage] = useState(1);
   const [pagination, setPagination] = useState<any>(null);
   const [searchTerm, setSearchTerm] = useState(""); // ✅ Search State
+  const [statusFilter, setStatusFilter] = useState("all");
   
   // ✅ Loading States
   const [loading, setLoading] = useState(true);
@@ -102,7 +105,12 @@ export function AdminDashboard({ }: AdminDashboardProps) {
         setPaginating(true);
       }
       const res = await api.get("/admin/master/audits", {
-        params: { page: pageNo, limit: 10, search }, // ✅ Pass search param
+        params: {
+          page: pageNo,
+          limit: 10,
+          search, // ✅ Pass search param
+          status: statusFilter !== "all" ? statusFilter : undefined,
+        },
       });
 
       setUploads(
@@ -209,7 +217,7 @@ export function AdminDashboard({ }: AdminDashboardProps) {
       loadUploads(1, searchTerm);
     }, 500);
     return () => clearTimeout(timer);
-  }, [searchTerm]);
+  }, [searchTerm, statusFilter]);
 
   useEffect(() => {
     const interval = setInterval(loadDashboard, 30000);
@@ -235,19 +243,7 @@ export function AdminDashboard({ }: AdminDashboardProps) {
     {
       key: "status",
       label: "Status",
-      render: (value: string) => (
-        <Badge
-          variant={
-            value === "CONVERTED"
-              ? "success"
-              : value === "FAILED"
-              ? "error"
-              : "info"
-          }
-        >
-          {value}
-        </Badge>
-      ),
+      render: (value: string) => <OrderStatusBadge status={value} />,
     },
     { key: "processed", label: "Processed" },
     { key: "failed", label: "Failed" },
@@ -354,6 +350,17 @@ export function AdminDashboard({ }: AdminDashboardProps) {
              </div>
           </div>
 
+          <div className="flex gap-2 w-full md:w-auto">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="px-3 py-2 text-sm border border-neutral-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="all">All Status</option>
+            {ORDER_STATUSES.map((st) => (
+              <option key={st} value={st}>{ORDER_STATUS_META[st].label}</option>
+            ))}
+          </select>
           <div className="relative w-full md:w-96">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-400" />
             <input
@@ -364,6 +371,7 @@ export function AdminDashboard({ }: AdminDashboardProps) {
               className="w-full pl-10 pr-4 py-2 text-sm border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
           </div>
+          </div>
         </div>
 
         <div className={paginating ? 'opacity-50 pointer-events-none' : ''}>
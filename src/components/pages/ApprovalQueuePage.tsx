@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { CheckCircle, XCircle, Eye } from "lucide-react";
+import { Card } from "../Card";
+import { Button } from "../Button";
+import { Dropdown } from "../Dropdown";
+import { Table } from "../Table";
+import { Badge } from "../Badge";
+import { CustomModal } from "../Modal";
+import { toast } from "sonner";
+import { getApprovalQueue, decideOrderApproval, ApprovalQueueItem } from "../../services/orderApi";
+import { APPROVAL_STATE_META } from "../../utils/orderApproval";
+
+type Decision = "APPROVED" | "REJECTED";
+
+export function ApprovalQueuePage() {
+  const navigate = useNavigate();
+  const [items, setItems] = useState<ApprovalQueueItem[]>([]);
+  const [stateFilter, setStateFilter] = useState("PENDING");
+  const [page, setPage] = useState(1);
+  const [pagination, setPagination] = useState<any>(null);
+  const [loading, setLoading] = useState(false);
+
+  const [decision, setDecision] = useState<{ item: ApprovalQueueItem; decision: Decision } | null>(null);
+  const [comment, setComment] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  /* ---------------- LOAD QUEUE ---------------- */
+  const loadQueue = async (pageNo = page) => {
+    try {
+      setLoading(true);
+      const res = await getApprovalQueue({ state: stateFilter, page: pageNo, limit: 20 });
+      setItems(res.data);
+      setPagination(res.pagination);
+    } catch {
+      toast.error("Failed to load approval queue");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadQueue(page);
+  }, [page, stateFilter]);
+
+  /* ---------------- DECISION ---------------- */
+  const openDecision = (item: ApprovalQueueItem, d: Decision) => {
+    setComment("");
+    setDecision({ item, decision: d });
+  };
+
+  const confirmDecision = async () => {
+    if (!decision) return;
+
+    if (decision.decision === "REJECTED" && !comment.trim()) {
+      toast.error("Add a comment so the user knows what to change");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await decideOrderApproval(decision.item._id, decision.decision, comment.trim() || undefined);
+      toast.success(decision.decision === "APPROVED" ? "Order approved" : "Order rejected");
+      setDecision(null);
+      loadQueue(page);
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || err.response?.data?.error || "Failed to save decision");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /* ---------------- TABLE ---------------- */
+  const columns = [
+    {
+      key: "orderRef",
+      label: "Order",
+      render: (_: any, row: ApprovalQueueItem) => (
+        <div>
+          <p className="font-mono text-sm font-medium">{row.orderRef || "-"}</p>
+          <p className="text-xs text-neutral-500 truncate max-w-[220px]" title={row.fileName}>
+            {row.fileName}
+          </p>
+        </div>
+      ),
+    },
+    {
+      key: "user",
+      label: "Converted By",
+      render: (_: any, row: ApprovalQueueItem) => row.user?.name || row.user?.email || "Unknown",
+    },
+    {
+      key: "reasons",
+      label: "Why",
+      render: (_: any, row: ApprovalQueueItem) => (
+        <ul className="text-xs text-neutral-700 space-y-0.5">
+          {(row.approval?.reasons || []).map((r, i) => (
+            <li key={i}>• {r}</li>
+          ))}
+        </ul>
+      ),
+    },
+    {
+      key: "requestedAt",
+      label: "Requested",
+      render: (_: any, row: ApprovalQueueItem) =>
+        row.approval?.requestedAt ? new Date(row.approval.requestedAt).toLocaleString() : "-",
+    },
+    {
+      key: "state",
+      label: "State",
+      render: (_: any, row: ApprovalQueueItem) => {
+        const meta = APPROVAL_STATE_META[row.approval?.state] || APPROVAL_STATE_META.PENDING;
+        return (
+          <div>
+            <Badge variant={meta.variant}>{meta.label}</Badge>
+            {row.approval?.comment && (
+              <p className="text-xs text-neutral-500 mt-1 max-w-[200px]">{row.approval.comment}</p>
+            )}
+          </div>
+        );
+      },
+    },
+    {
+      key: "actions",
+      label: "Actions",
+      render: (_: any, row: ApprovalQueueItem) => (
+        <div className="flex gap-1">
+          <Button variant="ghost" size="sm" onClick={() => navigate(`/result/${row._id}`)} title="Open Order">
+            <Eye className="w-4 h-4" />
+          </Button>
+          {row.approval?.state === "PENDING" && (
+            <>
+              <Button variant="ghost" size="sm" onClick={() => openDecision(row, "APPROVED")} title="Approve">
+                <CheckCircle className="w-4 h-4 text-green-600" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => openDecision(row, "REJECTED")} title="Reject">
+                <XCircle className="w-4 h-4 text-red-600" />
+              </Button>
+            </>
+          )}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6 mt-2">
+      {/* HEADER */}
+      <div className="flex flex-col sm:flex-row justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Approval Queue</h1>
+          <p className="text-neutral-600 mt-1">Orders above the approval limits, oldest first</p>
+        </div>
+        <Dropdown
+          options={[
+            { value: "PENDING", label: "Awaiting Approval" },
+            { value: "APPROVED", label: "Approved" },
+            { value: "REJECTED", label: "Rejected" },
+            { value: "all", label: "All Decisions" },
+          ]}
+          value={stateFilter}
+          onChange={(e) => {
+            setStateFilter(e.target.value);
+            setPage(1);
+          }}
+          className="w-full sm:w-56"
+        />
+      </div>
+
+      {/* TABLE */}
+      <Card padding="none">
+        <div className={loading ? "opacity-50 pointer-events-none" : ""}>
+          {items.length === 0 && !loading ? (
+            <p className="text-sm text-neutral-500 p-6">Nothing here</p>
+          ) : (
+            <Table columns={columns} data={items} />
+          )}
+        </div>
+      </Card>
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex justify-between items-center">
+          <Button size="sm" disabled={page <= 1 || loading} onClick={() => setPage((p) => p - 1)}>
+            Previous
+          </Button>
+          <span className="text-sm text-neutral-600">
+            Page {pagination.page} of {pagination.totalPages}
+          </span>
+          <Button size="sm" disabled={page >= pagination.totalPages || loading} onClick={() => setPage((p) => p + 1)}>
+            Next
+          </Button>
+        </div>
+      )}
+
+      {/* DECISION MODAL */}
+      <CustomModal
+        isOpen={!!decision}
+        onClose={() => setDecision(null)}
+        title={decision?.decision === "APPROVED" ? "Approve Order" : "Reject Order"}
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setDecision(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button
+              variant={decision?.decision === "APPROVED" ? "primary" : "danger"}
+              onClick={confirmDecision}
+              isLoading={saving}
+            >
+              {decision?.decision === "APPROVED" ? "Approve" : "Reject"}
+            </Button>
+          </>
+        }
+      >
+        {decision && (
+          <div className="space-y-4">
+            <div className="text-sm">
+              <p className="font-mono font-medium">{decision.item.orderRef || decision.item.fileName}</p>
+              <ul className="text-neutral-600 mt-2 space-y-0.5">
+                {(decision.item.approval?.reasons || []).map((r, i) => (
+                  <li key={i}>• {r}</li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1 text-neutral-700">
+                Comment {decision.decision === "REJECTED" && <span className="text-red-500">*</span>}
+              </label>
+              <textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                rows={3}
+                maxLength={1000}
+                placeholder={
+                  decision.decision === "REJECTED" ? "What should the user change?" : "Optional note for the user"
+                }
+                className="w-full text-sm border border-neutral-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+        )}
+      </CustomModal>
+    </div>
+  );
+}
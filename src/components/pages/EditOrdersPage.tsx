@@ -1,8 +1,11 @@
 import React, { useEffect, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { ArrowLeft, Download, Save, AlertCircle, RefreshCw, ChevronDown, ChevronRight, Box } from "lucide-react";
+import { ArrowLeft, Download, Save, AlertCircle, RefreshCw, Box, Undo2, Redo2, History } from "lucide-react";
 import { previewConvertedOrders, updateConvertedData, downloadOrderFile } from "../../services/orderApi";
 import { Button } from "../Button";
+import { EditHistoryPanel } from "../EditHistoryPanel";
+import { EditableGrid, CellChange, GridColumn, GridGroup } from "../EditableGrid";
+import { useEditHistory, useUndoShortcuts } from "../../utils/editHistory";
 import { toast } from "sonner";
 
 // 🔥 Clean product name - remove form words and pack patterns
@@ -49,6 +52,25 @@ export function EditOrdersPage() {
   // Grouping State
   const [expandedDivisions, setExpandedDivisions] = useState<Record<string, boolean>>({});
 
+  // Undo / redo of cell edits on the current page
+  const history = useEditHistory(data, snap => {
+    setData(snap);
+    setHasChanges(true);
+  });
+  const [showHistory, setShowHistory] = useState(false);
+
+  const handleUndo = () => {
+    const cmd = history.undo();
+    if (cmd) toast.info(`Undone: ${cmd.label}`);
+  };
+
+  const handleRedo = () => {
+    const cmd = history.redo();
+    if (cmd) toast.info(`Redone: ${cmd.label}`);
+  };
+
+  useUndoShortcuts(handleUndo, handleRedo);
+
   useEffect(() => {
     if (id) fetchData();
   }, [id, page]);
@@ -67,6 +89,7 @@ export function EditOrdersPage() {
         }));
         
         setData(cleanedData);
+        history.clear();
         setTotal(response.pagination?.total || 0);
         setTotalPages(response.pagination?.totalPages || 1);
         
@@ -97,9 +120,13 @@ export function EditOrdersPage() {
     }
   };
 
-  const handleCellEdit = (rowIndex: number, field: string, value: string) => {
+  // Single cell edits, pastes and fill-downs from the grid
+  const handleCellsChange = (changes: CellChange[], label: string) => {
+    history.record(page > 1 ? `${label} (page ${page})` : label);
     const updatedData = [...data];
-    updatedData[rowIndex] = { ...updatedData[rowIndex], [field]: value };
+    changes.forEach(({ rowIndex, key, value }) => {
+      updatedData[rowIndex] = { ...updatedData[rowIndex], [key]: value };
+    });
     setData(updatedData);
     setHasChanges(true);
   };
@@ -107,10 +134,20 @@ export function EditOrdersPage() {
   const handleSave = async () => {
     setSaving(true);
     try {
-      const response = await updateConvertedData(id!, data);
+      const response = await updateConvertedData(id!, data, (page - 1) * limit);
       if (response.success) {
-        toast.success("Changes saved successfully!");
+        // Each save is kept as a new version of the order
+        toast.success(
+          response.data?.version
+            ? `Changes saved as version ${response.data.version}`
+            : "Changes saved successfully!"
+        );
         setHasChanges(false);
+
+        // Edited quantities are checked against the approval limits again
+        if (response.data?.approval?.state === "PENDING") {
+          toast.warning("This order now needs admin approval before it can be downloaded");
+        }
         
         // 🔥 Store updated scheme data in sessionStorage for ResultPage to read
         if (response.data?.schemeDetails) {
@@ -132,7 +169,11 @@ export function EditOrdersPage() {
       await downloadOrderFile(id!);
       toast.success("File downloaded!");
     } catch (err: any) {
-      toast.error("Download failed");
+      toast.error(
+        err.response?.status === 403
+          ? "Downloads are locked until the order is approved"
+          : "Download failed"
+      );
     }
   };
 
@@ -170,6 +211,27 @@ export function EditOrdersPage() {
 
   const sortedDivisions = Object.keys(groupedData).sort();
 
+  const groups: GridGroup[] = sortedDivisions.map(division => ({
+    key: division,
+    collapsed: !expandedDivisions[division],
+    rowIndices: groupedData[division].map(g => g.originalIndex),
+    label: (
+      <div className="flex items-center gap-2 font-semibold text-neutral-800">
+        <Box className="w-4 h-4 text-blue-600" />
+        {division}
+        <Badge variant="neutral" className="ml-2 text-xs">{groupedData[division].length} items</Badge>
+      </div>
+    )
+  }));
+
+  const columns: GridColumn[] = headers.map(header => ({
+    key: header,
+    label: header,
+    editable: true,
+    headerClassName: "whitespace-nowrap border-b border-neutral-200",
+    cellClassName: "min-w-[80px] whitespace-nowrap"
+  }));
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -200,6 +262,20 @@ export function EditOrdersPage() {
           </div>
 
           <div className="flex items-center gap-2">
+            <Button variant="ghost" onClick={handleUndo} disabled={!history.canUndo} title="Undo (Ctrl+Z)">
+              <Undo2 className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" onClick={handleRedo} disabled={!history.canRedo} title="Redo (Ctrl+Shift+Z)">
+              <Redo2 className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => setShowHistory(v => !v)}
+              className={`flex items-center gap-2 ${showHistory ? "bg-neutral-100" : ""}`}
+            >
+              <History className="w-4 h-4" />
+              <span className="hidden sm:inline">Changes ({history.past.length})</span>
+            </Button>
             <Button
               variant="secondary"
               onClick={handleDownload}
@@ -232,69 +308,18 @@ export function EditOrdersPage() {
       {/* TABLE - Scrollable */}
       <div className="flex-1 overflow-auto p-4">
         <div className="bg-white rounded-lg border border-neutral-200 overflow-hidden">
-          <table className="w-full text-sm">
-            <thead className="bg-neutral-100 sticky top-0 z-10">
-              <tr>
-                {headers.map((header) => (
-                  <th
-                    key={header}
-                    className="px-3 py-3 text-left text-xs font-semibold text-neutral-700 uppercase tracking-wider whitespace-nowrap border-b border-neutral-200"
-                  >
-                    {header}
-                  </th>
-                ))}
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-neutral-100">
-              {sortedDivisions.map(division => {
-                  const isExpanded = expandedDivisions[division];
-                  const groupRows = groupedData[division];
-                  
-                  return (
-                    <React.Fragment key={division}>
-                        {/* DIVISION HEADER */}
-                         <tr 
-                            className="bg-neutral-50 hover:bg-neutral-100 cursor-pointer transition-colors border-b border-neutral-200"
-                            onClick={() => toggleDivision(division)}
-                        >
-                            <td colSpan={headers.length} className="p-2">
-                                <div className="flex items-center gap-2 font-semibold text-neutral-800">
-                                    {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
-                                    <Box className="w-4 h-4 text-blue-600" />
-                                    {division} 
-                                    <Badge variant="neutral" className="ml-2 text-xs">{groupRows.length} items</Badge>
-                                </div>
-                            </td>
-                        </tr>
-
-                        {/* ROWS */}
-                        {isExpanded && groupRows.map(({ row, originalIndex }) => (
-                            <tr key={originalIndex} className="hover:bg-neutral-50 animate-in fade-in slide-in-from-top-1 duration-200">
-                                {headers.map((header) => (
-                                    <td key={header} className="px-3 py-2">
-                                    <input
-                                        type="text"
-                                        value={row[header] || ""}
-                                        onChange={(e) => handleCellEdit(originalIndex, header, e.target.value)}
-                                        className="w-full min-w-[80px] px-2 py-1.5 text-sm border border-neutral-200 rounded focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-                                    />
-                                    </td>
-                                ))}
-                            </tr>
-                        ))}
-                    </React.Fragment>
-                  );
-              })}
-
-              {data.length === 0 && (
-                  <tr>
-                      <td colSpan={headers.length} className="text-center p-8 text-neutral-500">
-                          No data found
-                      </td>
-                  </tr>
-              )}
-            </tbody>
-          </table>
+          <EditableGrid
+            className="text-sm"
+            columns={columns}
+            rows={data}
+            groups={groups}
+            onToggleGroup={toggleDivision}
+            onCellsChange={handleCellsChange}
+            headerRowClassName="bg-neutral-100 text-xs font-semibold text-neutral-700 uppercase tracking-wider"
+            groupRowClassName="bg-neutral-50 hover:bg-neutral-100 border-b border-neutral-200"
+            rowClassName={() => "hover:bg-neutral-50"}
+            emptyState={<div className="text-center p-8 text-neutral-500">No data found</div>}
+          />
         </div>
       </div>
 
@@ -328,6 +353,18 @@ export function EditOrdersPage() {
           </div>
         </div>
       )}
+
+      {showHistory && (
+        <div className="fixed right-6 bottom-20 z-40">
+          <EditHistoryPanel
+            past={history.past}
+            future={history.future}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            onClose={() => setShowHistory(false)}
+          />
+        </div>
+      )}
     </div>
   );
 }
@@ -1,16 +1,24 @@
 import React, { useState, useEffect } from 'react';
-import { Search, Download, Eye, RefreshCw, FileText, Edit } from 'lucide-react';
+import { Search, Download, Eye, RefreshCw, FileText, Edit, Lock } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { Card } from '../Card';
 import { Button } from '../Button';
 import { Input } from '../Input';
 import { Dropdown } from '../Dropdown';
 import { Table } from '../Table';
-import { Badge } from '../Badge';
 import { CustomModal } from '../Modal';
 import api from '../../services/api';
 import { toast } from 'sonner';
-import { downloadOrderFile } from '../../services/orderApi';
+import { OrderStatusBadge } from '../OrderStatusBadge';
+import { ORDER_STATUSES, ORDER_STATUS_META, hasConvertedOutput } from '../../utils/orderStatus';
+import { downloadsAllowed, downloadLockReason } from '../../utils/orderApproval';
+import {
+  downloadOrderFile,
+  getExportFormats,
+  ExportFormat,
+  DEFAULT_EXPORT_FORMAT,
+  FALLBACK_EXPORT_FORMATS
+} from '../../services/orderApi';
 
 export function HistoryPage() {
   const navigate = useNavigate();
@@ -22,6 +30,8 @@ export function HistoryPage() {
   const [loading, setLoading] = useState(true);
   const [paginating, setPaginating] = useState(false); // Separate state for pagination loading
   const [downloading, setDownloading] = useState<string | null>(null);
+  const [exportFormats, setExportFormats] = useState<ExportFormat[]>(FALLBACK_EXPORT_FORMATS);
+  const [exportFormat, setExportFormat] = useState<string>(DEFAULT_EXPORT_FORMAT);
   
   // Pagination State
   const [page, setPage] = useState(1);
@@ -47,6 +57,14 @@ export function HistoryPage() {
     return () => clearTimeout(timer);
   }, [searchTerm, statusFilter]);
 
+  useEffect(() => {
+    getExportFormats()
+      .then(formats => {
+        if (formats.length > 0) setExportFormats(formats);
+      })
+      .catch(err => console.error("Export formats load failed", err));
+  }, []);
+
   // Fetch when page or debounced params change
   useEffect(() => {
     fetchHistory();
@@ -124,7 +142,7 @@ export function HistoryPage() {
       const prefix = type === "sheets" ? "Sheet Orders" : type === "main" ? "Main Order" : "";
       const name = prefix ? `${prefix} - ${fileName}` : fileName;
       
-      await downloadOrderFile(uploadId, name, type as any);
+      await downloadOrderFile(uploadId, name, type as any, exportFormat);
       toast.success(
         `${
           type === "sheets"
@@ -143,6 +161,16 @@ export function HistoryPage() {
   };
 
   const columns = [
+    {
+      key: 'orderRef',
+      label: 'Order Ref',
+      render: (value: string) =>
+        value ? (
+          <span className="font-mono text-xs font-medium text-neutral-900 whitespace-nowrap">{value}</span>
+        ) : (
+          <span className="text-neutral-400">-</span>
+        )
+    },
     { 
       key: 'fileName', 
       label: 'File Name',
@@ -181,17 +209,7 @@ export function HistoryPage() {
     {
       key: 'status',
       label: 'Status',
-      render: (value: string) => (
-        <Badge
-          variant={
-            value === "CONVERTED" ? "success" 
-            : value === "FAILED" ? "error" 
-            : "neutral"
-          }
-        >
-          {value || "PROCESSING"}
-        </Badge>
-      )
+      render: (value: string) => <OrderStatusBadge status={value} />
     },
     {
       key: 'recordsProcessed',
@@ -227,7 +245,7 @@ export function HistoryPage() {
           >
             <Eye className="w-4 h-4" />
           </Button>
-          {row.status === "CONVERTED" && (
+          {hasConvertedOutput(row.status) && (
             <>
               <Button
                 variant="ghost"
@@ -242,7 +260,11 @@ export function HistoryPage() {
               </Button>
               
               {/* DOWNLOAD BUTTONS */}
-              {row.downloadUrls && row.downloadUrls.length > 0 ? (
+              {!downloadsAllowed(row.approval) ? (
+                <span className="inline-flex items-center px-2" title={downloadLockReason(row.approval) || ''}>
+                  <Lock className="w-4 h-4 text-yellow-600" />
+                </span>
+              ) : row.downloadUrls && row.downloadUrls.length > 0 ? (
                 // Multiple files or specific types
                 row.downloadUrls.map((dl: any, idx: number) => {
                   const isSheets = dl.type === 'sheets';
@@ -328,7 +350,7 @@ export function HistoryPage() {
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-neutral-400" />
               <Input
                 type="text"
-                placeholder="Search by file name..."
+                placeholder="Search by file name or order ref..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="pl-10"
@@ -338,8 +360,7 @@ export function HistoryPage() {
           <Dropdown
             options={[
               { value: 'all', label: 'All Status' },
-              { value: 'converted', label: 'Converted' },
-              { value: 'failed', label: 'Failed' },
+              ...ORDER_STATUSES.map(st => ({ value: st.toLowerCase(), label: ORDER_STATUS_META[st].label })),
             ]}
             value={statusFilter}
             onChange={(e) => setStatusFilter(e.target.value)}
@@ -378,8 +399,21 @@ export function HistoryPage() {
         <div className="p-6 border-b border-neutral-200">
           <div className="flex items-center justify-between">
             <h3 className="text-lg font-semibold text-neutral-900">Conversion History</h3>
-            <div className="text-sm text-neutral-600">
-              {stats.total} total conversion{stats.total !== 1 ? 's' : ''}
+            <div className="flex items-center gap-4">
+              {exportFormats.length > 1 && (
+                <div className="flex items-center gap-2 text-sm text-neutral-600">
+                  <span className="whitespace-nowrap">Download as</span>
+                  <Dropdown
+                    options={exportFormats.map(f => ({ value: f.id, label: f.label }))}
+                    value={exportFormat}
+                    onChange={(e) => setExportFormat(e.target.value)}
+                    className="py-1.5 text-sm"
+                  />
+                </div>
+              )}
+              <div className="text-sm text-neutral-600">
+                {stats.total} total conversion{stats.total !== 1 ? 's' : ''}
+              </div>
             </div>
           </div>
         </div>
@@ -449,15 +483,17 @@ export function HistoryPage() {
         {selectedLog && (
           <div className="space-y-4">
             <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm text-neutral-600 mb-1">Order Ref</p>
+                <p className="font-mono font-medium text-neutral-900">{selectedLog.orderRef || '-'}</p>
+              </div>
               <div>
                 <p className="text-sm text-neutral-600 mb-1">File Name</p>
                 <p className="font-medium text-neutral-900">{selectedLog.fileName}</p>
               </div>
               <div>
                 <p className="text-sm text-neutral-600 mb-1">Status</p>
-                <Badge variant={selectedLog.status === "CONVERTED" ? "success" : "error"}>
-                  {selectedLog.status === "CONVERTED" ? "Success" : "Failed"}
-                </Badge>
+                <OrderStatusBadge status={selectedLog.status} />
               </div>
               <div>
                 <p className="text-sm text-neutral-600 mb-1">Upload Date</p>
@@ -516,6 +552,21 @@ export function HistoryPage() {
               </div>
             </div>
 
+            {selectedLog.statusHistory?.length > 0 && (
+              <div className="pt-4 border-t border-neutral-200">
+                <p className="text-sm text-neutral-600 mb-2">Status History</p>
+                <ul className="space-y-1.5">
+                  {[...selectedLog.statusHistory].reverse().map((h: any, i: number) => (
+                    <li key={i} className="flex flex-wrap items-center gap-2 text-sm">
+                      <OrderStatusBadge status={h.to} />
+                      <span className="text-neutral-600">{h.by?.name || h.by?.email || 'System'}</span>
+                      <span className="text-xs text-neutral-400">{new Date(h.at).toLocaleString()}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <div className="flex gap-3 pt-4 border-t border-neutral-200">
               <Button
                 variant="secondary"
@@ -527,7 +578,7 @@ export function HistoryPage() {
               >
                 View Full Details
               </Button>
-              {selectedLog.status === "CONVERTED" && (
+              {hasConvertedOutput(selectedLog.status) && downloadsAllowed(selectedLog.approval) && (
                 <Button
                   variant="primary"
                   onClick={() => handleDownload(selectedLog.id, selectedLog.fileName)}
@@ -8,7 +8,6 @@
  */
 
 import React, { useEffect, useState, useRef } from "react";
-import { createPortal } from "react-dom";
 import {
   ArrowRight,
   CheckCircle2,
@@ -22,11 +21,12 @@ import {
   Gift,
   Package,
   Database,
-  ChevronDown,
-  ChevronRight,
   Box,
   Check,
-  Edit2
+  Edit2,
+  Undo2,
+  Redo2,
+  History
 } from "lucide-react";
 import { Card } from "../Card";
 import { Button } from "../Button";
@@ -34,66 +34,42 @@ import { Badge } from "../Badge";
 import { Alert, AlertDescription } from "../ui/alert";
 import { toast } from "sonner";
 import api from "../../services/api";
-import { useNavigate, useLocation } from "react-router-dom";
+import {
+  saveProductAliases,
+  getMappingDraft,
+  saveMappingDraft,
+  deleteMappingDraft,
+  DuplicateMatch,
+  DuplicateOverride
+} from "../../services/orderApi";
+import { Link, useNavigate, useLocation, useSearchParams } from "react-router-dom";
 import { Modal } from "../Modal";
 import { SchemePopup } from "../modals/SchemePopup";
-
-/**
- * 🧠 FRONTEND SCHEME ENGINE (Strict Mirror of Backend)
- */
-const FrontendSchemeEngine = {
-    generateVirtualSlabs: (explicitSlabs: any[], orderQty: number) => {
-        const sorted = [...explicitSlabs].filter(s => s.minQty > 0).sort((a, b) => a.minQty - b.minQty);
-        if (sorted.length === 0) return [];
-
-        const base = sorted[0];
-        const baseQty = base.minQty;
-        const baseFree = base.freeQty;
-        
-        // Generate enough virtual slabs to cover the order + upsell room
-        const maxTarget = Math.max(orderQty * 2, baseQty * 10);
-        
-        const allSlabs = [];
-        let multiplier = 1;
-        let currentQty = baseQty;
-
-        while (currentQty <= maxTarget) {
-            const explicit = sorted.find(s => s.minQty === currentQty);
-            if (explicit) {
-                allSlabs.push({ ...explicit, isVirtual: false });
-            } else {
-                allSlabs.push({
-                    minQty: currentQty,
-                    freeQty: multiplier * baseFree,
-                    isVirtual: true,
-                    schemeName: `Auto-Pattern (x${multiplier})`,
-                    schemeId: base.schemeId || 'virtual',
-                    schemePercent: base.schemePercent, // ✅ Propagate Scheme %
-                });
-            }
-            multiplier++;
-            currentQty = baseQty * multiplier;
-        }
-        return allSlabs.sort((a, b) => a.minQty - b.minQty);
-    },
-
-    calculate: (orderQty: number, slabs: any[]) => {
-        if (orderQty <= 0 || !slabs.length) return { freeQty: 0, appliedSlab: null };
-        
-        // Find largest slab <= orderQty
-        const applicable = slabs.filter(s => s.minQty <= orderQty);
-        if (applicable.length === 0) return { freeQty: 0, appliedSlab: null };
-
-        const bestSlab = applicable[applicable.length - 1]; // Last one is largest
-        return {
-            freeQty: bestSlab.freeQty,
-            appliedSlab: bestSlab
-        };
-    }
-};
-
+import { OcrRegionModal } from "../modals/OcrRegionModal";
+import { DuplicateOrderModal, describeDuplicate } from "../modals/DuplicateOrderModal";
+import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "../ui/resizable";
+import { SourceViewer, SourceHighlight } from "../SourceViewer";
+import { EditHistoryPanel } from "../EditHistoryPanel";
+import { EditableGrid, CellChange, GridColumn, GridGroup, GridOption } from "../EditableGrid";
+import { useEditHistory, useUndoShortcuts } from "../../utils/editHistory";
+import { SchemeEngine, toDayKey } from "../../utils/schemeEngine";
+import { masterDataApi, OutputTemplateData, BUILTIN_OUTPUT_TEMPLATE } from "../../services/masterDataApi";
+import {
+  DEFAULT_MATCH_THRESHOLDS,
+  MatchThresholds,
+  getMatchConfidenceLevel,
+  needsReview
+} from "../../utils/matchConfidence";
 
   /* ---------------- HELPERS ---------------- */
+  const CUSTOMER_EVIDENCE_LABELS: Record<string, string> = {
+    GST: "GST",
+    DRUG_LICENCE: "Drug Lic",
+    PHONE: "Phone",
+    PIN_CODE: "PIN",
+    NAME: "Name"
+  };
+
   const formatProductDisplay = (p: any) => {
     if (!p) return "";
     let name = p.productName || [p.baseName, p.variant, p.dosage].filter(Boolean).join(" ");
@@ -107,6 +83,82 @@ const FrontendSchemeEngine = {
     return name;
   };
 
+  const ROW_FIELD_LABELS: Record<string, string> = {
+    ORDERQTY: "Qty",
+    "BOX PACK": "Box pack",
+    schemeApplied: "Scheme",
+    matchedProduct: "Product"
+  };
+
+  // Change-log label for a single cell edit
+  const describeRowChange = (index: number, field: string, value: any) => {
+    const label = ROW_FIELD_LABELS[field] || field;
+    if (field === "matchedProduct") return `Row ${index + 1}: ${value ? `map to ${value.productName}` : "clear product"}`;
+    if (field === "schemeApplied") return `Row ${index + 1}: ${value ? "apply" : "remove"} scheme`;
+    return `Row ${index + 1}: ${label} → ${value === "" ? "(blank)" : value}`;
+  };
+
+  // Row after changing one field, with dependent fields (pack, scheme state) recalculated
+  const withRowField = (row: any, field: string, value: any) => {
+    const updatedRow = { ...row, [field]: value };
+
+    if (field === 'matchedProduct') {
+        updatedRow.availableSchemes = undefined;
+        updatedRow.schemeApplied = false;
+        updatedRow.matchConfirmed = false;
+    }
+
+    if (field === 'ORDERQTY' || field === 'BOX PACK') {
+      if (field === 'ORDERQTY') updatedRow.schemeApplied = false;
+
+      const qty = Number(field === 'ORDERQTY' ? value : updatedRow.ORDERQTY) || 0;
+      const boxPack = Number(field === 'BOX PACK' ? value : (updatedRow["BOX PACK"] || updatedRow.matchedProduct?.boxPack)) || 0;
+
+      if (boxPack > 0) {
+        const rawPack = qty / boxPack;
+        updatedRow.PACK = Number.isInteger(rawPack) ? rawPack : Number(rawPack.toFixed(2));
+      }
+    }
+
+    return updatedRow;
+  };
+
+  // 🔍 SMART SEARCH over master products:
+  // 1. Starts with query first, 2. Contains whole query,
+  // 3. Token fallback: first word of the query (brand), e.g. "DIAPRIDE 4MG" → "DIAPRIDE"
+  const searchProducts = (products: any[], query: string, excludeCodes: string[] = []) => {
+    const q = query.toUpperCase().trim();
+
+    return products
+      .filter(p => {
+        if (excludeCodes.includes(p.productCode)) return false;
+        if (!q) return true;
+
+        const pName = p.productName?.toUpperCase() || "";
+        if (pName.includes(q)) return true;
+
+        const tokens = q.split(/[\s-]+/).filter(t => t.length > 2);
+        return tokens.length > 0 && pName.includes(tokens[0]);
+      })
+      .sort((a, b) => {
+        const aName = a.productName?.toUpperCase() || "";
+        const bName = b.productName?.toUpperCase() || "";
+
+        const aStarts = aName.startsWith(q);
+        const bStarts = bName.startsWith(q);
+        if (aStarts && !bStarts) return -1;
+        if (!aStarts && bStarts) return 1;
+
+        const aHas = aName.includes(q);
+        const bHas = bName.includes(q);
+        if (aHas && !bHas) return -1;
+        if (!aHas && bHas) return 1;
+
+        return 0;
+      })
+      .slice(0, 20);
+  };
+
   const SHEET_COLORS = [
     { bg: 'bg-blue-50', border: 'border-blue-300', text: 'text-blue-700', badge: 'bg-blue-100' },
     { bg: 'bg-green-50', border: 'border-green-300', text: 'text-green-700', badge: 'bg-green-100' },
@@ -120,6 +172,18 @@ export function MappingPage() {
   const location = useLocation();
   const parsedResult = location.state?.parsedResult; // Legacy support
   const multiFileResults = location.state?.results;  // New Multi-file support
+  const [searchParams] = useSearchParams();
+  const draftUploadId = searchParams.get("uploadId"); // /mapping?uploadId=... → resume from saved draft
+
+  /* 💾 DRAFT AUTOSAVE STATE */
+  const [draftReady, setDraftReady] = useState(false);
+  const [draftStatus, setDraftStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null);
+  const initializedFor = useRef<string | null>(null);
+  // Set while converting / once converted: no more draft saves
+  const convertedRef = useRef(false);
+  // Latest draft save, awaited before the draft is deleted
+  const draftSaveRef = useRef<Promise<unknown> | null>(null);
 
   /* 📂 MULTI-FILE STATE */
   const [filesData, setFilesData] = useState<any[]>([]); // Metadata for each file
@@ -130,6 +194,10 @@ export function MappingPage() {
   const [uploadId, setUploadId] = useState<string | null>(null); // Use primary upload ID
   const [converting, setConverting] = useState(false);
 
+  // Output column layout for the converted file ("" → server default, BUILTIN_OUTPUT_TEMPLATE → built-in columns)
+  const [outputTemplates, setOutputTemplates] = useState<OutputTemplateData[]>([]);
+  const [outputTemplateId, setOutputTemplateId] = useState("");
+
   // Grouping State
   const [expandedDivisions, setExpandedDivisions] = useState<Record<string, boolean>>({});
 
@@ -142,12 +210,21 @@ export function MappingPage() {
   /* 📊 MASTER DATA COUNTS */
   const [counts, setCounts] = useState({ products: 0, customers: 0 });
   const [loadingCounts, setLoadingCounts] = useState(true);
-  const [activeSearchRow, setActiveSearchRow] = useState<number | null>(null);
-  const [activeEditRow, setActiveEditRow] = useState<number | null>(null);
 
   /* ✅ MASTER PRODUCTS FOR MANUAL MAPPING */
   const [allProducts, setAllProducts] = useState<any[]>([]);
 
+  /* 🎯 MATCH CONFIDENCE / REVIEW QUEUE */
+  const [matchThresholds, setMatchThresholds] = useState<MatchThresholds>(DEFAULT_MATCH_THRESHOLDS);
+  const [showReviewOnly, setShowReviewOnly] = useState(false);
+
+  /* 🔎 OCR SOURCE REGION */
+  const [ocrViewRow, setOcrViewRow] = useState<number | null>(null);
+
+  /* 📄 SIDE-BY-SIDE SOURCE VIEWER */
+  const [showSource, setShowSource] = useState(false);
+  const [focusedRow, setFocusedRow] = useState<number | null>(null);
+
   /* 🎁 SCHEME SUGGESTIONS STATE */
   const [schemeSuggestions, setSchemeSuggestions] = useState<any[]>([]);
   const [showSchemeModal, setShowSchemeModal] = useState(false);
@@ -161,6 +238,33 @@ export function MappingPage() {
   }[]>([]);
   const [selectedRows, setSelectedRows] = useState<number[]>([]);
 
+  /* 🔁 DUPLICATE ORDER PROMPT (matches needing a "convert anyway" reason) */
+  const [duplicatePrompt, setDuplicatePrompt] = useState<DuplicateMatch[] | null>(null);
+
+  /* ↩️ UNDO / REDO */
+  const history = useEditHistory(
+    { rows, sheets, rowErrors, filesData },
+    snap => {
+      setRows(snap.rows);
+      setSheets(snap.sheets);
+      setRowErrors(snap.rowErrors);
+      setFilesData(snap.filesData);
+    }
+  );
+  const [showHistory, setShowHistory] = useState(false);
+
+  const handleUndo = () => {
+    const cmd = history.undo();
+    if (cmd) toast.info(`Undone: ${cmd.label}`);
+  };
+
+  const handleRedo = () => {
+    const cmd = history.redo();
+    if (cmd) toast.info(`Redone: ${cmd.label}`);
+  };
+
+  useUndoShortcuts(handleUndo, handleRedo);
+
   /* ---------------- LOAD MASTER PRODUCTS & COUNTS ---------------- */
   useEffect(() => {
     setLoadingCounts(true);
@@ -187,6 +291,19 @@ export function MappingPage() {
       .get("/admin/products", { params: { limit: 5000 } })
       .then(res => setAllProducts(res.data?.data || []))
       .catch(() => setAllProducts([]));
+
+    masterDataApi
+      .getMatchSettings()
+      .then(setMatchThresholds)
+      .catch(() => setMatchThresholds(DEFAULT_MATCH_THRESHOLDS));
+
+    masterDataApi
+      .getOutputTemplates()
+      .then(({ templates }) => {
+        setOutputTemplates(templates);
+        setOutputTemplateId(templates.find(t => t.isDefault)?._id || BUILTIN_OUTPUT_TEMPLATE);
+      })
+      .catch(() => setOutputTemplates([]));
   }, []);
 
   /* ---------------- CUSTOMER SEARCH (DEBOUNCED) ---------------- */
@@ -212,18 +329,6 @@ export function MappingPage() {
   /* ---------------- CLICK OUTSIDE ---------------- */
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
-      // Logic for closing row search
-      if (activeSearchRow !== null) {
-        const target = e.target as HTMLElement;
-        
-        // Check if click is inside the portal dropdown
-        if (target.closest('#portal-dropdown-container')) return;
-
-        if (!target.closest(`#cell-search-${activeSearchRow}`)) {
-          setActiveSearchRow(null);
-        }
-      }
-
       // Logic for closing customer search (if clicking outside the active edit area)
       if (activeFileEdit !== null) {
           const target = e.target as HTMLElement;
@@ -234,7 +339,7 @@ export function MappingPage() {
     };
     document.addEventListener('mousedown', handleClickOutside);
     return () => document.removeEventListener('mousedown', handleClickOutside);
-  }, [activeSearchRow, activeFileEdit]);
+  }, [activeFileEdit]);
 
   /* ---------------- HELPER: SANITIZE ROWS ---------------- */
   const sanitizeRows = (dataRows: any[], fileIndex: number) => {
@@ -259,49 +364,117 @@ export function MappingPage() {
 
   /* ---------------- INIT ---------------- */
   useEffect(() => {
-    if (multiFileResults && multiFileResults.length > 0) {
-        // Initialize Multi-file
-        const allRows: any[] = [];
-        const filesMetadata = multiFileResults.map((res: any, idx: number) => {
-            const sanitized = sanitizeRows(res.dataRows, idx);
-            allRows.push(...sanitized);
-
-            // Initial Customer State
-            let custState = {
-                name: res.customer?.name || "",
-                code: res.customer?.code || "",
-                city: res.customer?.city,
-                state: res.customer?.state,
-                source: res.customer?.source,
-                candidates: res.customer?.candidates || []
-            };
-
-            return {
-                fileName: res.fileName,
-                uploadId: res.uploadId,
-                customer: custState
-            };
+    const primaryId = draftUploadId || multiFileResults?.[0]?.uploadId || parsedResult?.uploadId;
+    // Once per session: StrictMode re-runs effects and the URL update below changes deps
+    if (primaryId && initializedFor.current === primaryId) return;
+    initializedFor.current = primaryId || null;
+
+    // Keep the session reachable after refresh / navigation
+    const pinSessionUrl = () => {
+      if (primaryId && !draftUploadId) {
+        navigate(`/mapping?uploadId=${primaryId}`, { replace: true, state: location.state });
+      }
+    };
+
+    const init = async () => {
+      // 1. A saved draft wins – it holds the user's mapping work
+      if (primaryId) {
+        try {
+          const draft = await getMappingDraft(primaryId);
+          if (draft) {
+            setFilesData(draft.filesData || []);
+            setRows(draft.rows || []);
+            setSheets(draft.sheets || []);
+            setRowErrors(draft.rowErrors || {});
+            setUploadId(primaryId);
+            if (draft.updatedAt) setDraftSavedAt(new Date(draft.updatedAt));
+            setDraftStatus("saved");
+            if (!multiFileResults && !parsedResult) toast.success("Draft restored");
+            pinSessionUrl();
+            return;
+          }
+        } catch (err) {
+          console.error("Draft load failed", err);
+        }
+      }
+
+      // 2. Fresh extraction results handed over by UploadPage
+      if (multiFileResults && multiFileResults.length > 0) {
+          // Initialize Multi-file
+          const allRows: any[] = [];
+          const filesMetadata = multiFileResults.map((res: any, idx: number) => {
+              const sanitized = sanitizeRows(res.dataRows, idx);
+              allRows.push(...sanitized);
+
+              // Initial Customer State
+              let custState = {
+                  name: res.customer?.name || "",
+                  code: res.customer?.code || "",
+                  city: res.customer?.city,
+                  state: res.customer?.state,
+                  customerType: res.customer?.customerType,
+                  source: res.customer?.source,
+                  candidates: res.customer?.candidates || []
+              };
+
+              return {
+                  fileName: res.fileName,
+                  uploadId: res.uploadId,
+                  customer: custState,
+                  // OCR stage summary for scanned PDFs / images: { method, pages: [{ page, rowCount, meanConfidence }] }
+                  extraction: res.extraction,
+                  // Recent converted uploads this file looks like (same file or same customer + lines)
+                  duplicates: res.duplicates || []
+              };
+          });
+
+          setFilesData(filesMetadata);
+          setRows(allRows);
+          setUploadId(multiFileResults[0].uploadId); // Use first as primary
+
+      } else if (parsedResult?.dataRows) {
+          // Legacy Single File
+          const sanitized = sanitizeRows(parsedResult.dataRows, 0);
+          setFilesData([{
+              fileName: location.state?.fileName || "Uploaded File",
+              uploadId: parsedResult.uploadId,
+              customer: parsedResult.customer
+          }]);
+          setRows(sanitized);
+          setUploadId(parsedResult.uploadId);
+      } else {
+        toast.error(draftUploadId ? "No saved draft found for this upload." : "Invalid upload session. Please re-upload.");
+        navigate("/upload");
+        return;
+      }
+
+      pinSessionUrl();
+    };
+
+    init().finally(() => setDraftReady(true));
+  }, [multiFileResults, parsedResult, draftUploadId, navigate]);
+
+  /* ---------------- DRAFT AUTOSAVE (DEBOUNCED) ---------------- */
+  useEffect(() => {
+    if (!draftReady || !uploadId || convertedRef.current) return;
+
+    const timer = setTimeout(() => {
+      // Conversion may have started since this was scheduled
+      if (convertedRef.current) return;
+      setDraftStatus("saving");
+      draftSaveRef.current = saveMappingDraft(uploadId, { filesData, rows, sheets, rowErrors })
+        .then(() => {
+          setDraftStatus("saved");
+          setDraftSavedAt(new Date());
+        })
+        .catch(err => {
+          console.error("Draft save failed", err);
+          setDraftStatus("error");
         });
+    }, 1500);
 
-        setFilesData(filesMetadata);
-        setRows(allRows);
-        setUploadId(multiFileResults[0].uploadId); // Use first as primary
-
-    } else if (parsedResult?.dataRows) {
-        // Legacy Single File
-        const sanitized = sanitizeRows(parsedResult.dataRows, 0);
-        setFilesData([{
-            fileName: location.state?.fileName || "Uploaded File",
-            uploadId: parsedResult.uploadId,
-            customer: parsedResult.customer
-        }]);
-        setRows(sanitized);
-        setUploadId(parsedResult.uploadId);
-    } else {
-      toast.error("Invalid upload session. Please re-upload.");
-      navigate("/upload");
-    }
-  }, [multiFileResults, parsedResult, navigate]);
+    return () => clearTimeout(timer);
+  }, [draftReady, uploadId, filesData, rows, sheets, rowErrors]);
 
   /* ---------------- CUSTOMER SELECTION ---------------- */
   const startEditingCustomer = (fileIndex: number) => {
@@ -315,25 +488,37 @@ export function MappingPage() {
       }
   };
 
-  const handleCustomerSelect = (customer: any) => {
-    if (activeFileEdit === null) return;
-
+  const applyCustomer = (fileIndex: number, customer: any) => {
     const newCustomer = {
       code: customer.customerCode,
       name: customer.customerName,
       city: customer.city,
       state: customer.state,
+      customerType: customer.customerType,
       source: 'MANUAL',
-      candidates: []
+      // Keep detected candidates so the pick can be changed in one click
+      candidates: filesData[fileIndex]?.customer?.candidates || []
     };
 
+    history.record(`Customer for ${filesData[fileIndex]?.fileName}: ${customer.customerName}`);
     setFilesData(prev => {
         const next = [...prev];
-        next[activeFileEdit] = { ...next[activeFileEdit], customer: newCustomer };
+        next[fileIndex] = { ...next[fileIndex], customer: newCustomer };
         return next;
     });
 
-    toast.success(`Updated customer for ${filesData[activeFileEdit].fileName}`);
+    // Schemes are customer/region specific → refetch for this file's rows
+    setRows(prev => prev.map(r =>
+        (r._fileIndex ?? 0) === fileIndex ? { ...r, availableSchemes: undefined, schemeApplied: false } : r
+    ));
+
+    toast.success(`Updated customer for ${filesData[fileIndex].fileName}`);
+  };
+
+  const handleCustomerSelect = (customer: any) => {
+    if (activeFileEdit === null) return;
+
+    applyCustomer(activeFileEdit, customer);
     setActiveFileEdit(null);
     setCustomers([]);
   };
@@ -347,31 +532,10 @@ export function MappingPage() {
     setRowErrors(prev => ({ ...prev, [index]: errors }));
   };
 
-  // DROPDOWN POSITION STATE
-  const [dropdownPosition, setDropdownPosition] = useState<{ top: number, left: number, width: number } | null>(null);
-
-  useEffect(() => {
-     // Clear dropdown position when active row changes or becomes null
-     if (activeSearchRow === null) {
-         setDropdownPosition(null);
-     }
-  }, [activeSearchRow]);
-
-  const updateDropdownPosition = (element: HTMLElement) => {
-      const rect = element.getBoundingClientRect();
-      const scrollTop = window.scrollY || document.documentElement.scrollTop;
-      const scrollLeft = window.scrollX || document.documentElement.scrollLeft;
-
-      setDropdownPosition({
-          top: rect.bottom + scrollTop,
-          left: rect.left + scrollLeft,
-          width: rect.width
-      });
-  };
-
   /* ---------------- ADD ROW ---------------- */
   const addRow = () => {
     // Determine which file to attribute new row to? Default to first file (0)
+    history.record("Add manual item");
     setRows(prev => [
       ...prev,
       { ITEMDESC: "", searchQuery: "", ORDERQTY: "", manualProduct: null, isNew: true, _fileIndex: 0 }
@@ -380,48 +544,114 @@ export function MappingPage() {
   };
 
   const deleteRow = (index: number) => {
+    history.record(`Delete row ${index + 1}${rows[index]?.ITEMDESC ? ` (${rows[index].ITEMDESC})` : ""}`);
     setRows(prev => prev.filter((_, i) => i !== index));
   };
 
-  /* ---------------- HANDLE ROW CHANGE ---------------- */
-  const handleRowChange = (index: number, field: string, value: any) => {
+  /* ---------------- SELECT PRODUCT (DROPDOWN) ---------------- */
+  const selectProduct = (i: number, p: any) => {
+    history.record(`Row ${i + 1}: map to ${p.productName}`);
     setRows(prev => {
       const next = [...prev];
-      let updatedRow = { ...next[index], [field]: value };
 
-      if (field === 'matchedProduct') {
-          updatedRow.availableSchemes = undefined;
-          updatedRow.schemeApplied = false;
+      const boxPack = Number(p.boxPack) || 0;
+      const currentQty = Number(next[i].ORDERQTY) || 0;
+      let newPack = next[i].PACK; 
+      if (boxPack > 0 && currentQty > 0) {
+          const rawPack = currentQty / boxPack;
+          newPack = Number.isInteger(rawPack) ? rawPack : Number(rawPack.toFixed(2));
       }
 
-      if (field === 'ORDERQTY' || field === 'BOX PACK') {
-        if (field === 'ORDERQTY') updatedRow.schemeApplied = false;
-        
-        const qty = Number(field === 'ORDERQTY' ? value : updatedRow.ORDERQTY) || 0;
-        const boxPack = Number(field === 'BOX PACK' ? value : (updatedRow["BOX PACK"] || updatedRow.matchedProduct?.boxPack)) || 0;
+      // Copy, never mutate: undo snapshots share the row objects
+      next[i] = {
+        ...next[i],
+        // Blank manual rows take the product name
+        ITEMDESC: next[i].ITEMDESC?.trim() ? next[i].ITEMDESC : p.productName,
+        matchedProduct: p,
+        SAPCODE: p.productCode,
+        DVN: p.division,
+        mappingSource: "MANUAL",
+        availableSchemes: [],
+        "BOX PACK": boxPack > 0 ? boxPack : next[i]["BOX PACK"],
+        PACK: newPack
+      };
 
-        if (boxPack > 0) {
-          const rawPack = qty / boxPack;
-          updatedRow.PACK = Number.isInteger(rawPack) ? rawPack : Number(rawPack.toFixed(2));
-        }
+      // Fetch Schemes using File Context
+      const rowFileIdx = next[i]._fileIndex || 0;
+      const rowCust = filesData[rowFileIdx]?.customer;
+
+      if (rowCust?.code) {
+        api.get(`/orders/schemes/product/${p.productCode}`, {
+          params: {
+            customerCode: rowCust.code,
+            division: p.division,
+            state: rowCust.state,
+            customerType: rowCust.customerType,
+            date: toDayKey(new Date())
+          }
+        }).then(res => {
+          if (res.data?.schemes?.length > 0) {
+            setRows(curr => {
+              const updated = [...curr];
+              if (updated[i]) {
+                  updated[i] = {
+                    ...updated[i],
+                    availableSchemes: res.data.schemes
+                  };
+              }
+              return updated;
+            });
+          }
+        });
       }
+      return next;
+    });
+  };
 
-      next[index] = updatedRow;
+  /* ---------------- CONFIRM SHAKY MATCH ---------------- */
+  const confirmMatch = (indices: number[]) => {
+    if (indices.length === 0) return;
+    history.record(indices.length === 1 ? `Row ${indices[0] + 1}: confirm match` : `Confirm ${indices.length} matches`);
+    setRows(prev => prev.map((r, idx) => (indices.includes(idx) ? { ...r, matchConfirmed: true } : r)));
+  };
 
-      if (field === 'ORDERQTY') {
-        if (!value || isNaN(Number(value)) || Number(value) <= 0) {
-          setRowErrors(errs => ({ ...errs, [index]: ["Invalid Qty"] }));
-        } else {
-          setRowErrors(errs => {
-            const newErrs = { ...errs };
-            delete newErrs[index];
-            return newErrs;
-          });
-        }
-      }
+  /* ---------------- HANDLE ROW CHANGE ---------------- */
+  // One undo step for a batch of cell changes (grid edit, paste, fill-down)
+  const applyRowChanges = (changes: CellChange[], label: string, mergeKey?: string) => {
+    if (changes.length === 0) return;
+    history.record(label, mergeKey);
 
+    setRows(prev => {
+      const next = [...prev];
+      changes.forEach(({ rowIndex, key, value }) => {
+        if (next[rowIndex]) next[rowIndex] = withRowField(next[rowIndex], key, value);
+      });
       return next;
     });
+
+    const qtyChanges = changes.filter(c => c.key === "ORDERQTY");
+    if (qtyChanges.length > 0) {
+      setRowErrors(errs => {
+        const newErrs = { ...errs };
+        qtyChanges.forEach(({ rowIndex, value }) => {
+          if (!value || isNaN(Number(value)) || Number(value) <= 0) newErrs[rowIndex] = ["Invalid Qty"];
+          else delete newErrs[rowIndex];
+        });
+        return newErrs;
+      });
+    }
+  };
+
+  const handleRowChange = (index: number, field: string, value: any) => {
+    // Consecutive edits of one row undo together
+    applyRowChanges([{ rowIndex: index, key: field, value }], describeRowChange(index, field, value), `row:${index}`);
+  };
+
+  const clearProducts = (indices: number[]) => {
+    applyRowChanges(
+      indices.map(rowIndex => ({ rowIndex, key: "matchedProduct", value: null })),
+      indices.length === 1 ? describeRowChange(indices[0], "matchedProduct", null) : `Clear ${indices.length} products`
+    );
   };
 
   /* ---------------- FETCH SCHEMES ---------------- */
@@ -448,7 +678,13 @@ export function MappingPage() {
                 }
 
                 const res = await api.get(`/orders/schemes/product/${r.matchedProduct.productCode}`, {
-                    params: { customerCode: fileCust.code, division: r.matchedProduct.division }
+                    params: {
+                        customerCode: fileCust.code,
+                        division: r.matchedProduct.division,
+                        state: fileCust.state,
+                        customerType: fileCust.customerType,
+                        date: toDayKey(new Date())
+                    }
                 });
                 updates[i] = res.data?.schemes || [];
             } catch (err) {
@@ -476,31 +712,14 @@ export function MappingPage() {
   }, [filesData, rows]);
 
   /* ---------------- CALCULATE SCHEME INFO ---------------- */
+  // Schemes are evaluated against the customer of the row's source file (validity + targeting)
   const getSchemeInfo = (row: any) => {
-      if (!row.availableSchemes || row.availableSchemes.length === 0) return null;
-      
-      const qty = Number(row.ORDERQTY) || 0;
-      
-      // 1. Get explicit slabs
-      const scheme = row.availableSchemes[0];
-      if (!scheme || !scheme.slabs) return null;
-
-      // 2. Generate Virtual Slabs using Engine
-      const allSlabs = FrontendSchemeEngine.generateVirtualSlabs(scheme.slabs, qty);
-      
-      // 3. Find Active Slab (Benefit already achieved)
-      const execution = FrontendSchemeEngine.calculate(qty, allSlabs);
-      const activeSlab = execution.appliedSlab;
-      
-      // 4. Find Next Slab (Upsell)
-      // Find the first slab strictly greater than current qty
-      const nextSlab = allSlabs.find(s => s.minQty > qty);
-      
-      return {
-          active: activeSlab ? { ...activeSlab, totalFree: execution.freeQty } : null,
-          next: nextSlab,
-          all: allSlabs
-      };
+      const fileCust = filesData[row._fileIndex !== undefined ? row._fileIndex : 0]?.customer;
+      return SchemeEngine.getSchemeInfo(row.availableSchemes, row.ORDERQTY, {
+          customerCode: fileCust?.code,
+          customerType: fileCust?.customerType,
+          state: fileCust?.state
+      });
   };
 
   /* 📋 SHEET MANAGEMENT FUNCTIONS (unchanged logic works on unified rows) */
@@ -543,12 +762,14 @@ export function MappingPage() {
     
     console.log("New Sheet Object:", newSheet);
 
+    history.record(`Create ${newSheet.name} (${selectedRows.length} products)`);
     setSheets(prev => [...prev, newSheet]);
     setSelectedRows([]);
     toast.success(`Created ${newSheet.name} with ${selectedRows.length} products`);
   };
 
   const removeSheet = (sheetId: string) => {
+    history.record(`Remove ${sheets.find(s => s.id === sheetId)?.name || "sheet"}`);
     setSheets(prev => prev.filter(s => s.id !== sheetId));
     toast.success("Sheet removed");
   };
@@ -569,7 +790,13 @@ export function MappingPage() {
       });
 
       if (res.data?.suggestions?.length > 0) {
-        setSchemeSuggestions(res.data.suggestions);
+        // Explain which schemes would apply at the suggested quantity
+        setSchemeSuggestions(res.data.suggestions.map((s: any) => ({
+          ...s,
+          decisions: rows[s.rowIndex]
+            ? getSchemeInfo({ ...rows[s.rowIndex], ORDERQTY: s.suggestedQty })?.resolution.decisions
+            : undefined
+        })));
         setShowSchemeModal(true);
         return false;
       }
@@ -587,6 +814,15 @@ export function MappingPage() {
   };
 
   /* ---------------- CONVERT ---------------- */
+  // One entry per prior upload, even if several files match it
+  const flaggedDuplicates: DuplicateMatch[] = React.useMemo(() => {
+    const byId = new Map<string, DuplicateMatch>();
+    filesData.forEach(f => (f.duplicates || []).forEach((d: DuplicateMatch) => {
+      if (!byId.has(d.uploadId)) byId.set(d.uploadId, d);
+    }));
+    return [...byId.values()];
+  }, [filesData]);
+
   const handleConvert = async () => {
     const currentErrors: Record<number, string[]> = {};
     rows.forEach((row, i) => {
@@ -614,8 +850,33 @@ export function MappingPage() {
       return;
     }
 
+    // 🎯 Low-confidence auto matches must be looked at
+    const unreviewed = rows.filter(r => needsReview(r, matchThresholds)).length;
+    if (unreviewed > 0) {
+      if (matchThresholds.onUnreviewed === "block") {
+        setShowReviewOnly(true);
+        toast.error(`${unreviewed} low-confidence match(es) need review before converting`);
+        return;
+      }
+      if (!confirm(`${unreviewed} low-confidence match(es) have not been reviewed. Convert anyway?`)) {
+        setShowReviewOnly(true);
+        return;
+      }
+    }
+
+    // 🔁 Looks like an order already converted: needs a reason to go ahead
+    if (flaggedDuplicates.length > 0) {
+      setDuplicatePrompt(flaggedDuplicates);
+      return;
+    }
+
+    await submitConversion();
+  };
+
+  const submitConversion = async (duplicateOverride?: DuplicateOverride) => {
     try {
       setConverting(true);
+      convertedRef.current = true;
 
       const cleanRows = rows.map(r => {
         // 🔥 AUTO-APPLY: Always calculate scheme benefits based on quantity (Production Mode)
@@ -631,8 +892,10 @@ export function MappingPage() {
           matchedProduct: r.matchedProduct ? { ...r.matchedProduct } : null,
           ITEMDESC: r.ITEMDESC,
           // 🔥 PASS STORED SCHEME VALUES TO BACKEND (Source of Truth)
-          freeQty: schemeInfo?.active ? schemeInfo.active.totalFree : 0,
-          schemePercent: schemeInfo?.active?.schemePercent || 0,
+          freeQty: schemeInfo?.resolution.freeQty || 0,
+          schemePercent: schemeInfo?.resolution.schemePercent || 0,
+          // 🔥 WHICH SCHEMES WERE APPLIED / SKIPPED AND WHY (persisted into scheme details)
+          schemeDecisions: schemeInfo?.resolution.decisions || [],
           // 🔥 PER-ROW CUSTOMER CONTEXT
           customerCode: rowCust.code,
           customerName: rowCust.name
@@ -647,12 +910,40 @@ export function MappingPage() {
         uploadId,
         customerCode: primaryCustomer,
         dataRows: cleanRows,
-        sheets: sheets.map(s => ({ name: s.name, productIndices: s.productIndices }))
+        sheets: sheets.map(s => ({ name: s.name, productIndices: s.productIndices })),
+        outputTemplateId: outputTemplateId || null,
+        duplicateOverride: duplicateOverride || null
       });
 
+      // 🧠 LEARN: remember manual mappings per customer (best effort, never blocks)
+      const aliases = cleanRows
+        .filter(r => r.mappingSource === "MANUAL" && !r.isNew && r.ITEMDESC && r.matchedProduct?.productCode)
+        .map(r => ({
+          customerCode: r.customerCode,
+          invoiceDesc: r.ITEMDESC,
+          productCode: r.matchedProduct.productCode
+        }));
+      saveProductAliases(aliases).catch(err => console.error("Alias save failed", err));
+
+      // Draft is done with once the order is converted; a save still in
+      // flight must land first or it would bring the draft back
+      if (uploadId) {
+        Promise.resolve(draftSaveRef.current)
+          .catch(() => {})
+          .then(() => deleteMappingDraft(uploadId))
+          .catch(err => console.error("Draft delete failed", err));
+      }
+
       toast.success("Order processed successfully");
       navigate(`/result/${res.data.uploadId}`);
     } catch (err: any) {
+      // Not converted: keep autosaving
+      convertedRef.current = false;
+      // Flagged server-side (e.g. a matching order was converted meanwhile)
+      if (err.response?.status === 409 && err.response?.data?.code === "DUPLICATE_ORDER") {
+        setDuplicatePrompt(err.response.data.duplicates || flaggedDuplicates);
+        return;
+      }
       toast.error(err.response?.data?.message || "Conversion failed");
     } finally {
       setConverting(false);
@@ -660,15 +951,21 @@ export function MappingPage() {
   };
 
   // Group Data Logic
+  const reviewIndices = React.useMemo(
+    () => rows.map((r, i) => (needsReview(r, matchThresholds) ? i : -1)).filter(i => i !== -1),
+    [rows, matchThresholds]
+  );
+
   const groupedData = React.useMemo(() => {
     const groups: Record<string, any[]> = {};
     rows.forEach((row, index) => {
+      if (showReviewOnly && !reviewIndices.includes(index)) return;
       const div = row.DVN || row.Division || row.DIVISION || row.division || row.dvn || row.matchedProduct?.division || "Unassigned";
       if (!groups[div]) groups[div] = [];
       groups[div].push({ row, originalIndex: index });
     });
     return groups;
-  }, [rows]);
+  }, [rows, showReviewOnly, reviewIndices]);
 
   const sortedDivisions = Object.keys(groupedData).sort();
 
@@ -676,6 +973,12 @@ export function MappingPage() {
   // UNIVERSAL ROUND OFF
   const handleUniversalRoundOff = () => {
     let updatedCount = 0;
+    const needsRounding = rows.some(row => {
+      const boxPack = Number(row["BOX PACK"] || row.matchedProduct?.boxPack || 0);
+      const currentQty = Number(row.ORDERQTY || 0);
+      return boxPack > 0 && currentQty > 0 && currentQty % boxPack !== 0;
+    });
+    if (needsRounding) history.record("Round off all quantities to box pack");
     setRows(prevRows => {
       return prevRows.map(row => {
         const boxPack = Number(row["BOX PACK"] || row.matchedProduct?.boxPack || 0);
@@ -705,6 +1008,339 @@ export function MappingPage() {
     }
   };
 
+  // Source file + position of the row being edited
+  const sourceRow = focusedRow !== null ? rows[focusedRow] : null;
+  const sourceFile = filesData[sourceRow?._fileIndex || 0];
+  const sourceHighlight: SourceHighlight = sourceRow?._source
+    ? { sheet: sourceRow._source.sheet, row: sourceRow._source.row }
+    : sourceRow?._ocr
+      ? { page: sourceRow._ocr.page, bbox: sourceRow._ocr.bbox }
+      : null;
+
+  /* ---------------- GRID COLUMNS ---------------- */
+  const productOptions = (query: string, row: any): GridOption[] => {
+    // 🧠 Ranked candidates from the matcher (score + reasons) come first
+    const candidates: GridOption[] = (row.candidates || []).map((c: any) => {
+      const p = allProducts.find(prod => prod.productCode === c.productCode) || c;
+      return {
+        value: p,
+        label: formatProductDisplay(p),
+        hint: `${c.productCode}${c.reasons?.length > 0 ? ` · ${c.reasons.join(" · ")}` : ""}`,
+        section: "Suggested matches",
+        badge: (
+          <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${
+            c.score >= 0.8 ? "bg-green-100 text-green-700"
+              : c.score >= 0.6 ? "bg-amber-100 text-amber-700"
+              : "bg-neutral-100 text-neutral-600"
+          }`}>
+            {Math.round(c.score * 100)}%
+          </span>
+        )
+      };
+    });
+
+    if (query.trim().length < 2) return candidates;
+
+    const found = searchProducts(allProducts, query, (row.candidates || []).map((c: any) => c.productCode));
+    return [
+      ...candidates,
+      ...found.map(p => ({ value: p, label: formatProductDisplay(p), hint: p.productCode, section: candidates.length > 0 ? "All products" : undefined }))
+    ];
+  };
+
+  const gridColumns: GridColumn[] = [
+    {
+      key: "ITEMDESC",
+      label: "Invoice Item",
+      headerClassName: "w-[15%]",
+      cellClassName: "text-base text-neutral-700 font-medium break-words",
+      getValue: row => row._rawText || row.ITEMDESC || "",
+      render: (row, i) => {
+        const fileIdx = row._fileIndex !== undefined ? row._fileIndex : 0;
+        return (
+          <>
+            {row._rawText || row.ITEMDESC || "(No Name)"}
+            {row._ocr && (() => {
+                const conf = Math.min(
+                  row._ocr.confidence?.ITEMDESC ?? 1,
+                  row._ocr.confidence?.ORDERQTY ?? 1
+                );
+                return (
+                  <button
+                    onClick={() => setOcrViewRow(i)}
+                    className={`ml-1.5 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-semibold align-middle ${
+                      conf >= 0.8 ? "bg-green-100 text-green-700"
+                        : conf >= 0.6 ? "bg-amber-100 text-amber-700"
+                        : "bg-red-100 text-red-700"
+                    }`}
+                    title={`Read by OCR from page ${row._ocr.page} – click to see where`}
+                  >
+                    OCR {Math.round(conf * 100)}%
+                  </button>
+                );
+            })()}
+            {filesData.length > 1 && (
+                <div className="text-[10px] text-neutral-400 font-normal mt-0.5">
+                    {filesData[fileIdx]?.fileName?.slice(0, 15)}...
+                </div>
+            )}
+          </>
+        );
+      }
+    },
+    {
+      key: "matchedProduct",
+      label: "Mapped Product",
+      headerClassName: "w-[25%]",
+      editable: true,
+      placeholder: "Search...",
+      getValue: row => (row.matchedProduct ? formatProductDisplay(row.matchedProduct) : ""),
+      initialQuery: row => row.searchQuery ?? row.ITEMDESC ?? "",
+      options: productOptions,
+      onSelectOption: (i, opt) => selectProduct(i, opt.value),
+      onClear: clearProducts,
+      render: (row, i) => (
+        <div className="flex flex-col gap-1">
+          {row.matchedProduct ? (
+            <div
+              className="flex items-center justify-between px-2 py-1.5 bg-green-50 border border-green-200 rounded group"
+              title="Type or press Enter to change, Delete to clear"
+            >
+              <div className="overflow-hidden">
+                  <div className="font-semibold text-black truncate text-base">
+                    {formatProductDisplay(row.matchedProduct)}
+                  </div>
+                  <div className="text-[10px] text-black-700">
+                    #{row.matchedProduct.productCode}
+                  </div>
+              </div>
+              <Edit2 className="w-3 h-3 text-green-600 opacity-0 group-hover:opacity-100" />
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 w-full text-base border rounded px-2 py-1.5 text-neutral-400">
+              <Search className="w-4 h-4" />
+              <span className="truncate">{row.searchQuery || row.ITEMDESC || "Search..."}</span>
+            </div>
+          )}
+
+          {/* SCHEME BADGES */}
+          {row.matchedProduct && row.availableSchemes?.length > 0 && !row.schemeApplied && (
+             (() => {
+                 const schemeInfo = getSchemeInfo(row);
+                 const { active, next, all } = schemeInfo || {};
+                 if (!active && !next && (!all || all.length === 0)) return null;
+
+                 return (
+                  <div className="mt-1 flex flex-wrap gap-2">
+                      {active && (
+                          <button
+                              className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[14px] bg-green-50 text-green-700 border border-green-200 cursor-pointer"
+                              onClick={() => {
+                                  // Only bump quantity if less than min, otherwise just apply
+                                  const current = Number(row.ORDERQTY) || 0;
+                                  if (current < active.minQty) {
+                                      handleRowChange(i, "ORDERQTY", active.minQty);
+                                  }
+                                  handleRowChange(i, "schemeApplied", true);
+                              }}
+                          >
+                              <Gift className="w-4 h-4" />
+                              <span>{active.minQty}+{active.totalFree} Free</span>
+                          </button>
+                      )}
+
+                      {next && (
+                          <button
+                              className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[14px] bg-blue-50 text-blue-700 border border-blue-200 cursor-pointer"
+                              onClick={() => {
+                                  handleRowChange(i, "ORDERQTY", next.minQty);
+                                  handleRowChange(i, "schemeApplied", true);
+                              }}
+                          >
+                              <Zap className="w-4 h-4 text-blue-600 fill-blue-600" />
+                              <span>
+                                  Add {next.minQty - (Number(row.ORDERQTY) || 0)} → {next.freeQty} Free
+                              </span>
+                          </button>
+                      )}
+                 </div>
+                );
+            })()
+          )}
+        </div>
+      )
+    },
+    {
+      key: "ORDERQTY",
+      label: "Qty",
+      headerClassName: "w-[10%] text-center",
+      cellClassName: "text-center",
+      numeric: true,
+      // An applied scheme locks the quantity until it is removed
+      editable: row => !(row.schemeApplied && getSchemeInfo(row)?.active),
+      render: (row, i) => {
+         const info = getSchemeInfo(row);
+         if (info?.active && row.schemeApplied) {
+             return (
+                 <button onClick={() => handleRowChange(i, "schemeApplied", false)} className="cursor-pointer bg-green-50 text-green-800 text-sm font-bold px-2 py-1 rounded border border-green-200">
+                    {row.ORDERQTY} + {info.active.totalFree}
+                 </button>
+             );
+         }
+         const lowOcr = row._ocr?.confidence?.ORDERQTY < 0.6;
+         return (
+            <div
+              className={`inline-block min-w-[5rem] text-base font-semibold px-1 py-1 border rounded ${
+                rowErrors[i]?.length > 0 ? "border-red-500 bg-red-50"
+                  : lowOcr ? "border-amber-400 bg-amber-50"
+                  : "border-neutral-300"
+              }`}
+              title={lowOcr ? "Quantity read by OCR with low confidence – please check" : undefined}
+            >
+              {row.ORDERQTY || <span className="text-neutral-300">0</span>}
+            </div>
+         );
+      }
+    },
+    {
+      key: "BOX PACK",
+      label: "Box",
+      headerClassName: "w-[8%] text-center",
+      cellClassName: "text-center",
+      numeric: true,
+      editable: true,
+      getValue: row => row["BOX PACK"] || row.matchedProduct?.boxPack || "",
+      render: (row, i) => (
+        <div className="flex items-center justify-center gap-1">
+          <span className="inline-block w-12 text-sm px-1 py-1 border rounded bg-neutral-50">
+            {row["BOX PACK"] || row.matchedProduct?.boxPack || "-"}
+          </span>
+          {Number(row["BOX PACK"] || row.matchedProduct?.boxPack) > 0 && (
+              <button
+                onClick={() => {
+                    const bp = Number(row["BOX PACK"] || row.matchedProduct?.boxPack);
+                    const qty = Number(row.ORDERQTY) || 0;
+                    if(bp > 0 && qty > 0) {
+                        const newQty = Math.ceil(qty / bp) * bp;
+                        handleRowChange(i, "ORDERQTY", newQty);
+                    }
+                }}
+                className="text-neutral-400 hover:text-blue-600"
+                title="Round Up"
+              >
+                  <RefreshCw className="w-5 h-5 ml-4" />
+              </button>
+          )}
+        </div>
+      )
+    },
+    {
+      key: "PACK",
+      label: "Pack",
+      headerClassName: "w-[6%] text-center",
+      cellClassName: "text-center text-sm font-medium text-neutral-600",
+      render: row => row.PACK || "-"
+    },
+    {
+      key: "DVN",
+      label: "Division",
+      headerClassName: "w-[10%] text-center",
+      cellClassName: "text-center text-sm text-neutral-600",
+      getValue: row => row.matchedProduct?.division || row.DVN || "",
+      render: row => row.matchedProduct?.division || row.DVN || "-"
+    },
+    {
+      key: "sheet",
+      label: "Sheet",
+      headerClassName: "w-[8%] text-center",
+      cellClassName: "text-center",
+      getValue: row => getProductSheet(rows.indexOf(row))?.name || "",
+      render: (_row, i) => {
+        const sheet = getProductSheet(i);
+        return sheet ? (
+          <Badge className={`${sheet.color.badge} ${sheet.color.text} text-xs`}>
+            {sheet.name}
+          </Badge>
+        ) : (
+          <input
+            type="checkbox"
+            checked={selectedRows.includes(i)}
+            onChange={() => toggleRowSelection(i)}
+            className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+        );
+      }
+    },
+    {
+      key: "status",
+      label: "Status",
+      headerClassName: "w-[8%] text-center",
+      cellClassName: "text-center",
+      getValue: row => (row.matchedProduct ? getMatchConfidenceLevel(row, matchThresholds) : "UNMATCHED"),
+      render: (row, i) =>
+        row.matchedProduct && row.mappingSource === "ALIAS" ? (
+          <div
+            className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+            title="Mapped from a previously confirmed mapping for this customer"
+          >
+            Learned
+          </div>
+        ) : row.matchedProduct && needsReview(row, matchThresholds) ? (
+          <button
+            onClick={() => confirmMatch([i])}
+            className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${
+              getMatchConfidenceLevel(row, matchThresholds) === "LOW"
+                ? "bg-red-100 text-red-800 hover:bg-red-200"
+                : "bg-orange-100 text-orange-800 hover:bg-orange-200"
+            }`}
+            title="Low-confidence auto match – click to confirm it is correct"
+          >
+            Review {Math.round(Number(row.matchConfidence) * 100)}%
+            <Check className="w-3 h-3" />
+          </button>
+        ) : row.matchedProduct ? (
+          <div className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+            OK
+          </div>
+        ) : (
+          <div className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+            Map
+          </div>
+        )
+    },
+    {
+      key: "delete",
+      label: "Del",
+      headerClassName: "w-[5%] text-center",
+      cellClassName: "text-center",
+      getValue: () => "",
+      render: (_row, i) => (
+        <button
+          onClick={() => deleteRow(i)}
+          className="text-neutral-400 hover:text-red-500 transition-colors"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      )
+    }
+  ];
+
+  const gridGroups: GridGroup[] = sortedDivisions.map(division => ({
+    key: division,
+    collapsed: !expandedDivisions[division],
+    rowIndices: groupedData[division].map(({ originalIndex }) => originalIndex),
+    label: (
+      <>
+        <span className="font-semibold text-blue-900 text-sm">
+          {division}
+        </span>
+        <Badge className="bg-blue-100 text-blue-700 hover:bg-blue-200">
+          {groupedData[division].length}
+        </Badge>
+      </>
+    )
+  }));
+
   return (
     <div className="min-h-screen bg-slate-50 pb-20 ">
       <div className="w-full py-2 space-y-6">
@@ -715,6 +1351,11 @@ export function MappingPage() {
               <h1 className="text-2xl font-bold text-slate-900">Map Products</h1>
               <p className="text-slate-500 text-sm mt-1">
                  Processing {filesData.length} files • {rows.length} total rows
+                 {draftStatus === "saving" && <span className="ml-2 text-slate-400">• Saving draft...</span>}
+                 {draftStatus === "saved" && draftSavedAt && (
+                   <span className="ml-2 text-green-600">• Draft saved {draftSavedAt.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}</span>
+                 )}
+                 {draftStatus === "error" && <span className="ml-2 text-red-500">• Draft not saved</span>}
               </p>
            </div>
            
@@ -725,6 +1366,28 @@ export function MappingPage() {
            </div>
         </div>
 
+        {/* 🔁 POSSIBLE DUPLICATE ORDERS */}
+        {flaggedDuplicates.length > 0 && (
+            <Alert variant="warning">
+                <AlertTriangle className="w-4 h-4" />
+                <AlertDescription>
+                    <p className="font-medium">This looks like an order that was already converted</p>
+                    <ul className="mt-1 space-y-0.5 text-sm">
+                        {filesData.flatMap((file, idx) => (file.duplicates || []).map((d: DuplicateMatch) => (
+                            <li key={`${idx}-${d.uploadId}`}>
+                                {file.fileName} matches{" "}
+                                <Link to={`/result/${d.uploadId}`} target="_blank" className="underline font-medium">
+                                    {d.orderRef || d.fileName}
+                                </Link>{" "}
+                                ({describeDuplicate(d)}, {new Date(d.createdAt).toLocaleDateString()})
+                            </li>
+                        )))}
+                    </ul>
+                    <p className="text-xs mt-1">You'll be asked for a reason if you process it anyway.</p>
+                </AlertDescription>
+            </Alert>
+        )}
+
         {/* 📂 FILE & CUSTOMER CONFIGURATION GRID */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {filesData.map((file, idx) => (
@@ -736,9 +1399,23 @@ export function MappingPage() {
                                  {file.fileName}
                              </div>
                         </div>
-                        <Badge variant="neutral" className="text-xs">
-                             {rows.filter(r => r._fileIndex === idx).length} Rows
-                        </Badge>
+                        <div className="flex items-center gap-1">
+                            {file.extraction?.method === "OCR" && (
+                                <Badge
+                                    variant="warning"
+                                    className="text-xs"
+                                >
+                                    OCR · {file.extraction.pages?.length || 0} pg
+                                    {file.extraction.pages?.length > 0 && ` · ${Math.round(
+                                        file.extraction.pages.reduce((sum: number, p: any) => sum + (p.meanConfidence || 0), 0) /
+                                        file.extraction.pages.length * 100
+                                    )}%`}
+                                </Badge>
+                            )}
+                            <Badge variant="neutral" className="text-xs">
+                                 {rows.filter(r => r._fileIndex === idx).length} Rows
+                            </Badge>
+                        </div>
                     </div>
 
                     {/* Customer Selection for this File */}
@@ -780,7 +1457,14 @@ export function MappingPage() {
                              >
                                  {file.customer?.name ? (
                                      <div>
-                                         <div className="font-medium text-sm text-slate-700">{file.customer.name}</div>
+                                         <div className="font-medium text-sm text-slate-700">
+                                             {file.customer.name}
+                                             {file.customer.source === 'AUTO' && (
+                                                 <span className="ml-1.5 px-1.5 py-0.5 rounded bg-blue-100 text-blue-700 text-[10px] font-semibold align-middle">
+                                                     Auto-detected
+                                                 </span>
+                                             )}
+                                         </div>
                                          <div className="text-xs text-slate-400">{file.customer.code} • {file.customer.city}</div>
                                      </div>
                                  ) : (
@@ -791,6 +1475,52 @@ export function MappingPage() {
                                  <Edit2 className="w-3 h-3 text-slate-300" />
                              </div>
                         )}
+
+                        {/* 🔍 DETECTED CANDIDATES (one-click pick with evidence, stays after a pick so it can be changed) */}
+                        {activeFileEdit !== idx && file.customer?.candidates?.length > 0 && (
+                            <div className="mt-2 pt-2 border-t border-slate-200 space-y-1">
+                                <div className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">
+                                    Detected from document
+                                </div>
+                                {file.customer.candidates.slice(0, 3).map((cand: any) => {
+                                    const c = cand.customer || cand;
+                                    const isSelected = c.customerCode === file.customer?.code;
+                                    return (
+                                        <button
+                                            key={c.customerCode}
+                                            onClick={() => !isSelected && applyCustomer(idx, c)}
+                                            className={`w-full text-left px-2 py-1.5 rounded border text-xs transition-colors ${
+                                                isSelected
+                                                    ? 'bg-green-50 border-green-200'
+                                                    : 'bg-white border-slate-200 hover:bg-blue-50 hover:border-blue-200'
+                                            }`}
+                                        >
+                                            <div className="flex items-center justify-between gap-2">
+                                                <span className="font-medium text-slate-700 truncate">{c.customerName}</span>
+                                                {isSelected ? (
+                                                    <Check className="w-3 h-3 text-green-600 shrink-0" />
+                                                ) : (
+                                                    <span className="text-slate-400 shrink-0">{c.customerCode}</span>
+                                                )}
+                                            </div>
+                                            {cand.evidence?.length > 0 && (
+                                                <div className="flex flex-wrap gap-1 mt-1">
+                                                    {cand.evidence.map((e: any) => (
+                                                        <span
+                                                            key={e.field}
+                                                            title={String(e.value)}
+                                                            className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-600 text-[10px] font-medium"
+                                                        >
+                                                            {CUSTOMER_EVIDENCE_LABELS[e.field] || e.field} ✓
+                                                        </span>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        )}
                     </div>
                 </Card>
             ))}
@@ -815,428 +1545,115 @@ export function MappingPage() {
             </div>
             
             <div className="flex gap-2">
+                 {(reviewIndices.length > 0 || showReviewOnly) && (
+                     <Button
+                         size="sm"
+                         type="button"
+                         variant="secondary"
+                         onClick={() => setShowReviewOnly(v => !v)}
+                         className={showReviewOnly ? "bg-orange-100 text-orange-800 border-orange-300" : ""}
+                     >
+                         <AlertTriangle className="w-4 h-4 mr-1" />
+                         {showReviewOnly ? "Show All" : `Needs Review (${reviewIndices.length})`}
+                     </Button>
+                 )}
+                 {showReviewOnly && reviewIndices.length > 0 && (
+                     <Button size="sm" type="button" variant="secondary" onClick={() => confirmMatch(reviewIndices)}>
+                         <Check className="w-4 h-4 mr-1" /> Confirm All
+                     </Button>
+                 )}
+                 <Button
+                     size="sm"
+                     type="button"
+                     variant="secondary"
+                     onClick={() => setShowSource(v => !v)}
+                     className={showSource ? "bg-blue-100 text-blue-800 border-blue-300" : ""}
+                 >
+                     <FileText className="w-4 h-4 mr-1" /> {showSource ? "Hide Source" : "Show Source"}
+                 </Button>
                  <Button size="sm" type="button" variant="secondary" onClick={createNewSheet} disabled={selectedRows.length === 0}>
                      <Package className="w-4 h-4 mr-1" /> Group into Sheet
                  </Button>
                  <Button size="sm" variant="secondary" onClick={addRow}>
                      + Add Manual Item
                  </Button>
+                 <div className="flex items-center gap-1 border-l border-slate-200 pl-2">
+                     <Button size="sm" type="button" variant="ghost" onClick={handleUndo} disabled={!history.canUndo} title="Undo (Ctrl+Z)">
+                         <Undo2 className="w-4 h-4" />
+                     </Button>
+                     <Button size="sm" type="button" variant="ghost" onClick={handleRedo} disabled={!history.canRedo} title="Redo (Ctrl+Shift+Z)">
+                         <Redo2 className="w-4 h-4" />
+                     </Button>
+                     <Button
+                         size="sm"
+                         type="button"
+                         variant="ghost"
+                         onClick={() => setShowHistory(v => !v)}
+                         className={showHistory ? "bg-slate-100" : ""}
+                     >
+                         <History className="w-4 h-4 mr-1" /> Changes ({history.past.length})
+                     </Button>
+                 </div>
             </div>
         </Card>
 
-        {/* 📊 MAPPING TABLE */}
-        <Card className="mt-6 border border-neutral-200 overflow-hidden shadow-sm bg-white">
+        {/* 📊 MAPPING TABLE (+ optional source viewer split) */}
+        <ResizablePanelGroup
+          direction="horizontal"
+          className={`mt-6 ${showSource ? "!h-[78vh] gap-1" : ""}`}
+        >
+        <ResizablePanel id="mapping-grid" order={1} defaultSize={showSource ? 60 : 100} minSize={35}>
+        <Card className={`border border-neutral-200 overflow-hidden shadow-sm bg-white ${showSource ? "h-full !overflow-auto" : ""}`}>
           <div className="overflow-x-auto rounded-xl">
-            <table className="w-full text-left border-collapse">
-              <thead>
-                <tr className="bg-neutral-50 border-b border-neutral-200 text-neutral-500 text-base uppercase tracking-wider">
-                  <th className="px-3 py-3 w-[15%]">Invoice Item</th>
-                  <th className="px-3 py-3 w-[25%]">Mapped Product</th>
-                  <th className="px-3 py-3 w-[10%] text-center">Qty</th>
-                  <th className="px-3 py-3 w-[8%] text-center">Box</th>
-                  <th className="px-3 py-3 w-[6%] text-center">Pack</th>
-                  <th className="px-3 py-3 w-[10%] text-center">Division</th>
-                  <th className="px-3 py-3 w-[8%] text-center">Sheet</th>
-                  <th className="px-3 py-3 w-[8%] text-center">Status</th>
-                  <th className="px-3 py-3 w-[5%] text-center">Del</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-neutral-100">
-                {sortedDivisions.map(division => {
-                  const isExpanded = expandedDivisions[division];
-                  const groupRows = groupedData[division];
-
-                  return (
-                    <React.Fragment key={division}>
-                      {/* DIVISION HEADER */}
-                      <tr
-                        onClick={() => toggleDivision(division)}
-                        className="bg-blue-50/50 hover:bg-blue-50 cursor-pointer transition-colors"
-                      >
-                        <td colSpan={9} className="px-3 py-2">
-                          <div className="flex items-center gap-2">
-                            {isExpanded ? (
-                              <ChevronDown className="w-4 h-4 text-blue-600" />
-                            ) : (
-                              <ChevronRight className="w-4 h-4 text-blue-600" />
-                            )}
-                            <span className="font-semibold text-blue-900 text-sm">
-                              {division}
-                            </span>
-                            <Badge className="bg-blue-100 text-blue-700 hover:bg-blue-200">
-                              {groupRows.length}
-                            </Badge>
-                          </div>
-                        </td>
-                      </tr>
-
-                      {/* ROWS */}
-                      {isExpanded && groupRows.map(({ row, originalIndex: i }) => {
-                        const hasError = rowErrors[i]?.length > 0;
-                        const sheet = getProductSheet(i);
-                        const fileIdx = row._fileIndex !== undefined ? row._fileIndex : 0;
-                        const fileColor = fileIdx % 2 === 0 ? 'bg-white' : 'bg-neutral-50/30'; // Subtle alternation?
-                        
-                        return (
-                          <tr
-                            key={i}
-                            className={`
-                              hover:bg-neutral-50 transition-colors
-                              ${hasError ? "bg-red-50" : ""}
-                              ${sheet ? sheet.color.bg : ""}
-                            `}
-                          >
-                              {/* 1: INVOICE ITEM */}
-                                <td className="px-3 py-2 align-middle text-base text-neutral-700 font-medium break-words">
-                                    {row._rawText || row.ITEMDESC || "(No Name)"}
-                                    {filesData.length > 1 && (
-                                        <div className="text-[10px] text-neutral-400 font-normal mt-0.5">
-                                            {filesData[fileIdx]?.fileName?.slice(0, 15)}...
-                                        </div>
-                                    )}
-                                </td>
-
-                                {/* 2: MAPPED PRODUCT */}
-                                <td className="px-3 py-2 align-middle">
-                                  <div className="flex flex-col gap-1">
-                                    <div className="w-full" id={`cell-search-${i}`}>
-                                      {!row.matchedProduct ? (
-                                        <div className="relative">
-                                          <div className="relative">
-                                              <Search className="absolute left-2 top-2 w-4 h-4 text-neutral-400" />
-                                              <input
-                                                type="text"
-                                                value={row.searchQuery ?? row.ITEMDESC ?? ""}
-                                                onChange={(e) => {
-                                                  handleRowChange(i, "searchQuery", e.target.value);
-                                                }}
-                                                placeholder="Search..."
-                                                className="w-full text-base border rounded pl-8 pr-2 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                                                onFocus={(e) => {
-                                                    setActiveSearchRow(i);
-                                                    updateDropdownPosition(e.currentTarget.parentElement?.parentElement as HTMLElement);
-                                                }}
-                                                onClick={(e) => {
-                                                    setActiveSearchRow(i);
-                                                    updateDropdownPosition(e.currentTarget.parentElement?.parentElement as HTMLElement);
-                                                }}
-                                              />
-                                          </div>
-                                          
-                                          {/* PORTAL DROPDOWN */}
-                                          {activeSearchRow === i && (row.searchQuery?.length >= 2 || row.ITEMDESC?.length >= 2) && dropdownPosition && createPortal(
-                                            <div 
-                                                id="portal-dropdown-container"
-                                                className="fixed z-[9999] bg-white border border-neutral-300 rounded-lg shadow-xl max-h-60 overflow-y-auto"
-                                                style={{
-                                                    top: dropdownPosition.top - window.scrollY, // Adjust for fixed position (viewport relative)
-                                                    left: dropdownPosition.left,
-                                                    width: dropdownPosition.width
-                                                }}
-                                            >
-                                              {allProducts
-                                                .filter(p => {
-                                                  // 🔍 SMART SEARCH:
-                                                  // 2. Contains whole query
-                                                  // 3. Strict Match: Product includes Query (e.g. "DOLO" -> "DOLO 650")
-                                                  // 4. Token Match: Product includes the first word of Query (e.g. "DIAPRIDE 4MG" -> Match "DIAPRIDE")
-                                                  
-                                                  const q = row.searchQuery?.toUpperCase().trim() || "";
-                                                  if (!q) return true;
-                                                  
-                                                  const pName = p.productName?.toUpperCase() || "";
-                                                  
-                                                  // Direct substring match
-                                                  if (pName.includes(q)) return true;
-                                                  
-                                                  // Token fallback: Match first word (Brand)
-                                                  // e.g. User types "DIAPRIDE 4MG", we match "DIAPRIDE"
-                                                  const tokens = q.split(/[\s-]+/).filter((t : string) => t.length > 2);
-                                                  if (tokens.length > 0) {
-                                                      const firstToken = tokens[0]; // "DIAPRIDE"
-                                                      return pName.includes(firstToken);
-                                                  }
-                                                  
-                                                  return false;
-                                                })
-                                                .sort((a, b) => {
-                                                    // 📊 SORT RELEVANCE
-                                                    const q = row.searchQuery?.toUpperCase().trim() || "";
-                                                    const aName = a.productName?.toUpperCase() || "";
-                                                    const bName = b.productName?.toUpperCase() || "";
-                                                    
-                                                    // 1. Exact StartsWith gets priority
-                                                    const aStarts = aName.startsWith(q);
-                                                    const bStarts = bName.startsWith(q);
-                                                    if (aStarts && !bStarts) return -1;
-                                                    if (!aStarts && bStarts) return 1;
-                                                    
-                                                    // 2. Contains whole query
-                                                    const aHas = aName.includes(q);
-                                                    const bHas = bName.includes(q);
-                                                    if (aHas && !bHas) return -1;
-                                                    if (!aHas && bHas) return 1;
-                                                    
-                                                    return 0;
-                                                })
-                                                .slice(0, 20)
-                                                .map(p => (
-                                                  <button
-                                                    key={p.productCode}
-                                                    onClick={() => {
-                                                      setRows(prev => {
-                                                        const next = [...prev];
-                                                        
-                                                        // Map Basic Fields
-                                                        if (!next[i].ITEMDESC || next[i].ITEMDESC.trim() === "") {
-                                                            next[i].ITEMDESC = p.productName;
-                                                        }
-
-                                                        const boxPack = Number(p.boxPack) || 0;
-                                                        const currentQty = Number(next[i].ORDERQTY) || 0;
-                                                        let newPack = next[i].PACK; 
-                                                        if (boxPack > 0 && currentQty > 0) {
-                                                            const rawPack = currentQty / boxPack;
-                                                            newPack = Number.isInteger(rawPack) ? rawPack : Number(rawPack.toFixed(2));
-                                                        }
-
-                                                        next[i] = {
-                                                          ...next[i],
-                                                          matchedProduct: p,
-                                                          SAPCODE: p.productCode,
-                                                          DVN: p.division,
-                                                          mappingSource: "MANUAL",
-                                                          availableSchemes: [],
-                                                          "BOX PACK": boxPack > 0 ? boxPack : next[i]["BOX PACK"],
-                                                          PACK: newPack
-                                                        };
-
-                                                        // Fetch Schemes using File Context
-                                                        const rowFileIdx = next[i]._fileIndex || 0;
-                                                        const rowCust = filesData[rowFileIdx]?.customer;
-
-                                                        if (rowCust?.code) {
-                                                          api.get(`/orders/schemes/product/${p.productCode}`, {
-                                                            params: {
-                                                              customerCode: rowCust.code,
-                                                              division: p.division
-                                                            }
-                                                          }).then(res => {
-                                                            if (res.data?.schemes?.length > 0) {
-                                                              setRows(curr => {
-                                                                const updated = [...curr];
-                                                                if (updated[i]) {
-                                                                    updated[i] = {
-                                                                      ...updated[i],
-                                                                      availableSchemes: res.data.schemes
-                                                                    };
-                                                                }
-                                                                return updated;
-                                                              });
-                                                            }
-                                                          });
-                                                        }
-                                                        return next;
-                                                      });
-                                                      setActiveSearchRow(null);
-                                                    }}
-                                                    className="w-full text-left px-3 py-2 text-sm hover:bg-blue-50 border-b last:border-0 border-neutral-100 block"
-                                                  >
-                                                    <div className="font-medium text-neutral-900">{formatProductDisplay(p)}</div>
-                                                    <div className="text-xs text-neutral-500">{p.productCode}</div>
-                                                  </button>
-                                                ))}
-                                            </div>,
-                                            document.body
-                                          )}
-                                        </div>
-                                      ) : null}
-                                    </div>
-
-                                    {row.matchedProduct && (
-                                          <div 
-                                            onClick={() => {
-                                                handleRowChange(i, "matchedProduct", null);
-                                                handleRowChange(i, "searchQuery", row.ITEMDESC);
-                                            }}
-                                            className="flex items-center justify-between px-2 py-1.5 bg-green-50 border border-green-200 rounded cursor-pointer hover:bg-green-100 group"
-                                          >
-                                            <div className="overflow-hidden">
-                                                <div className="font-semibold text-black truncate text-base">
-                                                  {formatProductDisplay(row.matchedProduct)}
-                                                </div>
-                                                <div className="text-[10px] text-black-700">
-                                                  #{row.matchedProduct.productCode}
-                                                </div>
-                                            </div>
-                                            <Edit2 className="w-3 h-3 text-green-600 opacity-0 group-hover:opacity-100" />
-                                          </div>
-                                        )}
-  
-                                    {/* SCHEME BADGES */}
-                                    {row.matchedProduct && row.availableSchemes?.length > 0 && !row.schemeApplied && (
-                                       (() => {
-                                           const schemeInfo = getSchemeInfo(row);
-                                           const { active, next, all } = schemeInfo || {};
-                                           if (!active && !next && (!all || all.length === 0)) return null;
-
-                                           return (
-                                            <div className="mt-1 flex flex-wrap gap-2">
-                                                {active && (
-                                                    <div className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[14px] bg-green-50 text-green-700 border border-green-200 cursor-pointer"
-                                                        onClick={() => {
-                                                            // Only bump quantity if less than min, otherwise just apply
-                                                            const current = Number(row.ORDERQTY) || 0;
-                                                            if (current < active.minQty) {
-                                                                handleRowChange(i, "ORDERQTY", active.minQty);
-                                                            }
-                                                            handleRowChange(i, "schemeApplied", true);
-                                                        }}
-                                                    >
-                                                        <Gift className="w-4 h-4" />
-                                                        <span>{active.minQty}+{active.totalFree} Free</span>
-                                                    </div>
-                                                )}
-                                                
-                                                {next && (
-                                                    <div className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[14px] bg-blue-50 text-blue-700 border border-blue-200 cursor-pointer"
-                                                        onClick={() => {
-                                                            handleRowChange(i, "ORDERQTY", next.minQty);
-                                                            handleRowChange(i, "schemeApplied", true);
-                                                        }}
-                                                    >
-                                                        <Zap className="w-4 h-4 text-blue-600 fill-blue-600" />
-                                                        <span>
-                                                            Add {next.minQty - (Number(row.ORDERQTY) || 0)} → {next.freeQty} Free
-                                                        </span>
-                                                    </div>
-                                                )}
-                                           </div>
-                                          );
-                                      })()
-                                    )}
-                                  </div>
-                                </td>
-
-                                {/* 3: QUANTITY */}
-                                <td className="px-3 py-2 text-center align-middle">
-                                  {(() => {
-                                     const info = getSchemeInfo(row);
-                                     if (info?.active && row.schemeApplied) {
-                                         return (
-                                             <div onClick={() => handleRowChange(i, "schemeApplied", false)} className="cursor-pointer bg-green-50 text-green-800 text-sm font-bold px-2 py-1 rounded border border-green-200">
-                                                {row.ORDERQTY} + {info.active.totalFree}
-                                             </div>
-                                         );
-                                     }
-                                     return (
-                                        <input
-                                          type="number"
-                                          className={`w-20 text-center text-base font-semibold px-1 py-1 border rounded ${hasError ? "border-red-500 bg-red-50" : "border-neutral-300"}`}
-                                          value={row.ORDERQTY || ""}
-                                          onChange={(e) => handleRowChange(i, "ORDERQTY", e.target.value)}
-                                        />
-                                     );
-                                  })()}
-                                </td>
-
-                                {/* 4: BOX PACK */}
-                                <td className="px-3 py-2 text-center align-middle">
-                                    <div className="flex items-center justify-center gap-1">
-                                      <input
-                                        type="number"
-                                        className="w-12 text-center text-sm px-1 py-1 border rounded bg-neutral-50"
-                                        value={row["BOX PACK"] || row.matchedProduct?.boxPack || ""}
-                                        onChange={(e) => handleRowChange(i, "BOX PACK", e.target.value)}
-                                      />
-                                      {Number(row["BOX PACK"] || row.matchedProduct?.boxPack) > 0 && (
-                                          <button 
-                                            onClick={() => {
-                                                const bp = Number(row["BOX PACK"] || row.matchedProduct?.boxPack);
-                                                const qty = Number(row.ORDERQTY) || 0;
-                                                if(bp > 0 && qty > 0) {
-                                                    const newQty = Math.ceil(qty / bp) * bp;
-                                                    handleRowChange(i, "ORDERQTY", newQty);
-                                                }
-                                            }}
-                                            className="text-neutral-400 hover:text-blue-600"
-                                            title="Round Up"
-                                          >
-                                              <RefreshCw className="w-5 h-5 ml-4" />
-                                          </button>
-                                      )}
-                                    </div>
-                                </td>
-
-                                {/* 5: PACK */}
-                                <td className="px-3 py-2 text-center align-middle">
-                                    <div className="text-sm font-medium text-neutral-600">
-                                        {row.PACK || "-"}
-                                    </div>
-                                </td>
-
-                                {/* 6: DIVISION */}
-                                <td className="px-3 py-2 text-center align-middle text-sm text-neutral-600">
-                                  {row.matchedProduct?.division || row.DVN || "-"}
-                                </td>
-
-                                {/* 7: SHEET */}
-                                <td className="px-3 py-2 text-center align-middle">
-                                  {sheet ? (
-                                    <Badge className={`${sheet.color.badge} ${sheet.color.text} text-xs`}>
-                                      {sheet.name}
-                                    </Badge>
-                                  ) : (
-                                    <input
-                                      type="checkbox"
-                                      checked={selectedRows.includes(i)}
-                                      onChange={() => toggleRowSelection(i)}
-                                      className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                                    />
-                                  )}
-                                </td>
-
-                                {/* 8: STATUS */}
-                                <td className="px-3 py-2 text-center align-middle">
-                                  {row.matchedProduct ? (
-                                    <div className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                                      OK
-                                    </div>
-                                  ) : (
-                                    <div className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
-                                      Map
-                                    </div>
-                                  )}
-                                </td>
-
-                                {/* 9: DELETE */}
-                                <td className="px-3 py-2 text-center align-middle">
-                                  <button
-                                    onClick={() => deleteRow(i)}
-                                    className="text-neutral-400 hover:text-red-500 transition-colors"
-                                  >
-                                    <X className="w-4 h-4" />
-                                  </button>
-                                </td>
-                          </tr>
-                        );
-                      })}
-                    </React.Fragment>
-                  );
-                })}
-
-                {rows.length === 0 && (
-                  <tr>
-                    <td colSpan={9} className="text-center py-12 text-neutral-500">
-                      <Package className="w-12 h-12 mx-auto mb-3 text-neutral-300" />
-                      No products added yet.
-                    </td>
-                  </tr>
-                )}
-              </tbody>
-            </table>
+            <EditableGrid
+              columns={gridColumns}
+              rows={rows}
+              groups={gridGroups}
+              onToggleGroup={toggleDivision}
+              onCellsChange={(changes, label) => applyRowChanges(changes, label)}
+              onActiveRowChange={i => i !== null && setFocusedRow(i)}
+              rowClassName={(row, i) => {
+                const sheet = getProductSheet(i);
+                return [
+                  "hover:bg-neutral-50",
+                  rowErrors[i]?.length > 0 ? "bg-red-50" : "",
+                  sheet ? sheet.color.bg : "",
+                  showSource && focusedRow === i ? "outline outline-2 -outline-offset-2 outline-amber-400" : ""
+                ].join(" ");
+              }}
+              emptyState={
+                showReviewOnly && rows.length > 0 ? (
+                  <div className="text-center py-8 text-neutral-500">
+                    <CheckCircle2 className="w-8 h-8 mx-auto mb-2 text-green-400" />
+                    All matches reviewed.
+                  </div>
+                ) : (
+                  <div className="text-center py-12 text-neutral-500">
+                    <Package className="w-12 h-12 mx-auto mb-3 text-neutral-300" />
+                    No products added yet.
+                  </div>
+                )
+              }
+            />
           </div>
         </Card>
+        </ResizablePanel>
+
+        {showSource && (
+          <>
+            <ResizableHandle withHandle />
+            <ResizablePanel id="source-viewer" order={2} defaultSize={40} minSize={20}>
+              <Card padding="none" className="h-full overflow-hidden">
+                <SourceViewer
+                  uploadId={sourceFile?.uploadId}
+                  fileName={sourceFile?.fileName}
+                  highlight={sourceHighlight}
+                />
+              </Card>
+            </ResizablePanel>
+          </>
+        )}
+        </ResizablePanelGroup>
 
         {/* ACTIONS FOOTER */}
         <div className="flex justify-center pt-6 pb-12 gap-3">
@@ -1249,6 +1666,22 @@ export function MappingPage() {
                 Round Off All
              </Button>
 
+          {outputTemplates.length > 0 && (
+            <select
+              value={outputTemplateId}
+              onChange={e => setOutputTemplateId(e.target.value)}
+              title="Column layout of the converted file"
+              className="text-sm border border-neutral-300 rounded-lg px-3 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value={BUILTIN_OUTPUT_TEMPLATE}>Built-in columns</option>
+              {outputTemplates.map(t => (
+                <option key={t._id} value={t._id}>
+                  {t.name}{t.isDefault ? " (default)" : ""}
+                </option>
+              ))}
+            </select>
+          )}
+
           <Button
             onClick={() => handleConvert()}
             isLoading={converting}
@@ -1275,6 +1708,37 @@ export function MappingPage() {
           handleConvert();
         }}
       />
+
+      <DuplicateOrderModal
+        isOpen={duplicatePrompt !== null}
+        onClose={() => setDuplicatePrompt(null)}
+        duplicates={duplicatePrompt || []}
+        onConfirm={(reason) => {
+          const duplicateOf = (duplicatePrompt || []).map(d => d.uploadId);
+          setDuplicatePrompt(null);
+          submitConversion({ reason, duplicateOf });
+        }}
+      />
+
+      <OcrRegionModal
+        isOpen={ocrViewRow !== null}
+        onClose={() => setOcrViewRow(null)}
+        uploadId={ocrViewRow !== null ? filesData[rows[ocrViewRow]?._fileIndex || 0]?.uploadId : undefined}
+        ocr={ocrViewRow !== null ? rows[ocrViewRow]?._ocr : null}
+        rawText={ocrViewRow !== null ? rows[ocrViewRow]?._rawText : undefined}
+      />
+
+      {showHistory && (
+        <div className="fixed right-6 bottom-24 z-40">
+          <EditHistoryPanel
+            past={history.past}
+            future={history.future}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            onClose={() => setShowHistory(false)}
+          />
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -8,9 +8,28 @@ import { masterDataApi } from "../../services/masterDataApi";
 import { CustomerTable } from "../admin/CustomerTable";
 import { ProductManagement } from "../admin/ProductManagement";
 import { SchemeTable } from "../admin/SchemeTable";
+import { AliasTable } from "../admin/AliasTable";
+import { MatchSettingsForm } from "../admin/MatchSettingsForm";
+import { OutputTemplateManager } from "../admin/OutputTemplateManager";
+import { OrderRefSettingsForm } from "../admin/OrderRefSettingsForm";
+import { ApprovalSettingsForm } from "../admin/ApprovalSettingsForm";
+
+type MasterTab = "customers" | "products" | "schemes" | "aliases" | "matching" | "output" | "orderRef" | "approval";
+
+const TABS: { id: MasterTab; label: string }[] = [
+  { id: "customers", label: "Customers" },
+  { id: "products", label: "Products" },
+  { id: "schemes", label: "Schemes" },
+  { id: "aliases", label: "Product Aliases" },
+  { id: "matching", label: "Matching" },
+  { id: "output", label: "Output Templates" },
+  { id: "orderRef", label: "Order Numbers" },
+  { id: "approval", label: "Approval Rules" },
+];
 
 export function MasterDataPage() {
   const [refreshKey, setRefreshKey] = useState(0);
+  const [activeTab, setActiveTab] = useState<MasterTab>("customers");
 
   const handleDataChange = () => {
     setRefreshKey(prev => prev + 1);
@@ -128,9 +147,31 @@ export function MasterDataPage() {
         </div>
       </Card>
 
-      <CustomerTable />
-      <ProductManagement onDataChange={handleDataChange} />
-      <SchemeTable refreshTrigger={refreshKey} />
+      {/* TABS */}
+      <div className="flex gap-1 border-b border-neutral-200">
+        {TABS.map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id)}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+              activeTab === tab.id
+                ? "border-primary-600 text-primary-700"
+                : "border-transparent text-neutral-500 hover:text-neutral-800"
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === "customers" && <CustomerTable />}
+      {activeTab === "products" && <ProductManagement onDataChange={handleDataChange} />}
+      {activeTab === "schemes" && <SchemeTable refreshTrigger={refreshKey} />}
+      {activeTab === "aliases" && <AliasTable />}
+      {activeTab === "matching" && <MatchSettingsForm />}
+      {activeTab === "output" && <OutputTemplateManager />}
+      {activeTab === "orderRef" && <OrderRefSettingsForm />}
+      {activeTab === "approval" && <ApprovalSettingsForm />}
 
 
     </div>
@@ -21,9 +21,13 @@ import {
   previewConvertedOrders,
   generateDivisionReport,
   downloadFileFromUrl,
+  getExportFormats,
+  ExportFormat,
+  DEFAULT_EXPORT_FORMAT,
+  FALLBACK_EXPORT_FORMATS,
 } from "../../services/orderApi";
 import { useAuth } from "../../context/AuthContext";
-import { useParams, useNavigate } from "react-router-dom";
+import { Link, useParams, useNavigate } from "react-router-dom";
 import { toast } from "sonner";
 import { SchemeSummaryCard } from "../../components/SchemeSummary.tsx";
 import { SchemeSelectionModal } from "../../components/modals/SchemeModal.tsx";
@@ -35,6 +39,12 @@ import { conversionData } from "../../types";
 import { ConversionSummary } from "../../components/result-page/ConversionSummary";
 import { DownloadActions } from "../../components/result-page/DownloadActions";
 import { PreviewTable } from "../../components/result-page/PreviewTable";
+import { OrderLifecyclePanel } from "../../components/result-page/OrderLifecyclePanel";
+import { ApprovalNotice } from "../../components/result-page/ApprovalNotice";
+import { AuditTrailPanel } from "../../components/result-page/AuditTrailPanel";
+import { VersionHistoryPanel } from "../../components/result-page/VersionHistoryPanel";
+import { hasConvertedOutput, isLegacyStatus, normalizeOrderStatus } from "../../utils/orderStatus";
+import { downloadLockReason } from "../../utils/orderApproval";
 
 export function ResultPage() {
   const { id } = useParams();
@@ -55,22 +65,38 @@ export function ResultPage() {
   const [editingScheme, setEditingScheme] = useState(false);
   const [previewData, setPreviewData] = useState<any[]>([]);
   const [previewHeaders, setPreviewHeaders] = useState<string[]>([]);
+  const [editRefreshKey, setEditRefreshKey] = useState(0);
+
+  // Export format (XLSX / CSV / fixed-width ERP / JSON / PDF)
+  const [exportFormats, setExportFormats] = useState<ExportFormat[]>(FALLBACK_EXPORT_FORMATS);
+  const [exportFormat, setExportFormat] = useState<string>(DEFAULT_EXPORT_FORMAT);
 
   useEffect(() => {
-    if (success && id) {
-      previewConvertedOrders(id, 1, 10)
-        .then((res) => {
-          if (res.success) {
-            setPreviewData(res.data || []);
-            setPreviewHeaders(
-              (res.headers || Object.keys(res.data?.[0] || {})).filter(
-                (k: string) => !k.startsWith("_")
-              )
-            );
-          }
-        })
-        .catch((err) => console.error("Preview fetch error", err));
-    }
+    getExportFormats()
+      .then(formats => {
+        if (formats.length > 0) setExportFormats(formats);
+      })
+      .catch(err => console.error("Export formats load failed", err));
+  }, []);
+
+  const loadPreview = () => {
+    if (!id) return;
+    previewConvertedOrders(id, 1, 10, "output")
+      .then((res) => {
+        if (res.success) {
+          setPreviewData(res.data || []);
+          setPreviewHeaders(
+            (res.headers || Object.keys(res.data?.[0] || {})).filter(
+              (k: string) => !k.startsWith("_")
+            )
+          );
+        }
+      })
+      .catch((err) => console.error("Preview fetch error", err));
+  };
+
+  useEffect(() => {
+    if (success && id) loadPreview();
   }, [success, id]);
 
   // Extract Divisions when data loads
@@ -83,7 +109,8 @@ export function ResultPage() {
     if (sourceRows && Array.isArray(sourceRows) && sourceRows.length > 0) {
       const uniqueDivs = new Set<string>();
       sourceRows.forEach((r: any) => {
-        const dvn = r.DVN || r.Division || r.DIVISION || r.division || r.dvn;
+        const source = r._source || r;    // Template-shaped preview rows
+        const dvn = source.DVN || source.Division || source.DIVISION || source.division || source.dvn;
         if (dvn && typeof dvn === "string") uniqueDivs.add(dvn);
       });
       setDivisions(Array.from(uniqueDivs).sort());
@@ -121,18 +148,24 @@ export function ResultPage() {
           errors: Array.isArray(res.errors) ? res.errors : [],
           warnings: Array.isArray(res.warnings) ? res.warnings : [],
           processingTime: res.processingTime || "-",
-          status: res.status || "UNKNOWN",
+          status: normalizeOrderStatus(res.status),
+          statusHistory: Array.isArray(res.statusHistory) ? res.statusHistory : [],
+          approval: res.approval || undefined,
+          duplicateOverride: res.duplicateOverride || null,
           schemeSummary: res.schemeSummary || null,
           fileName: res.fileName,
+          orderRef: res.orderRef,
           schemeDetails: schemeDetails,
           downloadUrls: res.downloadUrls || [],
         };
 
         setData(conversionData);
 
+        // Uploads from before the lifecycle have no status or a generic one (UNKNOWN …)
         const isSuccess =
-          res.status === "CONVERTED" ||
-          ((res.recordsProcessed || 0) > 0 &&
+          hasConvertedOutput(res.status) ||
+          (isLegacyStatus(res.status) &&
+            (res.recordsProcessed || 0) > 0 &&
             (!res.errors || res.errors.length === 0));
 
         setSuccess(isSuccess);
@@ -172,7 +205,7 @@ export function ResultPage() {
         type === "sheets" ? "Sheet Orders" : type === "main" ? "Main Order" : "";
       const name = prefix ? `${prefix} - ${data?.fileName}` : data?.fileName;
 
-      await downloadOrderFile(id, name, apiType);
+      await downloadOrderFile(id, name, apiType, exportFormat);
       toast.success(
         `${
           type === "sheets"
@@ -218,6 +251,7 @@ export function ResultPage() {
 
   const warningRows = data.warnings || [];
   const errorRows = data.errors || [];
+  const lockReason = downloadLockReason(data.approval);
 
   const warningColumns = [
     { key: "rowNumber", label: "Row" },
@@ -243,6 +277,11 @@ export function ResultPage() {
         <h1 className="text-2xl font-bold text-neutral-800">
           Conversion Results
         </h1>
+        {data?.orderRef && (
+          <Badge variant="neutral" className="font-mono text-sm">
+            {data.orderRef}
+          </Badge>
+        )}
       </div>
 
       {/* SUMMARY & ACTIONS */}
@@ -264,6 +303,10 @@ export function ResultPage() {
                         selectedDivision={selectedDivision}
                         onDivisionChange={setSelectedDivision}
                         onDivisionDownload={handleDivisionDownload}
+                        exportFormats={exportFormats}
+                        selectedFormat={exportFormat}
+                        onFormatChange={setExportFormat}
+                        lockReason={lockReason}
                      />
                     {/* Icon */}
                     <div className="flex-shrink-0 hidden sm:block">
@@ -274,12 +317,59 @@ export function ResultPage() {
         </div>
       </Card>
 
+      {id && (
+        <OrderLifecyclePanel
+          orderId={id}
+          status={data.status}
+          history={data.statusHistory || []}
+          onChange={(status, statusHistory) =>
+            setData(prev => (prev ? { ...prev, status, statusHistory } : prev))
+          }
+          approvalLocked={!!lockReason}
+        />
+      )}
+
+      {id && data.approval && (
+        <ApprovalNotice
+          orderId={id}
+          approval={data.approval}
+          canDecide={user?.role === "admin"}
+          onChange={(approval) => setData(prev => (prev ? { ...prev, approval } : prev))}
+        />
+      )}
+
+      {data.duplicateOverride && (
+        <Card>
+          <div className="p-4 flex items-start gap-3 text-sm">
+            <AlertTriangle className="w-5 h-5 text-amber-600 shrink-0" />
+            <div>
+              <p className="font-medium text-neutral-800">Converted despite a duplicate warning</p>
+              <p className="text-neutral-600 mt-0.5">"{data.duplicateOverride.reason}"</p>
+              <p className="text-xs text-neutral-500 mt-1">
+                {data.duplicateOverride.by?.name || data.duplicateOverride.by?.email || "Unknown user"}
+                {data.duplicateOverride.at && ` · ${new Date(data.duplicateOverride.at).toLocaleString()}`}
+                {" · matched "}
+                {data.duplicateOverride.duplicateOf.map((dupId, i) => (
+                  <React.Fragment key={dupId}>
+                    {i > 0 && ", "}
+                    <Link to={`/result/${dupId}`} className="text-blue-600 hover:underline">
+                      earlier upload {i + 1}
+                    </Link>
+                  </React.Fragment>
+                ))}
+              </p>
+            </div>
+          </div>
+        </Card>
+      )}
+
       {success && data.schemeSummary && data.schemeSummary.count > 0 && (
         <div className="mb-6">
           <SchemeSummaryCard
             orderId={id!}
             schemeSummary={data.schemeSummary}
             fileName={data.fileName}
+            downloadLocked={!!lockReason}
           />
         </div>
       )}
@@ -362,6 +452,40 @@ export function ResultPage() {
         </Card>
       )}
 
+      {success && id && (
+        <VersionHistoryPanel
+          orderId={id}
+          refreshKey={editRefreshKey}
+          exportFormat={exportFormat}
+          downloadLocked={!!lockReason}
+        />
+      )}
+
+      {success && id && (
+        <AuditTrailPanel
+          orderId={id}
+          refreshKey={editRefreshKey}
+          onReverted={(entry, row) => {
+            // A revert is saved as a new version
+            setEditRefreshKey((k) => k + 1);
+            if (entry.dataset === "converted") {
+              loadPreview();
+            } else if (row) {
+              setData((prev) =>
+                prev
+                  ? {
+                      ...prev,
+                      schemeDetails: (prev.schemeDetails || []).map((r, i) =>
+                        i === entry.rowIndex ? row : r
+                      ),
+                    }
+                  : prev
+              );
+            }
+          }}
+        />
+      )}
+
       {/* WARNINGS TABLE */}
       {warningRows.length > 0 && (
         <Card>
@@ -457,7 +581,11 @@ export function ResultPage() {
       {editingConverted && id && (
         <ViewEditConvertedModal
           isOpen={editingConverted}
-          onClose={() => setEditingConverted(false)}
+          onClose={() => {
+            setEditingConverted(false);
+            loadPreview();
+            setEditRefreshKey((k) => k + 1);
+          }}
           uploadId={id}
           fileName={data?.fileName}
         />
@@ -471,6 +599,7 @@ export function ResultPage() {
           uploadId={id}
           fileName={data?.fileName}
           onSave={(updatedData) => {
+            setEditRefreshKey((k) => k + 1);
             setData((prev) =>
               prev
                 ? {
@@ -1,12 +1,24 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { Upload, FileText, X, CheckCircle, AlertCircle, Search, User, Edit2, AlertTriangle, Plus, Trash2, Package, RefreshCw, Zap, Gift } from 'lucide-react';
+import { Upload, FileText, X, CheckCircle, AlertCircle, Search, User, Edit2, AlertTriangle, Plus, Trash2, Package, RefreshCw, Zap, Gift, Table, ClipboardPaste, Check } from 'lucide-react';
 import { Card } from '../Card';
 import { Button } from '../Button';
 import { Badge } from '../Badge';
 import { Alert, AlertTitle, AlertDescription } from '../ui/alert';
 import { toast } from 'sonner';
 import api from "../../services/api";
+import { SchemeEngine, toDayKey } from "../../utils/schemeEngine";
+import { ColumnTemplateModal } from "../modals/ColumnTemplateModal";
+import { ColumnTemplate, SheetPreview, previewFileLayout } from "../../services/orderApi";
+import { WorkbookSheetPicker } from "../WorkbookSheetPicker";
+import { PasteOrderModal } from "../modals/PasteOrderModal";
+import { masterDataApi } from "../../services/masterDataApi";
+import {
+  DEFAULT_MATCH_THRESHOLDS,
+  MatchThresholds,
+  getMatchConfidenceLevel,
+  needsReview
+} from "../../utils/matchConfidence";
 
 import { useNavigate } from "react-router-dom";
 
@@ -20,67 +32,54 @@ const formatProductDisplay = (p: any) => {
   return name;
 };
 
-/**
- * 🧠 FRONTEND SCHEME ENGINE (Strict Mirror of Backend)
- */
-const FrontendSchemeEngine = {
-    generateVirtualSlabs: (explicitSlabs: any[], orderQty: number) => {
-        const sorted = [...explicitSlabs].filter(s => s.minQty > 0).sort((a, b) => a.minQty - b.minQty);
-        if (sorted.length === 0) return [];
-
-        const base = sorted[0];
-        const baseQty = base.minQty;
-        const baseFree = base.freeQty;
-        
-        // Generate enough virtual slabs to cover the order + upsell room
-        const maxTarget = Math.max(orderQty * 2, baseQty * 10);
-        
-        const allSlabs = [];
-        let multiplier = 1;
-        let currentQty = baseQty;
-
-        while (currentQty <= maxTarget) {
-            const explicit = sorted.find(s => s.minQty === currentQty);
-            if (explicit) {
-                allSlabs.push({ ...explicit, isVirtual: false });
-            } else {
-                allSlabs.push({
-                    minQty: currentQty,
-                    freeQty: multiplier * baseFree,
-                    isVirtual: true,
-                    schemeName: `Auto-Pattern (x${multiplier})`,
-                    schemeId: base.schemeId || 'virtual',
-                    schemePercent: base.schemePercent, // ✅ Propagate Scheme %
-                });
-            }
-            multiplier++;
-            currentQty = baseQty * multiplier;
-        }
-        return allSlabs.sort((a, b) => a.minQty - b.minQty);
-    },
-
-    calculate: (orderQty: number, slabs: any[]) => {
-        if (orderQty <= 0 || !slabs.length) return { freeQty: 0, appliedSlab: null };
-        
-        // Find largest slab <= orderQty
-        const applicable = slabs.filter(s => s.minQty <= orderQty);
-        if (applicable.length === 0) return { freeQty: 0, appliedSlab: null };
-
-        const bestSlab = applicable[applicable.length - 1]; // Last one is largest
-        return {
-            freeQty: bestSlab.freeQty,
-            appliedSlab: bestSlab
-        };
-    }
-};
-
 export function UploadPage() {
     const navigate = useNavigate();
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [isUploading, setIsUploading] = useState(false);
-  const allowedExtensions = ['xlsx', 'xls', 'csv', 'pdf','txt','jpg','jpeg','png'];
+  const allowedExtensions = ['xlsx', 'xls', 'xlsm', 'ods', 'csv', 'pdf','txt','eml','jpg','jpeg','png'];
+  const spreadsheetExtensions = ['xlsx', 'xls', 'xlsm', 'ods', 'csv'];
+
+  /* ============ COLUMN LAYOUT TEMPLATES ============ */
+  const [templateFile, setTemplateFile] = useState<File | null>(null);
+  const [fileLayouts, setFileLayouts] = useState<Record<string, { customerCode: string; customerName?: string }>>({});
+  const [layoutIssues, setLayoutIssues] = useState<string[]>([]);
+  const [pendingResults, setPendingResults] = useState<any[] | null>(null);
+
+  const isSpreadsheet = (file: File) =>
+    spreadsheetExtensions.includes(file.name.split('.').pop()?.toLowerCase() || '');
+
+  /* ============ WORKBOOK SHEET SELECTION ============ */
+  const workbookExtensions = ['xlsx', 'xls', 'xlsm', 'ods'];
+  const [sheetPreviews, setSheetPreviews] = useState<Record<string, { loading: boolean; sheets?: SheetPreview[] }>>({});
+  const [sheetSelections, setSheetSelections] = useState<Record<string, string[]>>({});
+
+  const isWorkbook = (file: File) =>
+    workbookExtensions.includes(file.name.split('.').pop()?.toLowerCase() || '');
+
+  useEffect(() => {
+    uploadedFiles
+      .filter(f => isWorkbook(f) && !sheetPreviews[f.name])
+      .forEach(file => {
+        setSheetPreviews(prev => ({ ...prev, [file.name]: { loading: true } }));
+
+        previewFileLayout(file)
+          .then(sheets => {
+            setSheetPreviews(prev => ({ ...prev, [file.name]: { loading: false, sheets } }));
+            // Default: every sheet that has data
+            setSheetSelections(prev => ({
+              ...prev,
+              [file.name]: sheets.filter(s => s.totalRows > 0).map(s => s.name)
+            }));
+          })
+          .catch(err => {
+            // Preview is optional – extraction still reads all sheets
+            console.error("Sheet preview failed", err);
+            setSheetPreviews(prev => ({ ...prev, [file.name]: { loading: false, sheets: [] } }));
+          });
+      });
+  }, [uploadedFiles]);
 
   /* ============ MANUAL ENTRY STATE ============ */
   const [manualCustomer, setManualCustomer] = useState<any>(null);
@@ -95,6 +94,17 @@ export function UploadPage() {
   const [activeManualSearchRow, setActiveManualSearchRow] = useState<number | null>(null);
   const [manualDropdownPos, setManualDropdownPos] = useState<{ top: number; left: number; width: number } | null>(null);
 
+  /* 📋 PASTE ORDER (bulk manual entry) */
+  const [showPasteModal, setShowPasteModal] = useState(false);
+  const [matchThresholds, setMatchThresholds] = useState<MatchThresholds>(DEFAULT_MATCH_THRESHOLDS);
+
+  useEffect(() => {
+    masterDataApi
+      .getMatchSettings()
+      .then(setMatchThresholds)
+      .catch(() => setMatchThresholds(DEFAULT_MATCH_THRESHOLDS));
+  }, []);
+
   /* ============ SHEET MANAGEMENT STATE ============ */
   const SHEET_COLORS = [
     { bg: 'bg-blue-50', border: 'border-blue-300', text: 'text-blue-700', badge: 'bg-blue-100' },
@@ -216,8 +226,11 @@ export function UploadPage() {
       name: customer.customerName,
       city: customer.city,
       state: customer.state,
+      customerType: customer.customerType,
       source: 'MANUAL'
     });
+    // Schemes are customer/region specific → refetch for the new customer
+    setManualRows(prev => prev.map(r => ({ ...r, availableSchemes: undefined, schemeApplied: false })));
     setIsEditingCustomer(false);
     setManualCustomerResults([]);
     toast.success(`Customer set: ${customer.customerName}`);
@@ -230,6 +243,36 @@ export function UploadPage() {
     ]);
   };
 
+  // Matched rows from the paste box → manual rows (blank placeholder rows are dropped)
+  const addPastedRows = (pasted: any[]) => {
+    const newRows = pasted.map(r => {
+      const boxPack = Number(r.matchedProduct?.boxPack) || 0;
+      const rawPack = boxPack > 0 ? Number(r.ORDERQTY) / boxPack : null;
+
+      return {
+        ITEMDESC: r.ITEMDESC,
+        searchQuery: r.ITEMDESC,
+        ORDERQTY: r.ORDERQTY,
+        matchedProduct: r.matchedProduct || null,
+        SAPCODE: r.SAPCODE || "",
+        DVN: r.DVN || "",
+        "BOX PACK": boxPack > 0 ? boxPack : "",
+        PACK: rawPack === null ? "" : Number.isInteger(rawPack) ? rawPack : Number(rawPack.toFixed(2)),
+        mappingSource: r.mappingSource,
+        matchConfidence: r.matchConfidence,
+        candidates: r.candidates || [],
+        _rawText: r._rawText,
+        isNew: true
+      };
+    });
+
+    setManualRows(prev => [...prev.filter(r => r.ITEMDESC || r.matchedProduct), ...newRows]);
+  };
+
+  const confirmManualMatch = (index: number) => {
+    setManualRows(prev => prev.map((r, i) => (i === index ? { ...r, matchConfirmed: true } : r)));
+  };
+
   const deleteManualRow = (index: number) => {
     setManualRows(prev => prev.filter((_, i) => i !== index));
   };
@@ -247,7 +290,13 @@ export function UploadPage() {
         await Promise.all(rowsToUpdate.map(async ({ r, i }) => {
             try {
                 const res = await api.get(`/orders/schemes/product/${r.matchedProduct.productCode}`, {
-                    params: { customerCode: manualCustomer.code, division: r.matchedProduct.division }
+                    params: {
+                        customerCode: manualCustomer.code,
+                        division: r.matchedProduct.division,
+                        state: manualCustomer.state,
+                        customerType: manualCustomer.customerType,
+                        date: toDayKey(new Date())
+                    }
                 });
                 updates[i] = res.data?.schemes || [];
             } catch (err) {
@@ -273,32 +322,11 @@ export function UploadPage() {
   }, [manualRows, manualCustomer]);
 
   /* ---------------- CALCULATE SCHEME INFO ---------------- */
-  const getSchemeInfo = (row: any) => {
-      if (!row.availableSchemes || row.availableSchemes.length === 0) return null;
-      
-      const qty = Number(row.ORDERQTY) || 0;
-      
-      // 1. Get explicit slabs
-      const scheme = row.availableSchemes[0];
-      if (!scheme || !scheme.slabs) return null;
-
-      // 2. Generate Virtual Slabs using Engine
-      const allSlabs = FrontendSchemeEngine.generateVirtualSlabs(scheme.slabs, qty);
-      
-      // 3. Find Active Slab (Benefit already achieved)
-      const execution = FrontendSchemeEngine.calculate(qty, allSlabs);
-      const activeSlab = execution.appliedSlab;
-      
-      // 4. Find Next Slab (Upsell)
-      // Find the first slab strictly greater than current qty
-      const nextSlab = allSlabs.find(s => s.minQty > qty);
-      
-      return {
-          active: activeSlab ? { ...activeSlab, totalFree: execution.freeQty } : null,
-          next: nextSlab ? { ...nextSlab, freeQty: nextSlab.freeQty } : null, // Next slab's promised free qty
-          all: allSlabs
-      };
-  };
+  const getSchemeInfo = (row: any) => SchemeEngine.getSchemeInfo(row.availableSchemes, row.ORDERQTY, {
+      customerCode: manualCustomer?.code,
+      customerType: manualCustomer?.customerType,
+      state: manualCustomer?.state
+  });
 
   const handleManualRowChange = (index: number, field: string, value: any) => {
     setManualRows(prev => {
@@ -384,6 +412,16 @@ export function UploadPage() {
       return;
     }
 
+    // 🎯 Pasted rows matched with low confidence must be looked at
+    const unreviewed = manualRows.filter(r => needsReview(r, matchThresholds)).length;
+    if (unreviewed > 0) {
+      if (matchThresholds.onUnreviewed === "block") {
+        toast.error(`${unreviewed} low-confidence match(es) need review before processing`);
+        return;
+      }
+      if (!confirm(`${unreviewed} low-confidence match(es) have not been reviewed. Process anyway?`)) return;
+    }
+
     // Validate quantities
     const qtyErrors: number[] = [];
     manualRows.forEach((row, i) => {
@@ -415,8 +453,10 @@ export function UploadPage() {
           mappingSource: r.mappingSource || "MANUAL",
           
           // 🔥 PASS STORED SCHEME VALUES TO BACKEND
-          freeQty: schemeInfo?.active ? schemeInfo.active.totalFree : 0,
-          schemePercent: schemeInfo?.active?.schemePercent || 0,
+          freeQty: schemeInfo?.resolution.freeQty || 0,
+          schemePercent: schemeInfo?.resolution.schemePercent || 0,
+          // 🔥 WHICH SCHEMES WERE APPLIED / SKIPPED AND WHY (persisted into scheme details)
+          schemeDecisions: schemeInfo?.resolution.decisions || [],
           
           customerCode: manualCustomer.code,
           customerName: manualCustomer.name
@@ -474,6 +514,24 @@ async function uploadAndParse(
     formData.append("files", file);
   });
 
+  // fileName → customerCode: read these files with that customer's saved column template
+  const hints = Object.fromEntries(
+    files.filter(f => fileLayouts[f.name]).map(f => [f.name, fileLayouts[f.name].customerCode])
+  );
+  if (Object.keys(hints).length > 0) {
+    formData.append("layoutHints", JSON.stringify(hints));
+  }
+
+  // fileName → sheet names to extract (only workbooks the user could choose for)
+  const selections = Object.fromEntries(
+    files
+      .filter(f => (sheetPreviews[f.name]?.sheets?.length || 0) > 1 && sheetSelections[f.name])
+      .map(f => [f.name, sheetSelections[f.name]])
+  );
+  if (Object.keys(selections).length > 0) {
+    formData.append("sheetSelections", JSON.stringify(selections));
+  }
+
   onProgress(50);
 
   const res = await api.post("/orders/extract", formData, {
@@ -493,7 +551,11 @@ async function uploadAndParse(
      // Check if ALL failed?
      const allFailed = result.results.every((r: any) => r.status === 'FAILED' || r.status === 'ERROR');
      if (allFailed) {
-        throw new Error("All uploaded files failed extraction.");
+        // Say which stage failed per file (e.g. OCR found no item/qty lines) instead of a generic error
+        const details = result.results
+          .map((r: any) => `• ${r.fileName}${r.method ? ` [${r.method}]` : ""}: ${r.error || r.message || r.status}`)
+          .join("\n");
+        throw new Error(`All uploaded files failed extraction.\n\n${details}`);
      }
   } else if (result.error) {
      throw new Error(result.error);
@@ -533,7 +595,7 @@ const validateFiles = (files: File[]) => {
     alert(
       `Unsupported file types:\n${invalidFiles.join(
         ', '
-      )}\n\nAllowed formats: Excel, CSV, PDF, Images (JPG/PNG)`
+      )}\n\nAllowed formats: Excel (XLSX/XLS/XLSM), ODS, CSV, PDF, Text/Email (TXT/EML), Images (JPG/PNG)`
     );
   }
 
@@ -551,15 +613,54 @@ const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
 
 
   const removeFile = (index: number) => {
+    const name = uploadedFiles[index]?.name;
     setUploadedFiles(uploadedFiles.filter((_, i) => i !== index));
+    setLayoutIssues(prev => prev.filter(n => n !== name));
+    setSheetPreviews(prev => {
+      const next = { ...prev };
+      delete next[name];
+      return next;
+    });
   };
 
+const goToMapping = (results: any[]) => {
+  // If response.results exists, it's the new format
+  // Pass 'results' array to Mapping Page
+  navigate("/mapping", {
+    state: {
+      results,
+      isMultiFile: true
+    },
+  });
+};
+
+const handleLayoutSaved = (template: ColumnTemplate) => {
+  if (!templateFile) return;
+  const name = templateFile.name;
+
+  setFileLayouts(prev => ({
+    ...prev,
+    [name]: { customerCode: template.customerCode, customerName: template.customerName }
+  }));
+  setLayoutIssues(prev => prev.filter(n => n !== name));
+  setPendingResults(null);
+  setTemplateFile(null);
+};
+
 const handleContinue = async () => {
   if (uploadedFiles.length === 0) {
     alert("Please upload at least one file.");
     return;
   }
 
+  const noSheets = uploadedFiles.filter(
+    f => (sheetPreviews[f.name]?.sheets?.length || 0) > 1 && sheetSelections[f.name]?.length === 0
+  );
+  if (noSheets.length > 0) {
+    toast.error(`Select at least one sheet in ${noSheets.map(f => f.name).join(", ")}`);
+    return;
+  }
+
   try {
     setIsUploading(true);
     setUploadProgress(20);
@@ -568,20 +669,36 @@ const handleContinue = async () => {
 
     const response = await uploadAndParse(uploadedFiles, setUploadProgress);
 
-    // If response.results exists, it's the new format
-    // Pass 'results' array to Mapping Page
-    navigate("/mapping", {
-      state: {
-        results: response.results, 
-        isMultiFile: true
-      },
-    });
+    // Spreadsheets whose columns could not be read → offer to define a layout
+    const unreadable = (response.results || [])
+      .filter((r: any) => {
+        const file = uploadedFiles.find(f => f.name === r.fileName);
+        if (!file || !isSpreadsheet(file)) return false;
+        return r.status === 'FAILED' || r.status === 'ERROR' || !r.dataRows?.length;
+      })
+      .map((r: any) => r.fileName);
+
+    if (unreadable.length > 0) {
+      setLayoutIssues(unreadable);
+      setPendingResults(response.results);
+      toast.warning("Some spreadsheets could not be read. Define their column layout or continue anyway.");
+      return;
+    }
+
+    goToMapping(response.results);
   } catch (err: any) {
     const message =
       err?.response?.data?.message ||
       err?.message ||
       "Failed to upload and parse file.";
 
+    // Every file failed: spreadsheets among them are likely layout problems
+    const sheetsFailed = uploadedFiles.filter(isSpreadsheet).map(f => f.name);
+    if (sheetsFailed.length > 0) {
+      setLayoutIssues(sheetsFailed);
+      setPendingResults(null);
+    }
+
     alert(message);
     console.error("Upload/parse failed:", err);
   } finally {
@@ -613,7 +730,7 @@ const handleContinue = async () => {
         <div className='p-2'>
           <AlertTitle className="mb-1">Supported File Formats</AlertTitle>
           <AlertDescription>
-            Excel (.xlsx, .xls), CSV (.csv), PDF (.pdf), Text (.txt), and Images (.jpg, .png) are supported. Maximum file size: 10MB per file.
+            Excel (.xlsx, .xls, .xlsm), LibreOffice (.ods), CSV (.csv, any delimiter or encoding), PDF (.pdf), Text (.txt), Email (.eml), and Images (.jpg, .png) are supported. Maximum file size: 10MB per file.
           </AlertDescription>
         </div>
       </Alert>
@@ -646,7 +763,7 @@ const handleContinue = async () => {
               <input
                 type="file"
                 multiple
-                accept=".xlsx,.xls,.csv,.pdf,.txt,.jpg,.jpeg,.png"
+                accept=".xlsx,.xls,.xlsm,.ods,.csv,.pdf,.txt,.eml,.jpg,.jpeg,.png"
                 onChange={handleFileSelect}
                 className="hidden"
               />
@@ -686,20 +803,41 @@ const handleContinue = async () => {
           </h3>
           <div className="space-y-2">
             {uploadedFiles.map((file, index) => (
-              <div
-                key={index}
-                className="flex items-center justify-between p-3 border border-neutral-200 rounded-lg hover:bg-neutral-50 transition-colors"
-              >
+              <div key={index} className="border border-neutral-200 rounded-lg">
+              <div className="flex items-center justify-between p-3 hover:bg-neutral-50 transition-colors rounded-lg">
                 <div className="flex items-center gap-3 flex-1 min-w-0">
                   <div className="p-2 bg-primary-100 rounded-lg">
                     <FileText className="w-5 h-5 text-primary-600" />
                   </div>
                   <div className="flex-1 min-w-0">
                     <p className="font-medium text-neutral-900 truncate">{file.name}</p>
-                    <p className="text-sm text-neutral-600">{formatFileSize(file.size)}</p>
+                    <p className="text-sm text-neutral-600">
+                      {formatFileSize(file.size)}
+                      {fileLayouts[file.name] && (
+                        <span className="ml-2 text-xs text-blue-700">
+                          • Layout: {fileLayouts[file.name].customerName || fileLayouts[file.name].customerCode}
+                        </span>
+                      )}
+                    </p>
+                    {layoutIssues.includes(file.name) && (
+                      <p className="text-xs text-amber-700 flex items-center gap-1 mt-0.5">
+                        <AlertTriangle className="w-3 h-3" /> Columns could not be detected
+                      </p>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
+                  {isSpreadsheet(file) && (
+                    <Button
+                      size="sm"
+                      variant={layoutIssues.includes(file.name) ? "primary" : "secondary"}
+                      onClick={() => setTemplateFile(file)}
+                      disabled={isUploading}
+                    >
+                      <Table className="w-4 h-4 mr-1" />
+                      {fileLayouts[file.name] ? "Edit Columns" : "Define Columns"}
+                    </Button>
+                  )}
                   <CheckCircle className="w-5 h-5 text-success-600" />
                   <button
                     onClick={() => removeFile(index)}
@@ -710,6 +848,17 @@ const handleContinue = async () => {
                   </button>
                 </div>
               </div>
+
+              {isWorkbook(file) && (
+                <WorkbookSheetPicker
+                  sheets={sheetPreviews[file.name]?.sheets}
+                  loading={sheetPreviews[file.name]?.loading}
+                  selected={sheetSelections[file.name] || []}
+                  onChange={selected => setSheetSelections(prev => ({ ...prev, [file.name]: selected }))}
+                  disabled={isUploading}
+                />
+              )}
+              </div>
             ))}
           </div>
 
@@ -722,6 +871,16 @@ const handleContinue = async () => {
   Cancel
 </Button>
 
+            {pendingResults && (
+              <Button
+                variant="secondary"
+                onClick={() => goToMapping(pendingResults)}
+                disabled={isUploading}
+              >
+                Continue Anyway
+              </Button>
+            )}
+
             <Button
               variant="primary"
               onClick={handleContinue}
@@ -733,6 +892,13 @@ const handleContinue = async () => {
           </div>
         </Card>
       )}
+
+      <ColumnTemplateModal
+        isOpen={!!templateFile}
+        file={templateFile}
+        onClose={() => setTemplateFile(null)}
+        onSaved={handleLayoutSaved}
+      />
       {/* ============ OR DIVIDER ============ */}
       <div className="relative flex items-center py-4">
         <div className="flex-grow border-t border-neutral-300"></div>
@@ -847,6 +1013,9 @@ const handleContinue = async () => {
             <Button size="sm" type="button" variant="secondary" onClick={createManualSheet} disabled={manualSelectedRows.length === 0}>
               <Package className="w-4 h-4 mr-1" /> Group into Sheet
             </Button>
+            <Button size="sm" variant="secondary" onClick={() => setShowPasteModal(true)}>
+              <ClipboardPaste className="w-4 h-4 mr-1" /> Paste Order
+            </Button>
             <Button size="sm" variant="secondary" onClick={addManualRow}>
               + Add Manual Item
             </Button>
@@ -920,8 +1089,39 @@ const handleContinue = async () => {
                                     width: manualDropdownPos.width
                                   }}
                                 >
+                                  {/* 🧠 Ranked candidates for pasted lines */}
+                                  {row.candidates?.length > 0 && (
+                                    <div className="border-b border-neutral-200 bg-blue-50/40">
+                                      <div className="px-3 pt-2 pb-1 text-[10px] font-semibold uppercase tracking-wide text-blue-700">
+                                        Suggested matches
+                                      </div>
+                                      {row.candidates.map((c: any) => {
+                                        const p = allProducts.find(prod => prod.productCode === c.productCode) || c;
+                                        return (
+                                          <button
+                                            key={`cand-${c.productCode}`}
+                                            onClick={() => selectManualProduct(i, p)}
+                                            className="w-full text-left px-3 py-2 text-sm hover:bg-blue-100 border-b last:border-0 border-blue-100 block"
+                                          >
+                                            <div className="flex items-center justify-between gap-2">
+                                              <span className="font-medium text-neutral-900">{formatProductDisplay(p)}</span>
+                                              <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-neutral-100 text-neutral-600">
+                                                {Math.round(c.score * 100)}%
+                                              </span>
+                                            </div>
+                                            <div className="text-xs text-neutral-500">
+                                              {c.productCode}
+                                              {c.reasons?.length > 0 && ` · ${c.reasons.join(" · ")}`}
+                                            </div>
+                                          </button>
+                                        );
+                                      })}
+                                    </div>
+                                  )}
+
                                   {allProducts
                                     .filter(p => {
+                                      if (row.candidates?.some((c: any) => c.productCode === p.productCode)) return false;
                                       const q = row.searchQuery?.toUpperCase().trim() || "";
                                       if (!q) return true;
                                       const pName = p.productName?.toUpperCase() || "";
@@ -1115,7 +1315,20 @@ const handleContinue = async () => {
 
                     {/* 8: STATUS */}
                     <td className="px-3 py-2 text-center align-middle">
-                      {row.matchedProduct ? (
+                      {row.matchedProduct && needsReview(row, matchThresholds) ? (
+                        <button
+                          onClick={() => confirmManualMatch(i)}
+                          className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${
+                            getMatchConfidenceLevel(row, matchThresholds) === "LOW"
+                              ? "bg-red-100 text-red-800 hover:bg-red-200"
+                              : "bg-orange-100 text-orange-800 hover:bg-orange-200"
+                          }`}
+                          title="Matched from pasted text with low confidence – click to confirm it is correct"
+                        >
+                          Review {Math.round(Number(row.matchConfidence) * 100)}%
+                          <Check className="w-3 h-3" />
+                        </button>
+                      ) : row.matchedProduct ? (
                         <div className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
                           OK
                         </div>
@@ -1201,6 +1414,14 @@ const handleContinue = async () => {
           </Button>
         </div>
       </div>
+
+      <PasteOrderModal
+        isOpen={showPasteModal}
+        onClose={() => setShowPasteModal(false)}
+        customerCode={manualCustomer?.code}
+        thresholds={matchThresholds}
+        onAdd={addPastedRows}
+      />
     </div>
   );
 }
@@ -1,12 +1,21 @@
 import React, { useEffect, useState } from 'react';
-import { Upload, FileText, CheckCircle, XCircle, TrendingUp } from 'lucide-react';
+import { Upload, FileText, CheckCircle, XCircle, TrendingUp, PlayCircle, Trash2, ShieldAlert } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { Card } from '../Card';
 import { Button } from '../Button';
 import { StatCard } from '../StatCard';
 import { Table } from '../Table';
+import { OrderStatusBadge } from '../OrderStatusBadge';
 import { Badge } from '../Badge';
 import api from '../../services/api';
+import {
+  listMappingDrafts,
+  deleteMappingDraft,
+  MappingDraftSummary,
+  getApprovalNotifications,
+  ApprovalQueueItem,
+} from '../../services/orderApi';
+import { APPROVAL_STATE_META } from '../../utils/orderApproval';
 import { toast } from 'sonner';
 
 export function UserDashboard() {
@@ -14,6 +23,8 @@ export function UserDashboard() {
   const [stats, setStats] = useState<any>(null);
   const [recentUploads, setRecentUploads] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
+  const [drafts, setDrafts] = useState<MappingDraftSummary[]>([]);
+  const [approvals, setApprovals] = useState<ApprovalQueueItem[]>([]);
 
   useEffect(() => {
     loadDashboard();
@@ -25,6 +36,16 @@ export function UserDashboard() {
       const res = await api.get("/user/dashboard");
       setStats(res.data.stats);
       setRecentUploads(res.data.recentUploads);
+
+      // Unfinished mappings – best effort, never blocks the dashboard
+      listMappingDrafts()
+        .then(setDrafts)
+        .catch(err => console.error('Draft list error:', err));
+
+      // Orders waiting for approval and recent decisions – best effort too
+      getApprovalNotifications()
+        .then(setApprovals)
+        .catch(err => console.error('Approval notifications error:', err));
     } catch (err: any) {
       console.error('Dashboard error:', err);
       toast.error('Failed to load dashboard');
@@ -33,6 +54,17 @@ export function UserDashboard() {
     }
   };
 
+  const handleDiscardDraft = async (uploadId: string) => {
+    if (!confirm('Discard this draft? Mapping progress will be lost.')) return;
+    try {
+      await deleteMappingDraft(uploadId);
+      setDrafts(prev => prev.filter(d => d.uploadId !== uploadId));
+      toast.success('Draft discarded');
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || 'Failed to discard draft');
+    }
+  };
+
   const columns = [
     { 
       key: 'fileName', 
@@ -76,9 +108,7 @@ export function UserDashboard() {
       key: 'status',
       label: 'Status',
       render: (value: string) => {
-        if (value === "CONVERTED") return <Badge variant="success">Success</Badge>;
-        if (value === "FAILED") return <Badge variant="error">Failed</Badge>;
-        return <Badge variant="neutral">{value || "Processing"}</Badge>;
+        return <OrderStatusBadge status={value} />;
       },
     },
     { 
@@ -148,6 +178,38 @@ export function UserDashboard() {
         />
       </div>
 
+      {/* Approval Updates */}
+      {approvals.length > 0 && (
+        <Card>
+          <h3 className="text-lg font-semibold text-neutral-900 mb-4 flex items-center gap-2">
+            <ShieldAlert className="w-5 h-5 text-yellow-600" />
+            Approval Updates
+          </h3>
+          <div className="divide-y divide-neutral-100">
+            {approvals.map(a => {
+              const meta = APPROVAL_STATE_META[a.approval.state];
+              return (
+                <button
+                  key={a._id}
+                  onClick={() => navigate(`/result/${a._id}`)}
+                  className="w-full flex items-center justify-between gap-4 py-3 text-left hover:bg-neutral-50"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium text-neutral-900 truncate">{a.orderRef || a.fileName}</p>
+                    <p className="text-sm text-neutral-600 truncate">
+                      {a.approval.state === 'PENDING'
+                        ? (a.approval.reasons || []).join(' · ')
+                        : a.approval.comment || `${meta.label} by ${a.approval.decidedBy?.name || a.approval.decidedBy?.email || 'admin'}`}
+                    </p>
+                  </div>
+                  <Badge variant={meta.variant}>{meta.label}</Badge>
+                </button>
+              );
+            })}
+          </div>
+        </Card>
+      )}
+
       {/* Quick Actions */}
       <Card>
         <h3 className="text-lg font-semibold text-neutral-900 mb-4">Quick Actions</h3>
@@ -195,6 +257,38 @@ export function UserDashboard() {
         </div>
       </Card>
 
+      {/* Unfinished Mappings */}
+      {drafts.length > 0 && (
+        <Card>
+          <h3 className="text-lg font-semibold text-neutral-900 mb-4">Resume Mapping</h3>
+          <div className="divide-y divide-neutral-100">
+            {drafts.map(d => (
+              <div key={d.uploadId} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-neutral-900 truncate">{d.fileNames.join(', ') || 'Untitled upload'}</p>
+                  <p className="text-sm text-neutral-600 truncate">
+                    {d.customerNames.length > 0 ? d.customerNames.join(', ') : 'No customer selected'}
+                    {' · '}
+                    {d.mappedCount}/{d.rowCount} mapped
+                    {' · '}
+                    saved {new Date(d.updatedAt).toLocaleString('en-IN')}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Button variant="primary" size="sm" onClick={() => navigate(`/mapping?uploadId=${d.uploadId}`)}>
+                    <PlayCircle className="w-4 h-4 mr-1" />
+                    Resume
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDiscardDraft(d.uploadId)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
       {/* Recent Uploads Table */}
       <Card>
         <div className="flex items-center justify-between mb-4">
@@ -0,0 +1,112 @@
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { ShieldAlert, ShieldCheck, ShieldX } from "lucide-react";
+import { Card } from "../Card";
+import { Button } from "../Button";
+import { Badge } from "../Badge";
+import { decideOrderApproval } from "../../services/orderApi";
+import { APPROVAL_STATE_META, OrderApproval } from "../../utils/orderApproval";
+
+interface ApprovalNoticeProps {
+  orderId: string;
+  approval: OrderApproval;
+  canDecide: boolean;
+  onChange: (approval: OrderApproval) => void;
+}
+
+const ICONS = {
+  PENDING: ShieldAlert,
+  APPROVED: ShieldCheck,
+  REJECTED: ShieldX,
+};
+
+export const ApprovalNotice: React.FC<ApprovalNoticeProps> = ({
+  orderId,
+  approval,
+  canDecide,
+  onChange,
+}) => {
+  const [comment, setComment] = useState("");
+  const [deciding, setDeciding] = useState<"APPROVED" | "REJECTED" | null>(null);
+
+  if (approval.state === "NOT_REQUIRED") return null;
+
+  const meta = APPROVAL_STATE_META[approval.state];
+  const Icon = ICONS[approval.state];
+
+  const handleDecision = async (decision: "APPROVED" | "REJECTED") => {
+    if (decision === "REJECTED" && !comment.trim()) {
+      toast.error("Add a comment so the user knows what to change");
+      return;
+    }
+
+    try {
+      setDeciding(decision);
+      const res = await decideOrderApproval(orderId, decision, comment.trim() || undefined);
+      onChange(res.approval || { ...approval, state: decision, comment: comment.trim() });
+      setComment("");
+      toast.success(decision === "APPROVED" ? "Order approved" : "Order rejected");
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || err.response?.data?.error || "Failed to save decision");
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  return (
+    <Card>
+      <div className="p-4 space-y-3">
+        <div className="flex items-center gap-3">
+          <Icon className="w-5 h-5 text-neutral-600" />
+          <h3 className="font-semibold text-gray-800">Approval</h3>
+          <Badge variant={meta.variant}>{meta.label}</Badge>
+        </div>
+
+        {approval.reasons?.length > 0 && (
+          <ul className="text-sm text-neutral-700 space-y-0.5">
+            {approval.reasons.map((r, i) => (
+              <li key={i}>• {r}</li>
+            ))}
+          </ul>
+        )}
+
+        {approval.state !== "PENDING" && (
+          <p className="text-sm text-neutral-600">
+            {meta.label} by {approval.decidedBy?.name || approval.decidedBy?.email || "an admin"}
+            {approval.decidedAt && ` on ${new Date(approval.decidedAt).toLocaleString()}`}
+            {approval.comment && <span className="block text-neutral-800 mt-1">"{approval.comment}"</span>}
+          </p>
+        )}
+
+        {approval.state === "PENDING" && canDecide && (
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Comment (required to reject)"
+              maxLength={1000}
+              className="flex-1 text-sm border border-neutral-300 rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <Button
+              size="sm"
+              onClick={() => handleDecision("APPROVED")}
+              isLoading={deciding === "APPROVED"}
+              disabled={!!deciding}
+            >
+              Approve
+            </Button>
+            <Button
+              size="sm"
+              variant="danger"
+              onClick={() => handleDecision("REJECTED")}
+              isLoading={deciding === "REJECTED"}
+              disabled={!!deciding}
+            >
+              Reject
+            </Button>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
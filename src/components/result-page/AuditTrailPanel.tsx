@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { History, Undo2, Download, RefreshCw } from "lucide-react";
+import { Card } from "../Card";
+import { Button } from "../Button";
+import { Badge } from "../Badge";
+import {
+  getEditAudit,
+  revertEditAudit,
+  downloadEditAudit,
+  AuditDataset,
+  EditAuditEntry,
+} from "../../services/orderApi";
+
+interface AuditTrailPanelProps {
+  orderId: string;
+  refreshKey: number;           // Bump after a save so new entries show up
+  onReverted: (entry: EditAuditEntry, row: any) => void;
+}
+
+const COLLAPSED_COUNT = 5;
+
+const DATASET_LABELS: Record<AuditDataset, string> = {
+  converted: "Order",
+  scheme: "Scheme",
+};
+
+const valueText = (v: any) => {
+  if (v === null || v === undefined || v === "") return "(empty)";
+  return typeof v === "object" ? JSON.stringify(v) : String(v);
+};
+
+export const AuditTrailPanel: React.FC<AuditTrailPanelProps> = ({
+  orderId,
+  refreshKey,
+  onReverted,
+}) => {
+  const [entries, setEntries] = useState<EditAuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [dataset, setDataset] = useState<AuditDataset | "">("");
+  const [loading, setLoading] = useState(false);
+  const [expanded, setExpanded] = useState(false);
+  const [reverting, setReverting] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<string | null>(null);
+
+  const loadEntries = async () => {
+    try {
+      setLoading(true);
+      const res = await getEditAudit(orderId, { dataset: dataset || undefined, limit: 200 });
+      setEntries(res.data);
+      setTotal(res.pagination?.total ?? res.data.length);
+    } catch (err) {
+      console.error("Audit trail load error:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, [orderId, dataset, refreshKey]);
+
+  // Entries already undone by a later revert
+  const revertedIds = new Set(entries.map((e) => e.revertOf).filter(Boolean));
+
+  const handleRevert = async (entry: EditAuditEntry) => {
+    if (!confirm(`Set ${entry.field} on row ${entry.rowIndex + 1} back to ${valueText(entry.oldValue)}?`)) return;
+
+    try {
+      setReverting(entry._id);
+      const res = await revertEditAudit(orderId, entry._id);
+      toast.success(res.version ? `Change reverted (saved as version ${res.version})` : "Change reverted");
+      onReverted(entry, res.row);
+      loadEntries();
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || err.response?.data?.error || "Revert failed");
+    } finally {
+      setReverting(null);
+    }
+  };
+
+  const handleExport = async (format: string) => {
+    try {
+      setExporting(format);
+      await downloadEditAudit(orderId, format);
+    } catch (err) {
+      console.error("Audit export error:", err);
+      toast.error("Failed to export change log");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  if (!loading && entries.length === 0 && !dataset) return null;
+
+  const visible = expanded ? entries : entries.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <Card>
+      <div className="p-4 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <History className="w-5 h-5 text-neutral-600" />
+            <h3 className="font-semibold text-gray-800">Change Log</h3>
+            <Badge variant="neutral">{total}</Badge>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={dataset}
+              onChange={(e) => setDataset(e.target.value as AuditDataset | "")}
+              className="text-sm border border-neutral-300 rounded-lg px-2 py-1.5 bg-white"
+            >
+              <option value="">All edits</option>
+              <option value="converted">Order rows</option>
+              <option value="scheme">Scheme rows</option>
+            </select>
+            <Button size="sm" variant="secondary" onClick={() => handleExport("CSV")} isLoading={exporting === "CSV"} disabled={!!exporting}>
+              <Download className="w-4 h-4 mr-1" /> CSV
+            </Button>
+            <Button size="sm" variant="secondary" onClick={() => handleExport("XLSX")} isLoading={exporting === "XLSX"} disabled={!!exporting}>
+              <Download className="w-4 h-4 mr-1" /> Excel
+            </Button>
+          </div>
+        </div>
+
+        {loading && entries.length === 0 ? (
+          <div className="flex justify-center py-4">
+            <RefreshCw className="w-5 h-5 animate-spin text-neutral-400" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-neutral-500">No edits recorded</p>
+        ) : (
+          <ol className="divide-y divide-neutral-100 text-sm">
+            {visible.map((e) => (
+              <li key={e._id} className="flex items-start justify-between gap-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-neutral-800">
+                    <span className="text-neutral-500">
+                      {DATASET_LABELS[e.dataset]} row {e.rowIndex + 1}
+                      {e.rowKey ? ` · ${e.rowKey}` : ""}
+                    </span>{" "}
+                    {e.op === "UPDATE" ? (
+                      <>
+                        <span className="font-medium">{e.field}</span>:{" "}
+                        <span className="line-through text-red-600">{valueText(e.oldValue)}</span>
+                        {" → "}
+                        <span className="text-green-700">{valueText(e.newValue)}</span>
+                      </>
+                    ) : (
+                      <span className="font-medium">{e.op === "ADD" ? "row added" : "row removed"}</span>
+                    )}
+                    {e.revertOf && <Badge variant="info" className="ml-2">Revert</Badge>}
+                    {revertedIds.has(e._id) && <Badge variant="neutral" className="ml-2">Reverted</Badge>}
+                  </p>
+                  <p className="text-xs text-neutral-400">
+                    {e.by?.name || e.by?.email || "Unknown"} · {new Date(e.at).toLocaleString()}
+                  </p>
+                </div>
+
+                {e.op === "UPDATE" && !revertedIds.has(e._id) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRevert(e)}
+                    disabled={!!reverting}
+                    title="Revert this change"
+                  >
+                    {reverting === e._id ? (
+                      <RefreshCw className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Undo2 className="w-4 h-4" />
+                    )}
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {entries.length > COLLAPSED_COUNT && (
+          <button
+            onClick={() => setExpanded((v) => !v)}
+            className="text-sm text-blue-600 hover:underline"
+          >
+            {expanded ? "Show fewer" : `Show all ${entries.length}`}
+          </button>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -1,7 +1,8 @@
 import React from "react";
-import { Download, RefreshCw } from "lucide-react";
+import { Download, RefreshCw, Lock } from "lucide-react";
 import { Button } from "../Button";
 import { conversionData } from "../../types";
+import { ExportFormat } from "../../services/orderApi";
 
 interface DownloadActionsProps {
   data: conversionData;
@@ -11,6 +12,10 @@ interface DownloadActionsProps {
   selectedDivision: string;
   onDivisionChange: (d: string) => void;
   onDivisionDownload: () => void;
+  exportFormats: ExportFormat[];
+  selectedFormat: string;
+  onFormatChange: (format: string) => void;
+  lockReason?: string | null;   // Set while the order waits for (or failed) approval
 }
 
 export const DownloadActions: React.FC<DownloadActionsProps> = ({
@@ -21,9 +26,41 @@ export const DownloadActions: React.FC<DownloadActionsProps> = ({
   selectedDivision,
   onDivisionChange,
   onDivisionDownload,
+  exportFormats,
+  selectedFormat,
+  onFormatChange,
+  lockReason,
 }) => {
+  const fileLabel = selectedFormat === "XLSX" ? "Excel File" : "File";
+
+  if (lockReason) {
+    return (
+      <div className="flex items-start gap-2 max-w-sm mt-4 sm:mt-0 p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+        <Lock className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        <span>{lockReason}</span>
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto mt-4 sm:mt-0">
+      {/* EXPORT FORMAT */}
+      {exportFormats.length > 1 && (
+        <select
+          value={selectedFormat}
+          onChange={(e) => onFormatChange(e.target.value)}
+          disabled={!!downloadingType}
+          title={exportFormats.find((f) => f.id === selectedFormat)?.description}
+          className="text-sm border-gray-300 rounded-md shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50 h-9 bg-white w-full sm:w-auto"
+        >
+          {exportFormats.map((f) => (
+            <option key={f.id} value={f.id}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+      )}
+
       {/* DYNAMIC DOWNLOAD BUTTONS */}
       {data.downloadUrls && data.downloadUrls.length > 0 ? (
         data.downloadUrls.map((dl, idx) => (
@@ -46,7 +83,7 @@ export const DownloadActions: React.FC<DownloadActionsProps> = ({
                   ? "Download Sheet Orders"
                   : dl.type === "main"
                   ? "Download Main Order"
-                  : "Download Excel File"}
+                  : `Download ${fileLabel}`}
               </>
             )}
           </Button>
@@ -67,7 +104,7 @@ export const DownloadActions: React.FC<DownloadActionsProps> = ({
           ) : (
             <>
               <Download className="w-4 h-4" />
-              Download Excel File
+              Download {fileLabel}
             </>
           )}
         </Button>
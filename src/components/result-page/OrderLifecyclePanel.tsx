@@ -0,0 +1,111 @@
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { Clock } from "lucide-react";
+import { Card } from "../Card";
+import { Button } from "../Button";
+import { OrderStatusBadge } from "../OrderStatusBadge";
+import { updateOrderStatus } from "../../services/orderApi";
+import {
+  ORDER_STATUS_META,
+  OrderStatus,
+  StatusChange,
+  manualTransitions,
+  normalizeOrderStatus,
+} from "../../utils/orderStatus";
+
+interface OrderLifecyclePanelProps {
+  orderId: string;
+  status?: string;
+  history: StatusChange[];
+  onChange: (status: OrderStatus, history: StatusChange[]) => void;
+  approvalLocked?: boolean;     // Approve / dispatch wait for the approval gate
+}
+
+export const OrderLifecyclePanel: React.FC<OrderLifecyclePanelProps> = ({
+  orderId,
+  status,
+  history,
+  onChange,
+  approvalLocked = false,
+}) => {
+  const [note, setNote] = useState("");
+  const [updating, setUpdating] = useState<OrderStatus | null>(null);
+
+  const current = normalizeOrderStatus(status);
+  const actions = manualTransitions(current).filter(
+    (s) => !approvalLocked || (s !== "APPROVED" && s !== "DISPATCHED")
+  );
+
+  const handleTransition = async (to: OrderStatus) => {
+    if (to === "CANCELLED" && !confirm("Cancel this order? Cancelled orders cannot be reopened.")) return;
+
+    try {
+      setUpdating(to);
+      const res = await updateOrderStatus(orderId, to, note.trim() || undefined);
+      onChange(normalizeOrderStatus(res.status || to), res.statusHistory || history);
+      setNote("");
+      toast.success(`Order marked ${ORDER_STATUS_META[to].label}`);
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || err.response?.data?.error || "Status change failed");
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  return (
+    <Card>
+      <div className="p-4 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <h3 className="font-semibold text-gray-800">Order Status</h3>
+            <OrderStatusBadge status={current} />
+          </div>
+
+          {actions.length > 0 && (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <input
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Note (optional)"
+                className="text-sm border border-neutral-300 rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {actions.map((to) => (
+                <Button
+                  key={to}
+                  size="sm"
+                  variant={to === "CANCELLED" ? "danger" : to === "MAPPING" ? "secondary" : "primary"}
+                  onClick={() => handleTransition(to)}
+                  isLoading={updating === to}
+                  disabled={!!updating}
+                >
+                  {ORDER_STATUS_META[to].action || ORDER_STATUS_META[to].label}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {history.length > 0 && (
+          <ol className="relative border-l border-neutral-200 ml-2 space-y-3">
+            {[...history].reverse().map((h, i) => (
+              <li key={i} className="ml-4">
+                <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-white border-2 border-blue-400" />
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <OrderStatusBadge status={h.to} />
+                  <span className="text-neutral-600">
+                    {h.by?.name || h.by?.email || "System"}
+                  </span>
+                  <span className="text-xs text-neutral-400 flex items-center gap-1">
+                    <Clock className="w-3 h-3" />
+                    {new Date(h.at).toLocaleString()}
+                  </span>
+                </div>
+                {h.note && <p className="text-xs text-neutral-500 mt-0.5">{h.note}</p>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -43,9 +43,11 @@ export const PreviewTable: React.FC<PreviewTableProps> = ({
           </thead>
           <tbody className="divide-y divide-gray-100">
             {previewData.map((row, i) => {
-              // Highlights row if it appears in schemeDetails (matching by SAPCODE)
+              // Highlights row if it appears in schemeDetails (matching by SAPCODE,
+              // read from the canonical row since templates may rename it)
+              const source = row._source || row;
               const isSchemeRow = schemeDetails?.some(
-                (s) => s.productCode === row["SAPCODE"]
+                (s) => s.productCode === source["SAPCODE"]
               );
 
               return (
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Layers, Download, GitCompare } from "lucide-react";
+import { Card } from "../Card";
+import { Button } from "../Button";
+import { Badge } from "../Badge";
+import { VersionDiffModal } from "../modals/VersionDiffModal";
+import { getOrderVersions, downloadOrderVersion, OrderVersionSummary } from "../../services/orderApi";
+
+interface VersionHistoryPanelProps {
+  orderId: string;
+  refreshKey: number;           // Bump after a save so the new version shows up
+  exportFormat: string;
+  downloadLocked?: boolean;
+}
+
+const REASON_LABELS: Record<OrderVersionSummary["reason"], string> = {
+  CONVERSION: "Converted",
+  EDIT: "Rows edited",
+  SCHEME_EDIT: "Scheme edited",
+  REVERT: "Change reverted",
+};
+
+export const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
+  orderId,
+  refreshKey,
+  exportFormat,
+  downloadLocked = false,
+}) => {
+  const [versions, setVersions] = useState<OrderVersionSummary[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [compareWith, setCompareWith] = useState<number | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+
+  useEffect(() => {
+    getOrderVersions(orderId)
+      .then((list) => {
+        setVersions(list);
+        // Newest selected, compared with the one before it
+        setSelected(list[0]?.version ?? null);
+        setCompareWith(list[1]?.version ?? null);
+      })
+      .catch((err) => console.error("Version list error:", err));
+  }, [orderId, refreshKey]);
+
+  if (versions.length === 0) return null;
+
+  const current = versions.find((v) => v.version === selected);
+
+  const handleDownload = async () => {
+    if (selected === null) return;
+    try {
+      setDownloading(true);
+      await downloadOrderVersion(orderId, selected, exportFormat);
+      toast.success(`Version ${selected} downloaded`);
+    } catch (err: any) {
+      toast.error(err.response?.status === 403 ? "Downloads are locked until the order is approved" : "Failed to download version");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <div className="p-4 space-y-3">
+        <div className="flex items-center gap-3">
+          <Layers className="w-5 h-5 text-neutral-600" />
+          <h3 className="font-semibold text-gray-800">Versions</h3>
+          <Badge variant="neutral">{versions.length}</Badge>
+        </div>
+
+        <div className="flex flex-col lg:flex-row lg:items-center gap-2">
+          <select
+            value={selected ?? ""}
+            onChange={(e) => {
+              const version = Number(e.target.value);
+              setSelected(version);
+              if (version === compareWith) {
+                setCompareWith(versions.find((v) => v.version !== version)?.version ?? null);
+              }
+            }}
+            className="text-sm border border-neutral-300 rounded-lg px-2 py-1.5 bg-white lg:w-80"
+          >
+            {versions.map((v, i) => (
+              <option key={v.version} value={v.version}>
+                v{v.version} · {REASON_LABELS[v.reason] || v.reason} · {new Date(v.createdAt).toLocaleString()}
+                {i === 0 ? " (current)" : ""}
+              </option>
+            ))}
+          </select>
+
+          {!downloadLocked && (
+            <Button size="sm" variant="secondary" onClick={handleDownload} isLoading={downloading}>
+              <Download className="w-4 h-4 mr-1" /> Download
+            </Button>
+          )}
+
+          {versions.length > 1 && (
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-neutral-500">compare with</span>
+              <select
+                value={compareWith ?? ""}
+                onChange={(e) => setCompareWith(Number(e.target.value))}
+                className="text-sm border border-neutral-300 rounded-lg px-2 py-1.5 bg-white"
+              >
+                {versions
+                  .filter((v) => v.version !== selected)
+                  .map((v) => (
+                    <option key={v.version} value={v.version}>
+                      v{v.version}
+                    </option>
+                  ))}
+              </select>
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => setComparing(true)}
+                disabled={compareWith === null || compareWith === selected}
+              >
+                <GitCompare className="w-4 h-4 mr-1" /> Compare
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {current && (
+          <p className="text-xs text-neutral-500">
+            {current.rowCount} rows · saved by {current.createdBy?.name || current.createdBy?.email || "system"}
+            {current.note ? ` · ${current.note}` : ""}
+          </p>
+        )}
+      </div>
+
+      {comparing && selected !== null && compareWith !== null && (
+        <VersionDiffModal
+          isOpen={comparing}
+          onClose={() => setComparing(false)}
+          orderId={orderId}
+          // Older version on the left
+          from={Math.min(selected, compareWith)}
+          to={Math.max(selected, compareWith)}
+        />
+      )}
+    </Card>
+  );
+};
@@ -1,4 +1,5 @@
 import api from "./api";
+import { MatchThresholds, normalizeThresholds } from "../utils/matchConfidence";
 
 /* =====================================
    MASTER DATA API (PRODUCTION)
@@ -32,6 +33,57 @@ export interface ProductData {
   productCode: string;
   productName: string;
   division?: string;
+  rate?: number;                // Used to value free goods for approvals
+}
+
+export interface ProductAliasData {
+  _id?: string;
+  customerCode: string;
+  customerName?: string;
+  invoiceDesc: string;          // Raw ITEMDESC as written by the customer
+  normalizedDesc?: string;
+  productCode: string;
+  productName?: string;
+  hits?: number;                // Times the alias was used during extraction
+  updatedAt?: string;
+}
+
+export interface OrderRefSettings {
+  prefix: string;
+  separator: "/" | "-";
+  padding: number;              // Digits in the running number (zero-padded)
+  resetEachFinancialYear: boolean;
+}
+
+export interface ApprovalSettings {
+  enabled: boolean;
+  maxFreeValue: number | null;      // Free qty × product rate, summed over the order
+  maxSchemePercent: number | null;  // Highest scheme percent on any line
+  maxTotalQty: number | null;       // Sum of ordered quantities
+}
+
+export interface OutputTemplateColumn {
+  header: string;
+  field: string;                // Source field, "=COMPUTED" id, or "" for a fixed value
+  constant?: string;
+}
+
+// outputTemplateId for "Built-in columns" (null would fall back to the default template)
+export const BUILTIN_OUTPUT_TEMPLATE = "builtin";
+
+export interface OutputTemplateData {
+  _id?: string;
+  name: string;
+  divisions: string[];          // Division reports for these divisions use this layout
+  isDefault: boolean;
+  columns: OutputTemplateColumn[];
+  updatedAt?: string;
+}
+
+export interface OutputField {
+  id: string;
+  label: string;
+  computed: boolean;
 }
 
 export const masterDataApi = {
@@ -170,6 +222,7 @@ export const masterDataApi = {
     payload: {
       productName?: string;
       division?: string;
+      rate?: number;
     }
   ) {
     return api.put(`/admin/products/${id}`, payload);
@@ -266,4 +319,98 @@ export const masterDataApi = {
       throw err;
     }
   },
+
+  /* =====================================
+     PRODUCT ALIASES (LEARNED MAPPINGS)
+  ===================================== */
+
+  async getAliases(search = "", page = 1, limit = 20) {
+    const res = await api.get("/admin/aliases", {
+      params: { search, page, limit },
+    });
+
+    const data = Array.isArray(res.data?.data)
+      ? res.data.data
+      : [];
+
+    const total = res.data?.total ?? data.length;
+
+    return {
+      data,
+      total,
+      page: res.data?.page || page,
+      limit: res.data?.limit || limit,
+    };
+  },
+
+  updateAlias(id: string, payload: Partial<ProductAliasData>) {
+    return api.put(`/admin/aliases/${id}`, payload);
+  },
+
+  deleteAlias(id: string) {
+    return api.delete(`/admin/aliases/${id}`);
+  },
+
+  /* =====================================
+     MATCH CONFIDENCE SETTINGS
+  ===================================== */
+
+  async getMatchSettings(): Promise<MatchThresholds> {
+    const res = await api.get("/admin/settings/matching");
+    return normalizeThresholds(res.data?.settings || res.data);
+  },
+
+  updateMatchSettings(payload: MatchThresholds) {
+    return api.put("/admin/settings/matching", payload);
+  },
+
+  /* =====================================
+     ORDER REFERENCE FORMAT
+  ===================================== */
+
+  async getOrderRefSettings(): Promise<OrderRefSettings> {
+    const res = await api.get("/admin/settings/order-ref");
+    return res.data?.settings || res.data;
+  },
+
+  updateOrderRefSettings(payload: OrderRefSettings) {
+    return api.put("/admin/settings/order-ref", payload);
+  },
+
+  /* =====================================
+     APPROVAL THRESHOLDS
+  ===================================== */
+
+  async getApprovalSettings(): Promise<ApprovalSettings> {
+    const res = await api.get("/admin/settings/approval");
+    return res.data?.settings || res.data;
+  },
+
+  updateApprovalSettings(payload: ApprovalSettings) {
+    return api.put("/admin/settings/approval", payload);
+  },
+
+  /* =====================================
+     OUTPUT COLUMN TEMPLATES
+  ===================================== */
+
+  async getOutputTemplates(): Promise<{ templates: OutputTemplateData[]; fields: OutputField[] }> {
+    const res = await api.get("/admin/output-templates");
+    return {
+      templates: Array.isArray(res.data?.templates) ? res.data.templates : [],
+      fields: Array.isArray(res.data?.fields) ? res.data.fields : [],
+    };
+  },
+
+  createOutputTemplate(payload: OutputTemplateData) {
+    return api.post("/admin/output-templates", payload);
+  },
+
+  updateOutputTemplate(id: string, payload: OutputTemplateData) {
+    return api.put(`/admin/output-templates/${id}`, payload);
+  },
+
+  deleteOutputTemplate(id: string) {
+    return api.delete(`/admin/output-templates/${id}`);
+  },
 };
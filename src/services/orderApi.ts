@@ -1,33 +1,61 @@
 import api from "./api";
+import { OrderApproval } from "../utils/orderApproval";
 
 export const getOrderResult = async (id: string) => {
   const { data } = await api.get(`/orders/${id}`);
   return data;
 };
 
-// ============ COD SEQUENTIAL NAMING SYSTEM ============
-// Each unique upload gets a persistent COD number (COD1, COD2, etc.)
-// Stored in localStorage for persistence across sessions
+// ============ ORDER REFERENCE NAMING ============
+// The order reference (e.g. COD/2024-25/00042) is allocated by the server at
+// conversion time and stored on the upload; downloads carry it in X-Order-Ref.
+// Filenames use it so the same order has the same name on every machine.
 
-const getCodNumber = (uploadId: string): number => {
-  // Get existing mapping
-  const mappingStr = localStorage.getItem("codMapping");
-  const mapping: Record<string, number> = mappingStr ? JSON.parse(mappingStr) : {};
+const orderRefFileBase = (orderRef: string) => orderRef.replace(/[\\/:*?"<>|\s]+/g, "-");
 
-  // If this upload already has a COD number, return it
-  if (mapping[uploadId]) return mapping[uploadId];
+const downloadFileBase = (res: any, id: string): string => {
+  const orderRef = res.headers?.["x-order-ref"];
+  // Orders converted before references existed: fall back to the upload id
+  return orderRef ? orderRefFileBase(orderRef) : `Order-${id.slice(-6).toUpperCase()}`;
+};
+
+// ============ EXPORT FORMATS ============
+// Registry lives on the backend (column layouts per format); the UI only lists them
+
+export interface ExportFormat {
+  id: string;
+  label: string;
+  description?: string;
+  extension: string;
+}
+
+export const DEFAULT_EXPORT_FORMAT = "XLSX";
+
+// Used until the server list loads (or if it fails)
+export const FALLBACK_EXPORT_FORMATS: ExportFormat[] = [
+  { id: "XLSX", label: "Excel (.xlsx)", extension: "xlsx" }
+];
+
+export const getExportFormats = async (): Promise<ExportFormat[]> => {
+  const { data } = await api.get("/orders/export-formats");
+  return data.formats || [];
+};
 
-  // Assign next number
-  const counter = Number(localStorage.getItem("codCounter") || "0") + 1;
-  mapping[uploadId] = counter;
-  localStorage.setItem("codCounter", String(counter));
-  localStorage.setItem("codMapping", JSON.stringify(mapping));
-  return counter;
+const EXTENSION_BY_MIME: Record<string, string> = {
+  "text/csv": "csv",
+  "text/plain": "txt",
+  "application/json": "json",
+  "application/pdf": "pdf"
 };
 
-export const downloadOrderFile = async (id: string, originalFileName?: string, type?: 'sheets' | 'main') => {
+export const downloadOrderFile = async (
+  id: string,
+  originalFileName?: string,
+  type?: 'sheets' | 'main',
+  format: string = DEFAULT_EXPORT_FORMAT
+) => {
   try {
-    console.log(`🔽 Downloading file for ID: ${id} ${type ? `(Type: ${type})` : ''}`);
+    console.log(`🔽 Downloading file for ID: ${id} ${type ? `(Type: ${type})` : ''} as ${format}`);
 
     const endpoint = type 
       ? `/orders/download/${id}/${type}` 
@@ -35,32 +63,37 @@ export const downloadOrderFile = async (id: string, originalFileName?: string, t
 
     const res = await api.get(endpoint, {
       responseType: "blob",
+      params: format !== DEFAULT_EXPORT_FORMAT ? { format } : undefined
     });
 
     // Check if we got an error JSON instead of a file
+    // (the JSON export itself is { order, lines }, never a message)
     const contentType = res.headers["content-type"];
     if (contentType?.includes("application/json")) {
       const text = await res.data.text();
-      const errorData = JSON.parse(text);
-      throw new Error(errorData.message || "Download failed");
+      const body = JSON.parse(text);
+      if (format !== "JSON" || body?.message) {
+        throw new Error(body?.message || "Download failed");
+      }
     }
 
     // Create and trigger download
+    const mimeType = contentType?.split(";")[0].trim() || "";
+    const extension = EXTENSION_BY_MIME[mimeType] || "xlsx";
     const blob = new Blob([res.data], {
-      type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      type: mimeType || "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
     });
     
-    // COD-based filename
-    const codNum = getCodNumber(id);
-    const codBase = `COD${codNum}`;
+    // Order-reference filename
+    const fileBase = downloadFileBase(res, id);
     let name: string;
 
     if (type === 'sheets') {
-      name = `${codBase}-Sheets.xlsx`;
+      name = `${fileBase}-Sheets.${extension}`;
     } else if (type === 'main') {
-      name = `${codBase}.xlsx`;
+      name = `${fileBase}.${extension}`;
     } else {
-      name = `${codBase}.xlsx`;
+      name = `${fileBase}.${extension}`;
     }
 
     const url = window.URL.createObjectURL(blob);
@@ -101,9 +134,8 @@ export const downloadSchemeFile = async (id: string, originalFileName?: string)
       "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
   });
 
-  // COD-based filename for summary
-  const codNum = getCodNumber(id);
-  const name = `COD${codNum}-Summary.xlsx`;
+  // Order-reference filename for summary
+  const name = `${downloadFileBase(res, id)}-Summary.xlsx`;
 
   const url = window.URL.createObjectURL(blob);
   const a = document.createElement("a");
@@ -116,9 +148,11 @@ export const downloadSchemeFile = async (id: string, originalFileName?: string)
 };
 
 // Preview converted orders
-export const previewConvertedOrders = async (id: string, page = 1, limit = 50) => {
+// Canonical rows (SAPCODE, DVN …) for editing; view "output" shapes them with the
+// order's output template, each row keeping its canonical row as _source
+export const previewConvertedOrders = async (id: string, page = 1, limit = 50, view?: "output") => {
   const { data } = await api.get(`/orders/preview/${id}`, {
-    params: { page, limit }
+    params: { page, limit, view }
   });
   return data;
 };
@@ -132,17 +166,333 @@ export const previewSchemeData = async (id: string, page = 1, limit = 50) => {
 };
 
 // Update converted order data
-export const updateConvertedData = async (id: string, rows: any[]) => {
-  const { data } = await api.put(`/orders/converted-data/${id}`, { rows });
+// offset: index of rows[0] in the full order, so audit entries get the real row number
+export const updateConvertedData = async (id: string, rows: any[], offset?: number) => {
+  const { data } = await api.put(`/orders/converted-data/${id}`, { rows, offset });
   return data;
 };
 
 // Update scheme data
-export const updateSchemeData = async (id: string, schemeDetails: any[]) => {
-  const { data } = await api.put(`/orders/scheme-data/${id}`, { schemeDetails });
+export const updateSchemeData = async (id: string, schemeDetails: any[], offset?: number) => {
+  const { data } = await api.put(`/orders/scheme-data/${id}`, { schemeDetails, offset });
+  return data;
+};
+
+// Record confirmed manual mappings so the next upload from the customer auto-maps them
+export const saveProductAliases = async (
+  aliases: Array<{ customerCode: string; invoiceDesc: string; productCode: string }>
+) => {
+  if (aliases.length === 0) return null;
+  const { data } = await api.post("/orders/aliases", { aliases });
+  return data;
+};
+
+// ============ ORDER LIFECYCLE ============
+// Transition rules are enforced on the server (409 when not allowed)
+
+export const updateOrderStatus = async (id: string, status: string, note?: string) => {
+  const { data } = await api.post(`/orders/${id}/status`, { status, note });
+  return data;
+};
+
+// ============ ORDER APPROVAL ============
+// Orders above the admin thresholds are held until an admin decides
+
+export interface ApprovalQueueItem {
+  _id: string;
+  fileName: string;
+  orderRef?: string;
+  status: string;
+  approval: OrderApproval;
+  user?: { name?: string; email?: string };
+  createdAt: string;
+}
+
+export const getApprovalQueue = async (params: { state?: string; page?: number; limit?: number } = {}) => {
+  const { data } = await api.get("/orders/approvals", { params });
+  return {
+    data: (Array.isArray(data?.data) ? data.data : []) as ApprovalQueueItem[],
+    pagination: data?.pagination || null,
+  };
+};
+
+export const decideOrderApproval = async (id: string, decision: "APPROVED" | "REJECTED", comment?: string) => {
+  const { data } = await api.post(`/orders/${id}/approval`, { decision, comment });
+  return data;
+};
+
+// The signed-in user's pending orders and recent decisions
+export const getApprovalNotifications = async (): Promise<ApprovalQueueItem[]> => {
+  const { data } = await api.get("/orders/approvals/mine");
+  return Array.isArray(data?.data) ? data.data : [];
+};
+
+// ============ EDIT AUDIT TRAIL ============
+// Field-level log of edits to converted / scheme rows, recorded by the server on save
+
+export type AuditDataset = "converted" | "scheme";
+
+export interface EditAuditEntry {
+  _id: string;
+  dataset: AuditDataset;
+  op: "UPDATE" | "ADD" | "REMOVE";
+  rowIndex: number;
+  rowKey?: string;
+  field: string;
+  oldValue: any;
+  newValue: any;
+  at: string;
+  by?: { userId?: string; email?: string; name?: string } | null;
+  revertOf?: string;
+}
+
+export const getEditAudit = async (id: string, params: { dataset?: AuditDataset; page?: number; limit?: number } = {}) => {
+  const { data } = await api.get(`/orders/${id}/audit`, { params });
+  return {
+    data: (Array.isArray(data?.data) ? data.data : []) as EditAuditEntry[],
+    pagination: data?.pagination || null,
+  };
+};
+
+// Puts the cell back to its old value (409 if it was changed again since)
+export const revertEditAudit = async (id: string, auditId: string) => {
+  const { data } = await api.post(`/orders/${id}/audit/${auditId}/revert`);
+  return data;
+};
+
+export const downloadEditAudit = async (id: string, format: string = "CSV") => {
+  const res = await api.get(`/orders/${id}/audit/export`, {
+    responseType: "blob",
+    params: { format }
+  });
+
+  const mimeType = res.headers["content-type"]?.split(";")[0].trim() || "";
+  const extension = EXTENSION_BY_MIME[mimeType] || "xlsx";
+  const blob = new Blob([res.data], { type: mimeType || "text/csv" });
+
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${downloadFileBase(res, id)}-Audit.${extension}`;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  window.URL.revokeObjectURL(url);
+};
+
+// ============ ORDER VERSIONS ============
+// Immutable snapshot per conversion / save; any version can be downloaded or compared
+
+export interface OrderVersionSummary {
+  version: number;
+  reason: "CONVERSION" | "EDIT" | "SCHEME_EDIT" | "REVERT";
+  note?: string;
+  rowCount: number;
+  createdAt: string;
+  createdBy?: { userId?: string; email?: string; name?: string } | null;
+}
+
+export interface RowDiff {
+  status: "added" | "removed" | "changed" | "unchanged";
+  code: string;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  changedFields: string[];
+  fromIndex: number | null;
+  toIndex: number | null;
+}
+
+export interface RowSetDiff {
+  headers: string[];
+  summary: { added: number; removed: number; changed: number; unchanged: number };
+  rows: RowDiff[];
+}
+
+export interface VersionDiff {
+  from: number;
+  to: number;
+  converted: RowSetDiff;
+  scheme: RowSetDiff;
+}
+
+export const getOrderVersions = async (id: string): Promise<OrderVersionSummary[]> => {
+  const { data } = await api.get(`/orders/${id}/versions`);
+  return Array.isArray(data?.versions) ? data.versions : [];
+};
+
+export const getVersionDiff = async (id: string, from: number, to: number): Promise<VersionDiff> => {
+  const { data } = await api.get(`/orders/${id}/versions/diff`, { params: { from, to } });
+  return data;
+};
+
+export const downloadOrderVersion = async (id: string, version: number, format: string = DEFAULT_EXPORT_FORMAT) => {
+  const res = await api.get(`/orders/${id}/versions/${version}/download`, {
+    responseType: "blob",
+    params: format !== DEFAULT_EXPORT_FORMAT ? { format } : undefined
+  });
+
+  const mimeType = res.headers["content-type"]?.split(";")[0].trim() || "";
+  const extension = EXTENSION_BY_MIME[mimeType] || "xlsx";
+  const blob = new Blob([res.data], {
+    type: mimeType || "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${downloadFileBase(res, id)}-v${version}.${extension}`;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  window.URL.revokeObjectURL(url);
+};
+
+// ============ DUPLICATE ORDERS ============
+// Extraction flags uploads matching a recent converted order (same file or
+// same customer + lines); /orders/convert then needs a duplicateOverride
+// with a reason (409 DUPLICATE_ORDER otherwise)
+
+export interface DuplicateMatch {
+  uploadId: string;
+  fileName: string;
+  orderRef?: string | null;
+  status: string;
+  createdAt: string;
+  matchType: "FILE_HASH" | "CONTENT";
+  score: number;                // 1 = identical file, else share of matching lines
+  matchedLines: number;
+  totalLines: number;
+}
+
+export interface DuplicateOverride {
+  reason: string;
+  duplicateOf: string[];
+  at?: string;
+  by?: { userId?: string; email?: string; name?: string } | null;
+}
+
+// ============ PASTED ORDER TEXT ============
+// WhatsApp / email text or copied table lines → matched manual rows
+export interface PastedOrderResult {
+  rows: any[];
+  skipped: Array<{ line: number; text: string }>;
+}
+
+export const parsePastedOrder = async (text: string, customerCode?: string): Promise<PastedOrderResult> => {
+  const { data } = await api.post("/orders/parse-text", { text, customerCode });
+  return { rows: data?.rows || [], skipped: data?.skipped || [] };
+};
+
+// ============ MAPPING DRAFTS ============
+// In-progress MappingPage sessions, autosaved against the primary uploadId
+
+export interface MappingDraft {
+  uploadId: string;
+  filesData: any[];
+  rows: any[];
+  sheets: any[];
+  rowErrors: Record<number, string[]>;
+  updatedAt?: string;
+}
+
+export interface MappingDraftSummary {
+  uploadId: string;
+  fileNames: string[];
+  customerNames: string[];
+  rowCount: number;
+  mappedCount: number;
+  updatedAt: string;
+}
+
+export const saveMappingDraft = async (uploadId: string, draft: Omit<MappingDraft, "uploadId" | "updatedAt">) => {
+  const { data } = await api.put(`/orders/drafts/${uploadId}`, draft);
   return data;
 };
 
+export const getMappingDraft = async (uploadId: string): Promise<MappingDraft | null> => {
+  try {
+    const { data } = await api.get(`/orders/drafts/${uploadId}`);
+    return data?.draft || null;
+  } catch (err: any) {
+    if (err.response?.status === 404) return null;
+    throw err;
+  }
+};
+
+export const listMappingDrafts = async (): Promise<MappingDraftSummary[]> => {
+  const { data } = await api.get("/orders/drafts");
+  return data?.drafts || [];
+};
+
+export const deleteMappingDraft = async (uploadId: string) => {
+  const { data } = await api.delete(`/orders/drafts/${uploadId}`);
+  return data;
+};
+
+// ============ COLUMN MAPPING TEMPLATES ============
+// Per-customer spreadsheet layout used when header auto-detection fails
+
+export type TemplateField = "ITEMDESC" | "ORDERQTY" | "PACK" | "FREEQTY";
+
+export interface ColumnTemplate {
+  _id?: string;
+  customerCode: string;
+  customerName?: string;
+  name?: string;
+  headerRowIndex: number;
+  columns: Partial<Record<TemplateField, number>>;
+  skipSheets: string[];
+}
+
+export interface SheetPreview {
+  name: string;
+  totalRows: number;
+  detectedHeaderRowIndex: number;
+  rows: string[][];
+}
+
+// Raw grid of the first rows of every sheet (no header guessing applied)
+export const previewFileLayout = async (file: File): Promise<SheetPreview[]> => {
+  const formData = new FormData();
+  formData.append("file", file);
+  const { data } = await api.post("/orders/preview-layout", formData, {
+    headers: { "Content-Type": "multipart/form-data" },
+  });
+  return data?.sheets || [];
+};
+
+export const getColumnTemplate = async (customerCode: string): Promise<ColumnTemplate | null> => {
+  const { data } = await api.get(`/orders/column-templates/${encodeURIComponent(customerCode)}`);
+  return data?.template || null;
+};
+
+export const saveColumnTemplate = async (template: ColumnTemplate) => {
+  const { data } = await api.put(
+    `/orders/column-templates/${encodeURIComponent(template.customerCode)}`,
+    template
+  );
+  return data;
+};
+
+export interface SourceDocument {
+  kind: "sheet" | "pages";
+  fileName?: string;
+  sheets?: SheetPreview[];   // kind "sheet": full grid of every sheet
+  pageCount?: number;        // kind "pages": PDFs / images, rendered via getSourcePageImage
+}
+
+// Original uploaded file for the side-by-side viewer on MappingPage
+export const getSourceDocument = async (uploadId: string): Promise<SourceDocument> => {
+  const { data } = await api.get(`/orders/${uploadId}/source`);
+  return data;
+};
+
+// Page image of a scanned (OCR) upload, as an object URL – caller revokes it
+export const getSourcePageImage = async (uploadId: string, page: number): Promise<string> => {
+  const res = await api.get(`/orders/${uploadId}/source-page/${page}`, { responseType: "blob" });
+  return window.URL.createObjectURL(res.data);
+};
+
 // Generate Division Report
 export const generateDivisionReport = async (uploadId: string, division?: string) => {
   const { data } = await api.post("/orders/convert/division-report", { uploadId, division });
@@ -1,3 +1,7 @@
+import { StatusChange } from "./utils/orderStatus";
+import { OrderApproval } from "./utils/orderApproval";
+import { DuplicateOverride } from "./services/orderApi";
+
 export interface conversionData {
   successRows: number;
   schemeSummary?: {
@@ -5,6 +9,7 @@ export interface conversionData {
     totalFreeQty: number;
   };
   fileName?: string;
+  orderRef?: string;            // Server-assigned order reference (e.g. COD/2024-25/00042)
   convertedData?: {
     headers: string[];
     rows: any[];
@@ -27,4 +32,7 @@ export interface conversionData {
   processingTime: string | number;
   downloadUrls?: Array<{ type: string; url: string }>;
   status: string;
+  statusHistory?: StatusChange[];
+  approval?: OrderApproval;     // Absent on orders converted before approvals existed
+  duplicateOverride?: DuplicateOverride | null;  // Set when converted despite a duplicate warning
 }
@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/* =====================================================
+   UNDO / REDO FOR EDITING SCREENS
+   Every edit is recorded as a command holding the state
+   it replaced. Undo swaps that state back in and keeps the
+   replaced one for redo, so bulk edits (round-off, sheet
+   changes) revert in a single step.
+   ===================================================== */
+
+export interface EditCommand<S> {
+  id: number;
+  label: string;
+  at: number;
+  mergeKey?: string;
+  snapshot: S;
+}
+
+// Typing into one cell should undo as one step, not one per keystroke
+const MERGE_WINDOW_MS = 1500;
+const MAX_HISTORY = 200;
+
+let nextCommandId = 1;
+
+/**
+ * snapshot – current editable state (kept in a ref, read when a command is recorded)
+ * restore  – puts a previous snapshot back into component state
+ */
+export function useEditHistory<S>(snapshot: S, restore: (s: S) => void) {
+  const [past, setPast] = useState<EditCommand<S>[]>([]);
+  const [future, setFuture] = useState<EditCommand<S>[]>([]);
+
+  const snapshotRef = useRef(snapshot);
+  snapshotRef.current = snapshot;
+  const restoreRef = useRef(restore);
+  restoreRef.current = restore;
+
+  // Call BEFORE applying a change – captures the state being replaced
+  const record = useCallback((label: string, mergeKey?: string) => {
+    const now = Date.now();
+
+    setPast(prev => {
+      const top = prev[prev.length - 1];
+      if (mergeKey && top?.mergeKey === mergeKey && now - top.at < MERGE_WINDOW_MS) {
+        return [...prev.slice(0, -1), { ...top, label, at: now }];
+      }
+      const next = [...prev, { id: nextCommandId++, label, at: now, mergeKey, snapshot: snapshotRef.current }];
+      return next.length > MAX_HISTORY ? next.slice(next.length - MAX_HISTORY) : next;
+    });
+    setFuture([]);
+  }, []);
+
+  const undo = useCallback(() => {
+    const cmd = past[past.length - 1];
+    if (!cmd) return null;
+
+    setPast(past.slice(0, -1));
+    setFuture(prev => [...prev, { ...cmd, mergeKey: undefined, snapshot: snapshotRef.current }]);
+    restoreRef.current(cmd.snapshot);
+    return cmd;
+  }, [past]);
+
+  const redo = useCallback(() => {
+    const cmd = future[future.length - 1];
+    if (!cmd) return null;
+
+    setFuture(future.slice(0, -1));
+    setPast(prev => [...prev, { ...cmd, at: Date.now(), snapshot: snapshotRef.current }]);
+    restoreRef.current(cmd.snapshot);
+    return cmd;
+  }, [future]);
+
+  const clear = useCallback(() => {
+    setPast([]);
+    setFuture([]);
+  }, []);
+
+  return {
+    past,
+    future,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    record,
+    undo,
+    redo,
+    clear
+  };
+}
+
+/**
+ * Ctrl/Cmd+Z → undo, Ctrl/Cmd+Shift+Z or Ctrl+Y → redo.
+ * Text fields (cell editors, search boxes) keep the browser's own undo
+ * for the text being typed.
+ */
+export function useUndoShortcuts(undo: () => void, redo: () => void) {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+      const key = e.key.toLowerCase();
+      const isUndo = key === "z" && !e.shiftKey;
+      const isRedo = (key === "z" && e.shiftKey) || (key === "y" && !e.shiftKey);
+      if (!isUndo && !isRedo) return;
+
+      const target = e.target as HTMLElement | null;
+      const isTextField = !!target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable);
+      if (isTextField) return;
+
+      e.preventDefault();
+      if (isUndo) undo();
+      else redo();
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [undo, redo]);
+}
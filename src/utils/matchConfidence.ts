@@ -0,0 +1,51 @@
+/**
+ * MATCH CONFIDENCE
+ * Classifies auto-matched rows against admin-configured thresholds
+ * so shaky matches are reviewed before conversion.
+ */
+
+export interface MatchThresholds {
+  autoAccept: number;             // >= this score: trusted without review
+  review: number;                 // >= this score: "needs review", below: "low"
+  onUnreviewed: "warn" | "block"; // what Convert does with unconfirmed shaky rows
+}
+
+export const DEFAULT_MATCH_THRESHOLDS: MatchThresholds = {
+  autoAccept: 0.85,
+  review: 0.6,
+  onUnreviewed: "warn"
+};
+
+export type MatchConfidenceLevel = "CONFIRMED" | "HIGH" | "REVIEW" | "LOW" | "UNMATCHED";
+
+export function getMatchConfidenceLevel(row: any, thresholds: MatchThresholds): MatchConfidenceLevel {
+  if (!row.matchedProduct) return "UNMATCHED";
+
+  // Picked by a user now or earlier (alias) → no second look needed
+  if (row.matchConfirmed || row.mappingSource === "MANUAL" || row.mappingSource === "ALIAS") {
+    return "CONFIRMED";
+  }
+
+  const score = Number(row.matchConfidence);
+  if (row.matchConfidence === undefined || row.matchConfidence === null || isNaN(score)) return "HIGH";
+
+  if (score >= thresholds.autoAccept) return "HIGH";
+  if (score >= thresholds.review) return "REVIEW";
+  return "LOW";
+}
+
+export function needsReview(row: any, thresholds: MatchThresholds): boolean {
+  const level = getMatchConfidenceLevel(row, thresholds);
+  return level === "REVIEW" || level === "LOW";
+}
+
+export function normalizeThresholds(input: Partial<MatchThresholds> | null | undefined): MatchThresholds {
+  const autoAccept = Number(input?.autoAccept);
+  const review = Number(input?.review);
+
+  return {
+    autoAccept: isNaN(autoAccept) ? DEFAULT_MATCH_THRESHOLDS.autoAccept : autoAccept,
+    review: isNaN(review) ? DEFAULT_MATCH_THRESHOLDS.review : review,
+    onUnreviewed: input?.onUnreviewed === "block" ? "block" : "warn"
+  };
+}
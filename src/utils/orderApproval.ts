@@ -0,0 +1,47 @@
+/**
+ * ORDER APPROVAL
+ * Orders above the admin thresholds wait for approval before they can be
+ * downloaded. Mirrors the backend gate (the server still enforces it).
+ */
+
+export type ApprovalState = "NOT_REQUIRED" | "PENDING" | "APPROVED" | "REJECTED";
+
+export interface ApprovalActor {
+  userId?: string;
+  email?: string;
+  name?: string;
+}
+
+export interface OrderApproval {
+  state: ApprovalState;
+  reasons: string[];
+  metrics?: { freeValue: number; maxSchemePercent: number; totalQty: number };
+  requestedAt?: string;
+  decidedAt?: string | null;
+  decidedBy?: ApprovalActor | null;
+  comment?: string;
+  history?: Array<{ state: ApprovalState; at: string; by?: ApprovalActor | null; comment?: string }>;
+}
+
+type BadgeVariant = "success" | "error" | "warning" | "info" | "neutral";
+
+export const APPROVAL_STATE_META: Record<ApprovalState, { label: string; variant: BadgeVariant }> = {
+  NOT_REQUIRED: { label: "No Approval Needed", variant: "neutral" },
+  PENDING: { label: "Awaiting Approval", variant: "warning" },
+  APPROVED: { label: "Approved", variant: "success" },
+  REJECTED: { label: "Rejected", variant: "error" }
+};
+
+// Orders converted before approvals existed have no approval block
+export function downloadsAllowed(approval?: Partial<OrderApproval> | null): boolean {
+  const state = approval?.state;
+  return !state || state === "NOT_REQUIRED" || state === "APPROVED";
+}
+
+// Shown where downloads are locked
+export function downloadLockReason(approval?: Partial<OrderApproval> | null): string | null {
+  if (downloadsAllowed(approval)) return null;
+  return approval?.state === "REJECTED"
+    ? "Rejected in approval. Edit and re-convert the order to request approval again."
+    : "Waiting for admin approval. Downloads unlock once the order is approved.";
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import * as client from "./orderStatus";
+import * as server from "../../utils/orderLifecycle.js";
+
+// The client copy decides which buttons to show; it must offer exactly what the server accepts
+describe("order status rules match the server", () => {
+  it("has the same statuses", () => {
+    expect([...client.ORDER_STATUSES].sort()).toEqual([...server.ORDER_STATUSES].sort());
+  });
+
+  it("has the same transitions", () => {
+    expect(client.STATUS_TRANSITIONS).toEqual(server.STATUS_TRANSITIONS);
+  });
+
+  it("has the same system-only statuses", () => {
+    expect([...client.SYSTEM_ONLY].sort()).toEqual([...server.SYSTEM_ONLY].sort());
+  });
+
+  it("maps legacy statuses the same way", () => {
+    expect(client.LEGACY_STATUSES).toEqual(server.LEGACY_STATUSES);
+  });
+
+  it("offers only moves the server accepts from a user", () => {
+    client.ORDER_STATUSES.forEach(from => {
+      client.manualTransitions(from).forEach(to => {
+        expect(server.validateTransition(from, to)).toBeNull();
+      });
+    });
+  });
+});
+
+describe("isLegacyStatus", () => {
+  it("treats missing and pre-lifecycle statuses as legacy", () => {
+    expect(client.isLegacyStatus(undefined)).toBe(true);
+    expect(client.isLegacyStatus("UNKNOWN")).toBe(true);
+    expect(client.isLegacyStatus("converted")).toBe(false);
+  });
+});
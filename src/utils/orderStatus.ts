@@ -0,0 +1,82 @@
+/**
+ * ORDER STATUS
+ * Lifecycle of an uploaded order. Mirrors the backend transition rules so the
+ * UI only offers moves the server will accept (the server still enforces them).
+ */
+
+export type OrderStatus =
+  | "EXTRACTED"
+  | "MAPPING"
+  | "CONVERTED"
+  | "REVIEWED"
+  | "APPROVED"
+  | "DISPATCHED"
+  | "CANCELLED"
+  | "FAILED";
+
+export interface StatusChange {
+  from: OrderStatus;
+  to: OrderStatus;
+  at: string;
+  by?: { userId?: string; email?: string; name?: string } | null;
+  note?: string;
+}
+
+type BadgeVariant = "success" | "error" | "warning" | "info" | "neutral";
+
+export const ORDER_STATUS_META: Record<OrderStatus, { label: string; variant: BadgeVariant; action?: string }> = {
+  EXTRACTED: { label: "Extracted", variant: "neutral" },
+  MAPPING: { label: "Mapping", variant: "warning", action: "Reopen for Mapping" },
+  CONVERTED: { label: "Converted", variant: "info" },
+  REVIEWED: { label: "Reviewed", variant: "info", action: "Mark Reviewed" },
+  APPROVED: { label: "Approved", variant: "success", action: "Approve" },
+  DISPATCHED: { label: "Dispatched to ERP", variant: "success", action: "Mark Dispatched" },
+  CANCELLED: { label: "Cancelled", variant: "neutral", action: "Cancel Order" },
+  FAILED: { label: "Failed", variant: "error" }
+};
+
+export const ORDER_STATUSES = Object.keys(ORDER_STATUS_META) as OrderStatus[];
+
+export const STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  EXTRACTED: ["MAPPING", "CONVERTED", "CANCELLED", "FAILED"],
+  MAPPING: ["CONVERTED", "CANCELLED", "FAILED"],
+  CONVERTED: ["CONVERTED", "REVIEWED", "MAPPING", "CANCELLED"],
+  REVIEWED: ["APPROVED", "MAPPING", "CANCELLED"],
+  APPROVED: ["DISPATCHED", "REVIEWED", "CANCELLED"],
+  DISPATCHED: [],
+  CANCELLED: [],
+  FAILED: ["MAPPING", "CANCELLED"]
+};
+
+// Set by upload / conversion, never from a button
+export const SYSTEM_ONLY: OrderStatus[] = ["EXTRACTED", "FAILED", "CONVERTED"];
+
+// Uploads stored before the lifecycle existed
+export const LEGACY_STATUSES: Record<string, OrderStatus> = {
+  UNKNOWN: "EXTRACTED",
+  PROCESSING: "EXTRACTED",
+  UPLOADED: "EXTRACTED",
+  PENDING: "MAPPING",
+  ERROR: "FAILED"
+};
+
+export function normalizeOrderStatus(status?: string | null): OrderStatus {
+  const s = String(status || "").toUpperCase();
+  if (s in ORDER_STATUS_META) return s as OrderStatus;
+  return LEGACY_STATUSES[s] || "EXTRACTED";
+}
+
+// Missing, or stored before the lifecycle existed (UNKNOWN, PROCESSING …)
+export function isLegacyStatus(status?: string | null): boolean {
+  return !(String(status || "").toUpperCase() in ORDER_STATUS_META);
+}
+
+// Moves a user can make from the current status (for action buttons)
+export function manualTransitions(status?: string | null): OrderStatus[] {
+  return STATUS_TRANSITIONS[normalizeOrderStatus(status)].filter(s => !SYSTEM_ONLY.includes(s));
+}
+
+// Has converted output (downloads, preview, editing)
+export function hasConvertedOutput(status?: string | null): boolean {
+  return ["CONVERTED", "REVIEWED", "APPROVED", "DISPATCHED"].includes(normalizeOrderStatus(status));
+}
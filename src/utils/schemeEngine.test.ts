@@ -0,0 +1,152 @@
+import { describe, it, expect } from "vitest";
+import { SchemeEngine, Slab } from "./schemeEngine";
+
+describe("SchemeEngine.calculate with explicit slabs", () => {
+  const slabs: Slab[] = [
+    { minQty: 10, freeQty: 1 },
+    { minQty: 25, freeQty: 3 },
+  ];
+
+  it("applies the largest slab not above the order quantity", () => {
+    const all = SchemeEngine.generateVirtualSlabs(slabs, 25);
+    const result = SchemeEngine.calculate(25, all);
+    expect(result.freeQty).toBe(3);
+    expect(result.appliedSlab).toMatchObject({ minQty: 25, freeQty: 3, isVirtual: false });
+  });
+
+  it("keeps explicit slabs that are not a multiple of the base", () => {
+    const all = SchemeEngine.generateVirtualSlabs(slabs, 25);
+    expect(all.map(s => s.minQty).slice(0, 4)).toEqual([10, 20, 25, 30]);
+  });
+
+  it("gives nothing below the first slab", () => {
+    const all = SchemeEngine.generateVirtualSlabs(slabs, 9);
+    expect(SchemeEngine.calculate(9, all)).toEqual({ freeQty: 0, appliedSlab: null });
+  });
+
+  it("gives nothing for zero or negative quantities", () => {
+    const all = SchemeEngine.generateVirtualSlabs(slabs, 0);
+    expect(SchemeEngine.calculate(0, all).freeQty).toBe(0);
+    expect(SchemeEngine.calculate(-5, all).freeQty).toBe(0);
+  });
+});
+
+describe("SchemeEngine.generateVirtualSlabs", () => {
+  it("repeats the base slab as x-multiplier virtual slabs", () => {
+    const all = SchemeEngine.generateVirtualSlabs([{ minQty: 10, freeQty: 1, schemeId: "S1" }], 35);
+    const result = SchemeEngine.calculate(35, all);
+    expect(result.freeQty).toBe(3);
+    expect(result.appliedSlab).toMatchObject({
+      minQty: 30,
+      isVirtual: true,
+      schemeName: "Auto-Pattern (x3)",
+      schemeId: "S1",
+    });
+  });
+
+  it("covers twice the order quantity for upsell suggestions", () => {
+    const all = SchemeEngine.generateVirtualSlabs([{ minQty: 10, freeQty: 1 }], 80);
+    expect(all[all.length - 1].minQty).toBe(160);
+  });
+
+  it("lets an explicit slab win over the virtual one at the same quantity", () => {
+    const all = SchemeEngine.generateVirtualSlabs(
+      [{ minQty: 10, freeQty: 1 }, { minQty: 20, freeQty: 5 }],
+      20
+    );
+    expect(SchemeEngine.calculate(20, all).freeQty).toBe(5);
+    expect(all.find(s => s.minQty === 30)).toMatchObject({ freeQty: 3, isVirtual: true });
+  });
+
+  it("matches calculateForSlab for a single slab", () => {
+    expect(SchemeEngine.calculateForSlab({ minQty: 10, freeQty: 1 }, 25)).toBe(2);
+    expect(SchemeEngine.calculateForSlab({ minQty: 12, freeQty: 2 }, 36)).toBe(6);
+  });
+});
+
+describe("schemePercent propagation", () => {
+  it("copies the base slab's schemePercent onto virtual slabs", () => {
+    const all = SchemeEngine.generateVirtualSlabs([{ minQty: 10, freeQty: 1, schemePercent: 5 }], 20);
+    const virtual = all.find(s => s.minQty === 20);
+    expect(virtual).toMatchObject({ isVirtual: true, freeQty: 2, schemePercent: 5 });
+  });
+
+  it("carries the slab percent into the resolution", () => {
+    const resolution = SchemeEngine.resolve(
+      [{ schemeName: "Monsoon", slabs: [{ minQty: 10, freeQty: 1, schemePercent: 5 }] }],
+      20
+    );
+    expect(resolution.freeQty).toBe(2);
+    expect(resolution.schemePercent).toBe(5);
+  });
+
+  it("falls back to the scheme-level percent when the slab has none", () => {
+    const resolution = SchemeEngine.resolve(
+      [{ schemeName: "Flat", schemePercent: 3, slabs: [{ minQty: 10, freeQty: 1 }] }],
+      10
+    );
+    expect(resolution.schemePercent).toBe(3);
+  });
+});
+
+describe("edge cases", () => {
+  it("ignores slabs with minQty 0", () => {
+    expect(SchemeEngine.generateVirtualSlabs([{ minQty: 0, freeQty: 5 }], 10)).toEqual([]);
+    expect(SchemeEngine.calculateForSlab({ minQty: 0, freeQty: 5 }, 100)).toBe(0);
+  });
+
+  it("uses the first valid slab as the base when a minQty 0 slab is present", () => {
+    const all = SchemeEngine.generateVirtualSlabs(
+      [{ minQty: 0, freeQty: 5 }, { minQty: 10, freeQty: 1 }],
+      5
+    );
+    expect(all[0].minQty).toBe(10);
+    expect(SchemeEngine.calculate(5, all).freeQty).toBe(0);
+  });
+
+  it("collapses overlapping slabs to the richest one", () => {
+    const all = SchemeEngine.generateVirtualSlabs(
+      [{ minQty: 10, freeQty: 1 }, { minQty: 10, freeQty: 2 }],
+      10
+    );
+    expect(all.filter(s => s.minQty === 10)).toHaveLength(1);
+    expect(SchemeEngine.calculate(10, all).freeQty).toBe(2);
+    // Virtual slabs repeat the surviving base slab
+    expect(all.find(s => s.minQty === 20)?.freeQty).toBe(4);
+  });
+
+  it("sorts unordered slabs before picking the base", () => {
+    const all = SchemeEngine.generateVirtualSlabs(
+      [{ minQty: 50, freeQty: 8 }, { minQty: 10, freeQty: 1 }],
+      50
+    );
+    expect(all[0].minQty).toBe(10);
+    expect(SchemeEngine.calculate(50, all).freeQty).toBe(8);
+  });
+
+  it("suggests the next slab as an upsell", () => {
+    const info = SchemeEngine.getSchemeInfo([{ slabs: [{ minQty: 10, freeQty: 1 }] }], 8);
+    expect(info?.active).toBeNull();
+    expect(info?.next).toMatchObject({ minQty: 10, freeQty: 1, additionalQty: 2 });
+  });
+});
+
+describe("SchemeEngine.isSchemeApplicable validity window", () => {
+  const scheme = { startDate: "2026-10-01", endDate: "2026-10-31" };
+
+  it("is valid on the first and last day, whatever the time of day", () => {
+    expect(SchemeEngine.isSchemeApplicable(scheme, { date: new Date(2026, 9, 1, 0, 5) })).toBe(true);
+    expect(SchemeEngine.isSchemeApplicable(scheme, { date: new Date(2026, 9, 31, 23, 55) })).toBe(true);
+  });
+
+  it("is not valid the day before it starts or the day after it ends", () => {
+    expect(SchemeEngine.isSchemeApplicable(scheme, { date: new Date(2026, 8, 30, 12) })).toBe(false);
+    expect(SchemeEngine.isSchemeApplicable(scheme, { date: new Date(2026, 10, 1, 0, 5) })).toBe(false);
+  });
+
+  it("reads stored ISO timestamps as the date they were saved for", () => {
+    const stored = { startDate: "2026-10-01T00:00:00.000Z", endDate: "2026-10-31T00:00:00.000Z" };
+    expect(SchemeEngine.isSchemeApplicable(stored, { date: "2026-10-31" })).toBe(true);
+    expect(SchemeEngine.isSchemeApplicable(stored, { date: "2026-11-01" })).toBe(false);
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * 🧠 SCHEME ENGINE (Strict Mirror of Backend)
+ * Single source of truth for slab / free-quantity calculations.
+ * Used by UploadPage (manual entry), MappingPage and SchemeSelectionModal.
+ */
+
+export interface Slab {
+  minQty: number;
+  freeQty: number;
+  schemePercent?: number;
+  schemeName?: string;
+  schemeId?: string;
+  isVirtual?: boolean;
+}
+
+export interface SchemeResult {
+  freeQty: number;
+  appliedSlab: Slab | null;
+}
+
+export interface UpsellSuggestion extends Slab {
+  additionalQty: number; // Units to add on top of the current order
+}
+
+// Validity window + customer/region targeting carried on a scheme
+export interface SchemeTargeting {
+  isActive?: boolean;
+  startDate?: string | null;
+  endDate?: string | null;
+  customerCodes?: string[];
+  customerType?: string;
+  states?: string[];
+}
+
+// Who / when the scheme is being evaluated for
+export interface SchemeContext {
+  customerCode?: string;
+  customerType?: string;
+  state?: string;
+  date?: Date | string;
+}
+
+/**
+ * How a scheme combines with other active schemes on the same product:
+ * - exclusive: never combined, wins alone if it is the most valuable option
+ * - stackable: applied on top of every other non-exclusive scheme
+ * - best-of:   only the most valuable best-of scheme is applied (default)
+ */
+export type StackingPolicy = "exclusive" | "stackable" | "best-of";
+
+export const STACKING_POLICIES: { value: StackingPolicy; label: string }[] = [
+  { value: "best-of", label: "Best of" },
+  { value: "stackable", label: "Stackable" },
+  { value: "exclusive", label: "Exclusive" },
+];
+
+export interface SchemeDecision {
+  schemeId?: string;
+  schemeName: string;
+  policy: StackingPolicy;
+  applied: boolean;
+  freeQty: number;
+  schemePercent: number;
+  reason: string;
+}
+
+export interface SchemeResolution {
+  freeQty: number;
+  schemePercent: number;
+  decisions: SchemeDecision[];
+}
+
+export interface SchemeInfo {
+  active: (Slab & { totalFree: number }) | null;
+  next: UpsellSuggestion | null;
+  all: Slab[];
+  resolution: SchemeResolution;
+}
+
+/* ---------------- HELPERS ---------------- */
+
+// Drop invalid slabs and collapse overlapping ones (same minQty → keep the richest)
+const normalizeSlabs = (explicitSlabs: Slab[] = []): Slab[] => {
+  const byQty = new Map<number, Slab>();
+
+  explicitSlabs.forEach(s => {
+    const minQty = Number(s?.minQty) || 0;
+    const freeQty = Number(s?.freeQty) || 0;
+    if (minQty <= 0 || freeQty < 0) return;
+
+    const existing = byQty.get(minQty);
+    if (!existing || freeQty > existing.freeQty) {
+      byQty.set(minQty, { ...s, minQty, freeQty });
+    }
+  });
+
+  return Array.from(byQty.values()).sort((a, b) => a.minQty - b.minQty);
+};
+
+const sameText = (a?: string, b?: string) =>
+  String(a || "").trim().toUpperCase() === String(b || "").trim().toUpperCase();
+
+// Compare "YYYY-MM-DD" calendar days so a scheme ending "2026-10-31" is still valid all of that day.
+// Stored dates are taken as written (new Date("2026-10-31") is UTC midnight, i.e. the 30th west of UTC);
+// the evaluation date is the local day.
+export const toDayKey = (value: Date | string) => {
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10);
+  const d = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+const getPolicy = (scheme: any): StackingPolicy =>
+  STACKING_POLICIES.some(p => p.value === scheme?.stackingPolicy) ? scheme.stackingPolicy : "best-of";
+
+const getSchemeName = (scheme: any) =>
+  scheme?.schemeName || scheme?.name || (scheme?.productCode ? `Scheme ${scheme.productCode}` : "Scheme");
+
+// Benefit as an effective percentage of the order so free goods and flat % can be compared
+const benefitOf = (d: { freeQty: number; schemePercent: number }, orderQty: number) =>
+  (orderQty > 0 ? (d.freeQty / orderQty) * 100 : 0) + d.schemePercent;
+
+export const SchemeEngine = {
+  /**
+   * Whether a scheme applies for the given customer / date.
+   * Missing targeting fields mean "no restriction".
+   */
+  isSchemeApplicable: (scheme: SchemeTargeting | null | undefined, context: SchemeContext = {}): boolean => {
+    if (!scheme) return false;
+    if (scheme.isActive === false) return false;
+
+    const today = toDayKey(context.date || new Date());
+    if (scheme.startDate && today < toDayKey(scheme.startDate)) return false;
+    if (scheme.endDate && today > toDayKey(scheme.endDate)) return false;
+
+    if (scheme.customerCodes && scheme.customerCodes.length > 0) {
+      if (!context.customerCode) return false;
+      if (!scheme.customerCodes.some(code => sameText(code, context.customerCode))) return false;
+    }
+
+    if (scheme.customerType && !sameText(scheme.customerType, context.customerType)) return false;
+
+    if (scheme.states && scheme.states.length > 0) {
+      if (!scheme.states.some(st => sameText(st, context.state))) return false;
+    }
+
+    return true;
+  },
+
+  /**
+   * Expands explicit slabs with x-multiplier virtual slabs of the base slab
+   * (e.g. 10+1 → 20+2, 30+3 ...). Explicit slabs always win over virtual ones.
+   */
+  generateVirtualSlabs: (explicitSlabs: Slab[], orderQty: number): Slab[] => {
+    const sorted = normalizeSlabs(explicitSlabs);
+    if (sorted.length === 0) return [];
+
+    const base = sorted[0];
+    const baseQty = base.minQty;
+    const baseFree = base.freeQty;
+
+    // Generate enough virtual slabs to cover the order + upsell room
+    const maxTarget = Math.max(orderQty * 2, baseQty * 10);
+
+    const allSlabs: Slab[] = [];
+    let multiplier = 1;
+    let currentQty = baseQty;
+
+    while (currentQty <= maxTarget) {
+      const explicit = sorted.find(s => s.minQty === currentQty);
+      if (explicit) {
+        allSlabs.push({ ...explicit, isVirtual: false });
+      } else {
+        allSlabs.push({
+          minQty: currentQty,
+          freeQty: multiplier * baseFree,
+          isVirtual: true,
+          schemeName: `Auto-Pattern (x${multiplier})`,
+          schemeId: base.schemeId || "virtual",
+          schemePercent: base.schemePercent, // ✅ Propagate Scheme %
+        });
+      }
+      multiplier++;
+      currentQty = baseQty * multiplier;
+    }
+
+    // Explicit slabs that are not a multiple of the base (e.g. 10+1 and 25+3)
+    sorted.forEach(s => {
+      if (!allSlabs.some(a => a.minQty === s.minQty)) {
+        allSlabs.push({ ...s, isVirtual: false });
+      }
+    });
+
+    return allSlabs.sort((a, b) => a.minQty - b.minQty);
+  },
+
+  calculate: (orderQty: number, slabs: Slab[]): SchemeResult => {
+    if (orderQty <= 0 || !slabs.length) return { freeQty: 0, appliedSlab: null };
+
+    // Find largest slab <= orderQty
+    const applicable = slabs.filter(s => s.minQty <= orderQty);
+    if (applicable.length === 0) return { freeQty: 0, appliedSlab: null };
+
+    const bestSlab = applicable[applicable.length - 1]; // Last one is largest
+    return {
+      freeQty: bestSlab.freeQty,
+      appliedSlab: bestSlab,
+    };
+  },
+
+  /**
+   * Free quantity for a single slab definition at the given quantity.
+   */
+  calculateForSlab: (slab: Slab, orderQty: number): number => {
+    const slabs = SchemeEngine.generateVirtualSlabs([slab], orderQty);
+    return SchemeEngine.calculate(orderQty, slabs).freeQty;
+  },
+
+  /**
+   * Resolves every scheme on a product according to its stacking policy and
+   * explains, per scheme, whether it was applied and why.
+   */
+  resolve: (availableSchemes: any[] | undefined, orderQty: number, context?: SchemeContext): SchemeResolution => {
+    const qty = Number(orderQty) || 0;
+    const decisions: SchemeDecision[] = [];
+    const qualifying: { scheme: any; decision: SchemeDecision }[] = [];
+
+    (availableSchemes || []).forEach(scheme => {
+      const decision: SchemeDecision = {
+        schemeId: scheme?.schemeId || scheme?._id,
+        schemeName: getSchemeName(scheme),
+        policy: getPolicy(scheme),
+        applied: false,
+        freeQty: 0,
+        schemePercent: 0,
+        reason: "",
+      };
+      decisions.push(decision);
+
+      if (!SchemeEngine.isSchemeApplicable(scheme, context)) {
+        decision.reason = "Not valid for this customer or date";
+        return;
+      }
+
+      const slabs: Slab[] = Array.isArray(scheme.slabs) ? scheme.slabs : [];
+      if (slabs.length > 0) {
+        const execution = SchemeEngine.calculate(qty, SchemeEngine.generateVirtualSlabs(slabs, qty));
+        if (!execution.appliedSlab) {
+          const minQty = Math.min(...slabs.map(s => Number(s.minQty) || 0).filter(q => q > 0));
+          decision.reason = `Order qty ${qty} is below minimum ${Number.isFinite(minQty) ? minQty : 0}`;
+          return;
+        }
+        decision.freeQty = execution.freeQty;
+        decision.schemePercent = Number(execution.appliedSlab.schemePercent ?? scheme.schemePercent) || 0;
+      } else {
+        // Flat discount scheme (no slabs)
+        if (qty <= 0 || qty < (Number(scheme.minQty) || 0)) {
+          decision.reason = `Order qty ${qty} is below minimum ${Number(scheme.minQty) || 0}`;
+          return;
+        }
+        decision.schemePercent = Number(scheme.schemePercent) || 0;
+      }
+
+      if (decision.freeQty <= 0 && decision.schemePercent <= 0) {
+        decision.reason = "No benefit at this quantity";
+        return;
+      }
+
+      qualifying.push({ scheme, decision });
+    });
+
+    // Non-exclusive group: every stackable scheme + the single best best-of scheme
+    const stackable = qualifying.filter(q => q.decision.policy === "stackable").map(q => q.decision);
+    const bestOf = qualifying.filter(q => q.decision.policy === "best-of").map(q => q.decision)
+      .sort((a, b) => benefitOf(b, qty) - benefitOf(a, qty));
+    const exclusive = qualifying.filter(q => q.decision.policy === "exclusive").map(q => q.decision)
+      .sort((a, b) => benefitOf(b, qty) - benefitOf(a, qty));
+
+    const group = [...stackable, ...(bestOf[0] ? [bestOf[0]] : [])];
+    const groupBenefit = group.reduce((sum, d) => sum + benefitOf(d, qty), 0);
+    const bestExclusive = exclusive[0];
+
+    const useExclusive = !!bestExclusive && (group.length === 0 || benefitOf(bestExclusive, qty) >= groupBenefit);
+
+    if (useExclusive) {
+      bestExclusive.applied = true;
+      bestExclusive.reason = group.length > 0
+        ? "Exclusive scheme gives the highest benefit"
+        : "Exclusive scheme applied";
+      [...group, ...bestOf.slice(1), ...exclusive.slice(1)].forEach(d => {
+        d.reason = `Not combined: exclusive scheme "${bestExclusive.schemeName}" applied`;
+      });
+    } else {
+      stackable.forEach(d => {
+        d.applied = true;
+        d.reason = "Stackable scheme applied";
+      });
+      if (bestOf[0]) {
+        bestOf[0].applied = true;
+        bestOf[0].reason = bestOf.length > 1 ? "Highest benefit among best-of schemes" : "Scheme applied";
+      }
+      bestOf.slice(1).forEach(d => {
+        d.reason = `Lower benefit than "${bestOf[0].schemeName}"`;
+      });
+      exclusive.forEach(d => {
+        d.reason = "Exclusive scheme gives less than the combined schemes";
+      });
+    }
+
+    const applied = decisions.filter(d => d.applied);
+    return {
+      freeQty: applied.reduce((sum, d) => sum + d.freeQty, 0),
+      schemePercent: applied.reduce((sum, d) => sum + d.schemePercent, 0),
+      decisions,
+    };
+  },
+
+  /**
+   * Active slab (benefit already achieved) + next slab (upsell) for a row's schemes.
+   * Slabs/upsell come from the first applied slab scheme (or first applicable one);
+   * the totals come from the stacking resolver.
+   */
+  getSchemeInfo: (availableSchemes: any[] | undefined, orderQty: number, context?: SchemeContext): SchemeInfo | null => {
+    if (!availableSchemes || availableSchemes.length === 0) return null;
+
+    const qty = Number(orderQty) || 0;
+    const resolution = SchemeEngine.resolve(availableSchemes, qty, context);
+
+    // 1. Get explicit slabs (expired / out-of-target schemes are never applied)
+    // (decisions are index-aligned with availableSchemes)
+    const appliedScheme = availableSchemes.find((s, i) => s?.slabs?.length > 0 && resolution.decisions[i]?.applied);
+    const scheme = appliedScheme
+      || availableSchemes.find(s => s?.slabs?.length > 0 && SchemeEngine.isSchemeApplicable(s, context));
+    if (!scheme) {
+      return resolution.decisions.some(d => d.applied)
+        ? { active: null, next: null, all: [], resolution }
+        : null;
+    }
+
+    // 2. Generate Virtual Slabs
+    const allSlabs = SchemeEngine.generateVirtualSlabs(scheme.slabs, qty);
+
+    // 3. Find Active Slab
+    const execution = SchemeEngine.calculate(qty, allSlabs);
+    const activeSlab = execution.appliedSlab;
+
+    // 4. Find Next Slab (first slab strictly greater than current qty)
+    const nextSlab = allSlabs.find(s => s.minQty > qty);
+
+    return {
+      active: activeSlab && appliedScheme
+        ? { ...activeSlab, totalFree: resolution.freeQty, schemePercent: resolution.schemePercent }
+        : null,
+      next: nextSlab ? { ...nextSlab, additionalQty: nextSlab.minQty - qty } : null,
+      all: allSlabs,
+      resolution,
+    };
+  },
+};
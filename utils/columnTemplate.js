@@ -0,0 +1,102 @@
+/* =====================================================
+   COLUMN MAPPING TEMPLATES
+   Saved per customer when header auto-detection fails:
+   which column holds which field, where the header row is,
+   and which sheets to ignore
+   ===================================================== */
+
+export const TEMPLATE_FIELDS = ["ITEMDESC", "ORDERQTY", "PACK", "FREEQTY"];
+const REQUIRED_FIELDS = ["ITEMDESC", "ORDERQTY"];
+
+export function validateColumnTemplate(input = {}) {
+  const errors = [];
+
+  if (!input.customerCode) errors.push("customerCode is required");
+
+  const headerRowIndex = Number(input.headerRowIndex);
+  if (!Number.isInteger(headerRowIndex) || headerRowIndex < 0) {
+    errors.push("headerRowIndex must be a non-negative integer");
+  }
+
+  const columns = {};
+  for (const field of TEMPLATE_FIELDS) {
+    const raw = input.columns?.[field];
+    if (raw === undefined || raw === null || raw === "") continue;
+
+    const col = Number(raw);
+    if (!Number.isInteger(col) || col < 0) {
+      errors.push(`Column for ${field} is invalid`);
+      continue;
+    }
+    columns[field] = col;
+  }
+
+  for (const field of REQUIRED_FIELDS) {
+    if (columns[field] === undefined) errors.push(`Column for ${field} is required`);
+  }
+
+  const used = Object.values(columns);
+  if (new Set(used).size !== used.length) {
+    errors.push("The same column cannot be mapped to two fields");
+  }
+
+  return {
+    template: {
+      customerCode: String(input.customerCode || "").trim().toUpperCase(),
+      name: input.name || "",
+      headerRowIndex,
+      columns,
+      skipSheets: Array.isArray(input.skipSheets)
+        ? input.skipSheets.map(s => String(s).toLowerCase())
+        : []
+    },
+    errors
+  };
+}
+
+/**
+ * Rows below the template header row → canonical rows { ITEMDESC, ORDERQTY, ... }.
+ * Rows without an item description (totals, blank separators) are dropped.
+ */
+export function applyColumnTemplate(rowsRaw, template, sheetName = "") {
+  const out = [];
+
+  for (let r = template.headerRowIndex + 1; r < rowsRaw.length; r++) {
+    const row = rowsRaw[r];
+    const mapped = { _source: { sheet: sheetName, row: r } };
+
+    for (const [field, col] of Object.entries(template.columns)) {
+      const value = row?.[col];
+      if (value === undefined || value === null || value === "") continue;
+      mapped[field] = typeof value === "string" ? value.trim() : value;
+    }
+
+    if (!mapped.ITEMDESC) continue;
+    out.push(mapped);
+  }
+
+  return out;
+}
+
+export function isSheetSkipped(sheetName, template) {
+  return !!template?.skipSheets?.includes(String(sheetName).toLowerCase());
+}
+
+/**
+ * Which customer's template to read a file with:
+ * explicit hint from the upload form first, then the customer detected from the document.
+ * layoutHints: { [fileName]: customerCode } (JSON string or object)
+ */
+export function templateCustomerForFile(fileName, layoutHints, detectedCustomerCode) {
+  let hints = layoutHints;
+  if (typeof hints === "string") {
+    try {
+      hints = JSON.parse(hints);
+    } catch {
+      hints = {};
+    }
+  }
+
+  const code = hints?.[fileName] || detectedCustomerCode;
+  return code ? String(code).trim().toUpperCase() : null;
+}
@@ -0,0 +1,110 @@
+/* =====================================================
+   CSV ENCODING / DELIMITER SNIFFING
+   Distributor exports arrive as UTF-8, UTF-16 (Excel
+   "Unicode text") or Windows-1252, separated by commas,
+   semicolons (European locales), tabs or pipes
+   ===================================================== */
+
+const DELIMITERS = [",", ";", "\t", "|"];
+const SNIFF_LINES = 30;
+
+function looksLikeUtf16(buffer) {
+  // ASCII text in UTF-16 has a zero byte in every other position
+  const sample = buffer.subarray(0, Math.min(buffer.length, 400));
+  if (sample.length < 4) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] !== 0) continue;
+    if (i % 2 === 0) evenZeros++;
+    else oddZeros++;
+  }
+
+  const half = sample.length / 2;
+  if (oddZeros > half * 0.3 && evenZeros < half * 0.05) return "utf-16le";
+  if (evenZeros > half * 0.3 && oddZeros < half * 0.05) return "utf-16be";
+  return null;
+}
+
+function decodeUtf16be(buffer) {
+  const swapped = Buffer.from(buffer);
+  swapped.swap16();
+  return new TextDecoder("utf-16le").decode(swapped);
+}
+
+/**
+ * Buffer → { text, encoding }.
+ * BOM first, then a UTF-16 byte pattern, then strict UTF-8,
+ * falling back to Windows-1252 (what Excel on Windows writes).
+ */
+export function decodeCsvBuffer(buffer) {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return { text: new TextDecoder("utf-8").decode(buffer.subarray(3)), encoding: "utf-8" };
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { text: new TextDecoder("utf-16le").decode(buffer.subarray(2)), encoding: "utf-16le" };
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return { text: decodeUtf16be(buffer.subarray(2, buffer.length - (buffer.length % 2))), encoding: "utf-16be" };
+  }
+
+  const utf16 = looksLikeUtf16(buffer);
+  if (utf16 === "utf-16le") return { text: new TextDecoder("utf-16le").decode(buffer), encoding: utf16 };
+  if (utf16 === "utf-16be") return { text: decodeUtf16be(buffer.subarray(0, buffer.length - (buffer.length % 2))), encoding: utf16 };
+
+  try {
+    return { text: new TextDecoder("utf-8", { fatal: true }).decode(buffer), encoding: "utf-8" };
+  } catch {
+    return { text: new TextDecoder("windows-1252").decode(buffer), encoding: "windows-1252" };
+  }
+}
+
+// Delimiter count outside quoted fields
+function countOutsideQuotes(line, delimiter) {
+  let count = 0;
+  let quoted = false;
+  for (const ch of line) {
+    if (ch === '"') quoted = !quoted;
+    else if (ch === delimiter && !quoted) count++;
+  }
+  return count;
+}
+
+/**
+ * Pick the delimiter that splits the first lines into the same,
+ * largest number of columns. "sep=;" (Excel hint line) wins outright.
+ */
+export function sniffDelimiter(text) {
+  const lines = text.split(/\r?\n/).filter(l => l.trim()).slice(0, SNIFF_LINES);
+  const hint = lines[0]?.match(/^sep=(.)$/i);
+  if (hint) return hint[1];
+
+  let best = { delimiter: ",", score: 0 };
+  for (const delimiter of DELIMITERS) {
+    const counts = lines.map(l => countOutsideQuotes(l, delimiter)).filter(c => c > 0);
+    if (counts.length === 0) continue;
+
+    // Most common column count, weighted by how many lines agree on it
+    const freq = {};
+    counts.forEach(c => { freq[c] = (freq[c] || 0) + 1; });
+    const [mode, agree] = Object.entries(freq).sort((a, b) => b[1] - a[1])[0];
+    const score = agree * Math.log2(Number(mode) + 1);
+
+    if (score > best.score) best = { delimiter, score };
+  }
+
+  return best.delimiter;
+}
+
+/**
+ * CSV buffer → { text, delimiter, encoding } ready for XLSX.read(text, { type: "string", FS }).
+ * A leading "sep=" line is removed so it doesn't become the header row.
+ */
+export function prepareCsv(buffer) {
+  const { text, encoding } = decodeCsvBuffer(buffer);
+  const delimiter = sniffDelimiter(text);
+  const body = text.replace(/^\uFEFF/, "").replace(/^sep=.\r?\n/i, "");
+
+  return { text: body, delimiter, encoding };
+}
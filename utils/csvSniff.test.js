@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { decodeCsvBuffer, sniffDelimiter, prepareCsv } from "./csvSniff.js";
+
+const utf16le = text => Buffer.from(text, "utf16le");
+
+describe("decodeCsvBuffer", () => {
+  it("strips a UTF-8 BOM", () => {
+    const { text, encoding } = decodeCsvBuffer(Buffer.from("﻿Item,Qty", "utf8"));
+    expect(encoding).toBe("utf-8");
+    expect(text).toBe("Item,Qty");
+  });
+
+  it("decodes UTF-16LE with and without a BOM", () => {
+    const withBom = Buffer.concat([Buffer.from([0xff, 0xfe]), utf16le("Item\tQty\r\nDolo\t10")]);
+    expect(decodeCsvBuffer(withBom)).toEqual({ text: "Item\tQty\r\nDolo\t10", encoding: "utf-16le" });
+    expect(decodeCsvBuffer(utf16le("Item\tQty\r\nDolo\t10")).encoding).toBe("utf-16le");
+  });
+
+  it("decodes UTF-16BE", () => {
+    const be = utf16le("Item;Qty").swap16();
+    expect(decodeCsvBuffer(be)).toEqual({ text: "Item;Qty", encoding: "utf-16be" });
+  });
+
+  it("falls back to Windows-1252 for invalid UTF-8", () => {
+    // "Café" with é as the single byte 0xE9
+    const { text, encoding } = decodeCsvBuffer(Buffer.from([0x43, 0x61, 0x66, 0xe9]));
+    expect(encoding).toBe("windows-1252");
+    expect(text).toBe("Café");
+  });
+});
+
+describe("sniffDelimiter", () => {
+  it("picks semicolons from a European export", () => {
+    expect(sniffDelimiter("Item;Qty;Price\nDolo 650;10;2,50\nPan 40;5;3,10")).toBe(";");
+  });
+
+  it("ignores delimiters inside quotes", () => {
+    expect(sniffDelimiter('Item|Qty\n"Dolo, 650"|10\n"Pan, 40"|5')).toBe("|");
+  });
+
+  it("picks tabs and defaults to commas", () => {
+    expect(sniffDelimiter("Item\tQty\nDolo\t10")).toBe("\t");
+    expect(sniffDelimiter("just one column")).toBe(",");
+  });
+
+  it("honours an Excel sep= hint", () => {
+    expect(sniffDelimiter("sep=;\nItem,Qty;x")).toBe(";");
+  });
+});
+
+describe("prepareCsv", () => {
+  it("removes the sep= line so it doesn't become the header", () => {
+    const { text, delimiter, encoding } = prepareCsv(Buffer.from("sep=;\r\nItem;Qty\r\nDolo;10", "utf8"));
+    expect({ text, delimiter, encoding }).toEqual({ text: "Item;Qty\r\nDolo;10", delimiter: ";", encoding: "utf-8" });
+  });
+});
@@ -0,0 +1,154 @@
+import { normalizeKey } from "./normalizeKey.js";
+
+/* =====================================================
+   CUSTOMER AUTO-DETECTION
+   Scores master customers against identifiers found in
+   the uploaded document (header text, PDF text, email)
+   ===================================================== */
+
+const EVIDENCE_WEIGHTS = {
+  GST: 100,
+  DRUG_LICENCE: 60,
+  PHONE: 40,
+  PIN_CODE: 15,
+  NAME: 35
+};
+
+const GST_RE = /\b\d{2}[A-Z]{5}\d{4}[A-Z][A-Z0-9]Z[A-Z0-9]\b/g;
+const PHONE_RE = /(?:\+?91[\s-]?)?\b[6-9]\d{4}[\s-]?\d{5}\b|\b0\d{2,4}[\s-]?\d{6,8}\b/g;
+const PIN_RE = /\b[1-9]\d{2}\s?\d{3}\b/g;
+
+function digitsOnly(value = "") {
+  return String(value).replace(/\D/g, "");
+}
+
+// Licence numbers are written with random separators: "KL-EKM-20B/1234" ≈ "KLEKM20B1234"
+function compactId(value = "") {
+  return String(value).toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+function lastTenDigits(value = "") {
+  const d = digitsOnly(value);
+  return d.length >= 10 ? d.slice(-10) : d;
+}
+
+/**
+ * Pull identifiers out of free document text.
+ */
+export function extractCustomerIdentifiers(text = "") {
+  const upper = String(text).toUpperCase();
+
+  return {
+    gst: [...new Set(upper.match(GST_RE) || [])],
+    phones: [...new Set((upper.match(PHONE_RE) || []).map(lastTenDigits).filter(p => p.length >= 8))],
+    pinCodes: [...new Set((upper.match(PIN_RE) || []).map(digitsOnly))],
+    compactText: compactId(upper),
+    normalizedText: ` ${normalizeKey(String(text).replace(/\s+/g, " "))} `
+  };
+}
+
+function nameEvidence(customerName, normalizedText) {
+  const name = normalizeKey(customerName);
+  if (!name || name.length < 4) return null;
+
+  if (normalizedText.includes(` ${name} `)) return 1;
+
+  const words = name.split(" ").filter(w => w.length > 2);
+  if (words.length === 0) return null;
+
+  const hits = words.filter(w => normalizedText.includes(` ${w} `)).length;
+  const ratio = hits / words.length;
+  return ratio >= 0.6 ? ratio : null;
+}
+
+function scoreCustomer(customer, ids) {
+  const evidence = [];
+  let score = 0;
+
+  if (customer.gstNo && ids.gst.includes(compactId(customer.gstNo))) {
+    score += EVIDENCE_WEIGHTS.GST;
+    evidence.push({ field: "GST", value: customer.gstNo });
+  }
+
+  const licences = [customer.drugLicNo, customer.drugLicNo1]
+    .map(compactId)
+    .filter(l => l.length >= 6);
+  const licenceHit = licences.find(l => ids.compactText.includes(l));
+  if (licenceHit) {
+    score += EVIDENCE_WEIGHTS.DRUG_LICENCE;
+    evidence.push({ field: "DRUG_LICENCE", value: licenceHit });
+  }
+
+  const phones = [customer.phoneNo1, customer.phoneNo2, customer.mobileNo]
+    .map(lastTenDigits)
+    .filter(p => p.length >= 8);
+  const phoneHit = phones.find(p => ids.phones.includes(p));
+  if (phoneHit) {
+    score += EVIDENCE_WEIGHTS.PHONE;
+    evidence.push({ field: "PHONE", value: phoneHit });
+  }
+
+  const pin = digitsOnly(customer.pinCode);
+  if (pin.length === 6 && ids.pinCodes.includes(pin)) {
+    score += EVIDENCE_WEIGHTS.PIN_CODE;
+    evidence.push({ field: "PIN_CODE", value: pin });
+  }
+
+  const nameRatio = nameEvidence(customer.customerName, ids.normalizedText);
+  if (nameRatio) {
+    score += Math.round(EVIDENCE_WEIGHTS.NAME * nameRatio);
+    evidence.push({ field: "NAME", value: customer.customerName });
+  }
+
+  return { score, evidence };
+}
+
+/**
+ * Ranked customer candidates with matching evidence, best first.
+ * Stored on the upload as `customer.candidates` for the MappingPage customer card.
+ */
+export function rankCustomerCandidates(text, customers, { limit = 5 } = {}) {
+  if (!text) return [];
+
+  const ids = extractCustomerIdentifiers(text);
+  const ranked = [];
+
+  for (const c of customers) {
+    const { score, evidence } = scoreCustomer(c, ids);
+    // A bare pin-code hit is not enough on its own
+    if (score === 0 || (evidence.length === 1 && evidence[0].field === "PIN_CODE")) continue;
+
+    ranked.push({
+      customer: {
+        customerCode: c.customerCode,
+        customerName: c.customerName,
+        customerType: c.customerType,
+        city: c.city,
+        state: c.state
+      },
+      score,
+      evidence
+    });
+  }
+
+  return ranked.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Auto-pick only when the top candidate is clearly ahead.
+ */
+export function detectCustomer(text, customers) {
+  const candidates = rankCustomerCandidates(text, customers);
+  const [top, second] = candidates;
+
+  const confident =
+    top &&
+    (top.evidence.some(e => e.field === "GST" || e.field === "DRUG_LICENCE") || top.score >= 50) &&
+    (!second || top.score - second.score >= 25);
+
+  return {
+    customer: confident ? top.customer : null,
+    source: confident ? "AUTO" : null,
+    candidates
+  };
+}
@@ -0,0 +1,159 @@
+/* =====================================================
+   DUPLICATE ORDER DETECTION
+   Customers resend the same PO under another filename.
+   At extraction each file gets a fingerprint (content hash
+   + normalised item/qty lines) which is compared with the
+   customer's recently converted uploads. Converting a
+   flagged upload needs an explicit override, which is
+   stored on the upload with who, when and why
+   ===================================================== */
+
+import crypto from "crypto";
+import { normalizeKey } from "./normalizeKey.js";
+
+export const DUPLICATE_LOOKBACK_DAYS = 14;
+export const DUPLICATE_MIN_SCORE = 0.85;
+
+// Only uploads that actually produced an order can be shipped twice
+const SHIPPABLE_STATUSES = ["CONVERTED", "REVIEWED", "APPROVED", "DISPATCHED"];
+
+export function hashBuffer(buffer) {
+  return crypto.createHash("sha256").update(buffer).digest("hex");
+}
+
+/**
+ * Extracted rows → sorted "desc|qty" lines, blank lines dropped.
+ * Descriptions are normalised so case, spacing and punctuation
+ * differences between two exports of the same PO don't count.
+ */
+export function lineSignature(rows = []) {
+  return rows
+    .map(r => {
+      const desc = normalizeKey(r.ITEMDESC || r.matchedProduct?.productName || "");
+      const qty = Number(r.ORDERQTY) || 0;
+      return desc ? `${desc}|${qty}` : null;
+    })
+    .filter(Boolean)
+    .sort();
+}
+
+export function buildFingerprint(buffer, rows) {
+  return { fileHash: buffer ? hashBuffer(buffer) : null, lineSignature: lineSignature(rows) };
+}
+
+// Multiset overlap: matched / size of the larger order
+function overlap(a, b) {
+  if (!a.length || !b.length) return { matched: 0, score: 0 };
+  const counts = new Map();
+  a.forEach(x => counts.set(x, (counts.get(x) || 0) + 1));
+
+  let matched = 0;
+  b.forEach(x => {
+    const n = counts.get(x) || 0;
+    if (n > 0) {
+      matched++;
+      counts.set(x, n - 1);
+    }
+  });
+
+  return { matched, score: matched / Math.max(a.length, b.length) };
+}
+
+/**
+ * Same lines with the same quantities weigh most; the same items at
+ * other quantities (a corrected resend) still count for something.
+ * → { score 0..1, matchedLines }
+ */
+export function compareSignatures(a = [], b = []) {
+  const exact = overlap(a, b);
+  const items = overlap(a.map(l => l.split("|")[0]), b.map(l => l.split("|")[0]));
+
+  return {
+    score: Math.round((0.7 * exact.score + 0.3 * items.score) * 100) / 100,
+    matchedLines: exact.matched
+  };
+}
+
+/**
+ * Recent uploads that look like the same order.
+ * fingerprint: from buildFingerprint; customerCode may be empty when
+ * the customer wasn't detected (then lines alone decide).
+ * → [{ uploadId, fileName, orderRef, status, createdAt, matchType, score, matchedLines, totalLines }]
+ */
+export async function findDuplicateOrders(
+  Upload,
+  { fingerprint, customerCode = "", excludeIds = [], lookbackDays = DUPLICATE_LOOKBACK_DAYS, minScore = DUPLICATE_MIN_SCORE }
+) {
+  const since = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000);
+
+  const candidates = await Upload.find({
+    _id: { $nin: excludeIds },
+    createdAt: { $gte: since },
+    status: { $in: SHIPPABLE_STATUSES },
+    $or: [
+      ...(fingerprint.fileHash ? [{ "fingerprint.fileHash": fingerprint.fileHash }] : []),
+      customerCode ? { customerCode } : { "fingerprint.lineSignature.0": { $exists: true } }
+    ]
+  })
+    .sort({ createdAt: -1 })
+    .limit(200)
+    .select("fileName orderRef status createdAt customerCode fingerprint")
+    .lean();
+
+  const matches = [];
+
+  candidates.forEach(c => {
+    // Both customers known and different: not the same order
+    if (customerCode && c.customerCode && c.customerCode !== customerCode) return;
+
+    const sameFile = fingerprint.fileHash && c.fingerprint?.fileHash === fingerprint.fileHash;
+    const { score, matchedLines } = compareSignatures(fingerprint.lineSignature, c.fingerprint?.lineSignature);
+    if (!sameFile && score < minScore) return;
+
+    matches.push({
+      uploadId: String(c._id),
+      fileName: c.fileName,
+      orderRef: c.orderRef || null,
+      status: c.status,
+      createdAt: c.createdAt,
+      matchType: sameFile ? "FILE_HASH" : "CONTENT",
+      score: sameFile ? 1 : score,
+      matchedLines,
+      totalLines: fingerprint.lineSignature.length
+    });
+  });
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, 5);
+}
+
+/**
+ * Gate for /orders/convert. upload.duplicates is set at extraction.
+ * override: { reason, duplicateOf: [uploadId] } from the request body.
+ * → { error, status, duplicates } when blocked, { set } with the
+ *   audit fields to store on the upload otherwise (empty when not flagged)
+ */
+export function checkDuplicateOverride(upload, override, actor = null) {
+  const duplicates = upload.duplicates || [];
+  if (duplicates.length === 0) return { set: {} };
+
+  const reason = String(override?.reason || "").trim().slice(0, 500);
+  if (!reason) {
+    return {
+      error: "This order looks like a duplicate of an earlier upload",
+      code: "DUPLICATE_ORDER",
+      status: 409,
+      duplicates
+    };
+  }
+
+  return {
+    set: {
+      duplicateOverride: {
+        reason,
+        duplicateOf: duplicates.map(d => d.uploadId),
+        at: new Date(),
+        by: actor ? { userId: actor._id || actor.id, email: actor.email, name: actor.name } : null
+      }
+    }
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { lineSignature, compareSignatures, buildFingerprint, checkDuplicateOverride } from "./duplicateOrder.js";
+
+describe("lineSignature", () => {
+  it("normalises descriptions, sorts lines and drops blanks", () => {
+    const rows = [
+      { ITEMDESC: "PAN-40 Tab.", ORDERQTY: "5" },
+      { ITEMDESC: "", ORDERQTY: 3 },
+      { ITEMDESC: "Dolo 650", ORDERQTY: 10 },
+      { matchedProduct: { productName: "AMLONG 5MG" } }
+    ];
+    expect(lineSignature(rows)).toEqual(["amlong 5mg|0", "dolo 650|10", "pan 40 tab|5"]);
+  });
+});
+
+describe("compareSignatures", () => {
+  const order = ["amlong 5mg|10", "dolo 650|10", "pan 40|5"];
+
+  it("scores the same lines as a full match whatever the order", () => {
+    expect(compareSignatures(order, [...order].reverse())).toEqual({ score: 1, matchedLines: 3 });
+  });
+
+  it("gives partial credit for the same items at other quantities", () => {
+    expect(compareSignatures(order, ["amlong 5mg|10", "dolo 650|20", "pan 40|5"])).toEqual({ score: 0.77, matchedLines: 2 });
+  });
+
+  it("divides by the larger order", () => {
+    expect(compareSignatures(order, ["dolo 650|10"])).toEqual({ score: 0.33, matchedLines: 1 });
+  });
+
+  it("counts a repeated line only as often as it appears on both sides", () => {
+    expect(compareSignatures(["dolo 650|10", "dolo 650|10"], ["dolo 650|10"])).toEqual({ score: 0.5, matchedLines: 1 });
+  });
+
+  it("scores nothing against an empty or missing signature", () => {
+    expect(compareSignatures(order, [])).toEqual({ score: 0, matchedLines: 0 });
+    expect(compareSignatures(order, undefined)).toEqual({ score: 0, matchedLines: 0 });
+  });
+});
+
+describe("buildFingerprint", () => {
+  it("hashes identical buffers the same way", () => {
+    const a = buildFingerprint(Buffer.from("PO 1"), []);
+    expect(a.fileHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(buildFingerprint(Buffer.from("PO 1"), []).fileHash).toBe(a.fileHash);
+    expect(buildFingerprint(null, []).fileHash).toBeNull();
+  });
+});
+
+describe("checkDuplicateOverride", () => {
+  const flagged = { duplicates: [{ uploadId: "u1" }, { uploadId: "u2" }] };
+
+  it("lets uploads without duplicates through", () => {
+    expect(checkDuplicateOverride({}, null)).toEqual({ set: {} });
+  });
+
+  it("blocks a flagged upload without a reason", () => {
+    expect(checkDuplicateOverride(flagged, { reason: "  " })).toMatchObject({ status: 409, code: "DUPLICATE_ORDER", duplicates: flagged.duplicates });
+  });
+
+  it("records who overrode it and why", () => {
+    const { set } = checkDuplicateOverride(flagged, { reason: " Repeat order " }, { id: "a1", email: "a@x.in", name: "Asha" });
+    expect(set.duplicateOverride).toMatchObject({
+      reason: "Repeat order",
+      duplicateOf: ["u1", "u2"],
+      by: { userId: "a1", email: "a@x.in", name: "Asha" }
+    });
+  });
+});
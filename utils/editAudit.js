@@ -0,0 +1,180 @@
+/* =====================================================
+   EDIT AUDIT TRAIL
+   Field-level log of edits made to converted and scheme
+   rows after conversion: the PUT handlers diff the stored
+   rows against the incoming ones and store one entry per
+   changed cell (who, when, old → new). Single cell changes
+   can be reverted; the revert is logged as a new entry
+   and saved as a new order version
+   ===================================================== */
+
+import { createVersion } from "./orderVersions.js";
+
+// Where each dataset lives on the upload, and the column naming a row
+export const AUDIT_DATASETS = {
+  converted: { path: "convertedData.rows", keyField: "SAPCODE", label: "Converted" },
+  scheme: { path: "schemeDetails", keyField: "productCode", label: "Scheme" }
+};
+
+const sameValue = (a, b) => String(a ?? "") === String(b ?? "");
+
+// Internal fields (_id, _availableSchemes …) are not user edits
+const isTracked = field => !field.startsWith("_");
+
+const getPath = (obj, path) => path.split(".").reduce((o, k) => (o == null ? undefined : o[k]), obj);
+
+/**
+ * before/after: row arrays, offset: index of after[0] in the full
+ * dataset (editors save one page at a time). replaceAll: `after` is
+ * the whole dataset, so missing trailing rows were removed.
+ * → [{ dataset, op, rowIndex, rowKey, field, oldValue, newValue }]
+ */
+export function diffRows(dataset, before = [], after = [], { offset = 0, replaceAll = false } = {}) {
+  const { keyField } = AUDIT_DATASETS[dataset];
+  const changes = [];
+
+  after.forEach((row, i) => {
+    const rowIndex = offset + i;
+    const prev = before[rowIndex];
+
+    if (!prev) {
+      changes.push({ dataset, op: "ADD", rowIndex, rowKey: row?.[keyField] ?? "", field: "", oldValue: null, newValue: row });
+      return;
+    }
+
+    const fields = new Set([...Object.keys(prev), ...Object.keys(row || {})]);
+    fields.forEach(field => {
+      if (!isTracked(field) || sameValue(prev[field], row?.[field])) return;
+      changes.push({
+        dataset,
+        op: "UPDATE",
+        rowIndex,
+        rowKey: prev[keyField] ?? row?.[keyField] ?? "",
+        field,
+        oldValue: prev[field] ?? null,
+        newValue: row?.[field] ?? null
+      });
+    });
+  });
+
+  if (replaceAll && after.length < before.length) {
+    before.slice(after.length).forEach((row, i) => {
+      const rowIndex = after.length + i;
+      changes.push({ dataset, op: "REMOVE", rowIndex, rowKey: row?.[keyField] ?? "", field: "", oldValue: row, newValue: null });
+    });
+  }
+
+  return changes;
+}
+
+const actorOf = actor => (actor ? { userId: actor._id || actor.id, email: actor.email, name: actor.name } : null);
+
+/**
+ * Stores the diff between the upload's current rows and `rows`.
+ * Call before the PUT handler overwrites the dataset.
+ * → number of entries written
+ */
+export async function recordEdits(EditAudit, upload, dataset, rows, { actor = null, offset = 0, replaceAll = false } = {}) {
+  const before = getPath(upload, AUDIT_DATASETS[dataset].path) || [];
+  const changes = diffRows(dataset, before, rows, { offset, replaceAll });
+  if (changes.length === 0) return 0;
+
+  const at = new Date();
+  const by = actorOf(actor);
+  await EditAudit.insertMany(changes.map(c => ({ ...c, upload: upload._id, at, by })));
+  return changes.length;
+}
+
+/**
+ * Timeline for one upload, newest first
+ */
+export async function listEdits(EditAudit, uploadId, { dataset, page = 1, limit = 100 } = {}) {
+  const filter = { upload: uploadId, ...(dataset && AUDIT_DATASETS[dataset] ? { dataset } : {}) };
+  const skip = (Math.max(1, Number(page)) - 1) * Number(limit);
+
+  const [data, total] = await Promise.all([
+    EditAudit.find(filter).sort({ at: -1, _id: -1 }).skip(skip).limit(Number(limit)).lean(),
+    EditAudit.countDocuments(filter)
+  ]);
+
+  return { data, pagination: { page: Number(page), limit: Number(limit), total, totalPages: Math.max(1, Math.ceil(total / Number(limit))) } };
+}
+
+/**
+ * Puts one changed cell back to its old value, provided nobody has
+ * changed that cell since. Row additions / removals are not revertable.
+ * → { entry, row, version } or { error, status }
+ */
+export async function revertEdit(EditAudit, OrderVersion, Upload, uploadId, auditId, { actor = null } = {}) {
+  const entry = await EditAudit.findOne({ _id: auditId, upload: uploadId }).lean();
+  if (!entry) return { error: "Change not found", status: 404 };
+  if (entry.op !== "UPDATE") return { error: "Only single cell changes can be reverted", status: 400 };
+
+  const { path } = AUDIT_DATASETS[entry.dataset];
+  const cellPath = `${path}.${entry.rowIndex}.${entry.field}`;
+
+  const upload = await Upload.findById(uploadId).select(path).lean();
+  if (!upload) return { error: "Order not found", status: 404 };
+
+  const row = (getPath(upload, path) || [])[entry.rowIndex];
+  if (!row) return { error: "The row no longer exists", status: 409 };
+  if (!sameValue(row[entry.field], entry.newValue)) {
+    return { error: `${entry.field} was changed again after this edit, revert the newer change first`, status: 409 };
+  }
+
+  // Conditional on the cell still holding the value we checked
+  const updated = await Upload.findOneAndUpdate(
+    { _id: uploadId, [cellPath]: row[entry.field] },
+    { $set: { [cellPath]: entry.oldValue } },
+    { new: true }
+  ).select("convertedData schemeDetails orderRef outputTemplateId").lean();
+  if (!updated) return { error: "The order was changed by someone else, reload and try again", status: 409 };
+
+  const revert = await EditAudit.create({
+    upload: uploadId,
+    dataset: entry.dataset,
+    op: "UPDATE",
+    rowIndex: entry.rowIndex,
+    rowKey: entry.rowKey,
+    field: entry.field,
+    oldValue: entry.newValue,
+    newValue: entry.oldValue,
+    at: new Date(),
+    by: actorOf(actor),
+    revertOf: entry._id
+  });
+
+  const version = await createVersion(OrderVersion, Upload, updated, {
+    actor,
+    reason: "REVERT",
+    note: `${entry.field} on row ${entry.rowIndex + 1}`
+  });
+
+  return { entry: revert, row: getPath(updated, path)[entry.rowIndex], version: version.version };
+}
+
+const cellText = v => (v === null || v === undefined ? "" : typeof v === "object" ? JSON.stringify(v) : String(v));
+
+/**
+ * Payload for exportFormats.renderExport (CSV / XLSX / PDF), written as a
+ * plain table rather than through the order layouts
+ */
+export function auditExportTable(entries = [], { orderRef = "" } = {}) {
+  return {
+    table: true,
+    meta: { title: "Edit Audit Trail", orderRef },
+    headers: ["Time", "User", "Data", "Action", "Row", "Product", "Field", "Old Value", "New Value", "Reverts"],
+    rows: entries.map(e => ({
+      Time: new Date(e.at).toISOString(),
+      User: e.by?.email || e.by?.name || "",
+      Data: AUDIT_DATASETS[e.dataset]?.label || e.dataset,
+      Action: e.op,
+      Row: e.rowIndex + 1,
+      Product: cellText(e.rowKey),
+      Field: e.field,
+      "Old Value": cellText(e.oldValue),
+      "New Value": cellText(e.newValue),
+      Reverts: e.revertOf ? String(e.revertOf) : ""
+    }))
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { auditExportTable, diffRows } from "./editAudit.js";
+import { renderExport } from "./exportFormats.js";
+
+const entry = {
+  _id: "a1",
+  dataset: "converted",
+  op: "UPDATE",
+  rowIndex: 4,
+  rowKey: "SAP123",
+  field: "ORDERQTY",
+  oldValue: 10,
+  newValue: 12,
+  at: "2026-10-18T10:00:00.000Z",
+  by: { email: "rep@example.com" }
+};
+
+describe("diffRows", () => {
+  const before = [
+    { SAPCODE: "A", ORDERQTY: 10 },
+    { SAPCODE: "B", ORDERQTY: 5 }
+  ];
+
+  it("logs one UPDATE per changed cell", () => {
+    const changes = diffRows("converted", before, [{ SAPCODE: "A", ORDERQTY: 12 }, { SAPCODE: "B", ORDERQTY: 5 }]);
+    expect(changes).toEqual([
+      { dataset: "converted", op: "UPDATE", rowIndex: 0, rowKey: "A", field: "ORDERQTY", oldValue: 10, newValue: 12 }
+    ]);
+  });
+
+  it("places a saved page at its absolute row number", () => {
+    // Page 2 of a one-row-per-page editor holds only row B
+    const changes = diffRows("converted", before, [{ SAPCODE: "B", ORDERQTY: 7 }], { offset: 1 });
+    expect(changes).toMatchObject([{ op: "UPDATE", rowIndex: 1, rowKey: "B", oldValue: 5, newValue: 7 }]);
+  });
+
+  it("ignores internal fields", () => {
+    const changes = diffRows("converted", before, [{ SAPCODE: "A", ORDERQTY: 10, _upsell: true }, before[1]]);
+    expect(changes).toEqual([]);
+  });
+
+  it("only reports removed rows for a full save", () => {
+    expect(diffRows("converted", before, [before[0]]).filter(c => c.op === "REMOVE")).toHaveLength(0);
+    expect(diffRows("converted", before, [before[0]], { replaceAll: true })).toMatchObject([{ op: "REMOVE", rowIndex: 1, rowKey: "B" }]);
+  });
+
+  it("reports added rows", () => {
+    const changes = diffRows("converted", before, [...before, { SAPCODE: "C", ORDERQTY: 1 }]);
+    expect(changes).toMatchObject([{ op: "ADD", rowIndex: 2, rowKey: "C" }]);
+  });
+});
+
+describe("audit export", () => {
+  it("writes the audit entries, not the ERP layout, to CSV", async () => {
+    const { buffer, extension } = await renderExport("CSV", auditExportTable([entry], { orderRef: "COD/2026-27/00001" }));
+    const lines = buffer.toString("utf8").replace(/^﻿/, "").trim().split("\r\n");
+
+    expect(extension).toBe("csv");
+    expect(lines[0]).toBe("Time,User,Data,Action,Row,Product,Field,Old Value,New Value,Reverts");
+    expect(lines[1]).toBe("2026-10-18T10:00:00.000Z,rep@example.com,Converted,UPDATE,5,SAP123,ORDERQTY,10,12,");
+  });
+
+  it("writes the audit entries to the fixed-width format too", async () => {
+    const { buffer } = await renderExport("ERP_FIXED", auditExportTable([entry]));
+    const text = buffer.toString("latin1");
+    expect(text).toContain("rep@example.com");
+    expect(text).toContain("SAP123");
+  });
+});
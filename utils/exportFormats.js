@@ -0,0 +1,242 @@
+import { applyOutputTemplate } from "./outputTemplate.js";
+
+/* =====================================================
+   EXPORT FORMAT REGISTRY
+   Each format owns its column layout and renderer.
+   Converted rows come in with their canonical fields
+   (SAPCODE, ORDERQTY, DVN …); a layout column names the
+   output header and the row field(s) it is read from
+   (first non-empty wins). Formats without a layout (XLSX,
+   JSON) show the rows through the output template.
+   Non-order tables (e.g. the edit audit log) set `table`
+   and are written with their own headers in every format
+   ===================================================== */
+
+const ERP_LAYOUT = [
+  // Converted rows don't carry the customer: falls back to meta.customerCode
+  { header: "CUSTCODE", fields: ["customerCode", "CODE"], metaField: "customerCode", width: 10 },
+  { header: "ITEMCODE", fields: ["SAPCODE"], width: 12 },
+  { header: "QTY", fields: ["ORDERQTY"], width: 8, align: "right", numeric: true },
+  { header: "FREE", fields: ["freeQty", "FREEQTY"], width: 6, align: "right", numeric: true },
+  { header: "DIV", fields: ["DVN", "DIVISION"], width: 6 },
+  { header: "ITEMDESC", fields: ["ITEMDESC"], width: 40 }
+];
+
+const CONFIRMATION_LAYOUT = [
+  { header: "Item Code", fields: ["SAPCODE"], width: 70 },
+  { header: "Description", fields: ["ITEMDESC"], width: 230 },
+  { header: "Division", fields: ["DVN", "DIVISION"], width: 60 },
+  { header: "Box Pack", fields: ["BOX PACK"], width: 50, align: "right" },
+  { header: "Qty", fields: ["ORDERQTY"], width: 50, align: "right", numeric: true },
+  { header: "Free", fields: ["freeQty", "FREEQTY"], width: 40, align: "right", numeric: true }
+];
+
+export const EXPORT_FORMATS = {
+  XLSX: {
+    id: "XLSX",
+    label: "Excel (.xlsx)",
+    description: "Final template columns, one sheet per order sheet",
+    extension: "xlsx",
+    mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    // null → converted headers, or the output template's columns
+    layout: null
+  },
+  CSV: {
+    id: "CSV",
+    label: "CSV (ERP import)",
+    description: "Comma-separated ERP import columns with a header line",
+    extension: "csv",
+    mimeType: "text/csv",
+    layout: ERP_LAYOUT
+  },
+  ERP_FIXED: {
+    id: "ERP_FIXED",
+    label: "Fixed-width (ERP)",
+    description: "Fixed-width ERP record per line, no header",
+    extension: "txt",
+    mimeType: "text/plain",
+    layout: ERP_LAYOUT
+  },
+  JSON: {
+    id: "JSON",
+    label: "JSON",
+    description: "Order header and lines for integrations",
+    extension: "json",
+    mimeType: "application/json",
+    layout: null
+  },
+  PDF: {
+    id: "PDF",
+    label: "PDF order confirmation",
+    description: "Printable confirmation to send to the customer",
+    extension: "pdf",
+    mimeType: "application/pdf",
+    layout: CONFIRMATION_LAYOUT
+  }
+};
+
+export const DEFAULT_EXPORT_FORMAT = "XLSX";
+
+// What the download menu needs – layouts stay on the server
+export function listExportFormats() {
+  return Object.values(EXPORT_FORMATS).map(({ id, label, description, extension }) => ({
+    id,
+    label,
+    description,
+    extension
+  }));
+}
+
+export function getExportFormat(id) {
+  return EXPORT_FORMATS[String(id || DEFAULT_EXPORT_FORMAT).toUpperCase()] || null;
+}
+
+function readField(row, column, meta = {}) {
+  const values = [...column.fields.map(f => row[f]), column.metaField ? meta[column.metaField] : undefined];
+  for (const v of values) {
+    if (v !== undefined && v !== null && v !== "") return column.numeric ? Number(v) || 0 : v;
+  }
+  return column.numeric ? 0 : "";
+}
+
+function applyLayout(rows, layout, meta) {
+  return rows.map(row => layout.map(col => readField(row, col, meta)));
+}
+
+/* ---------------- RENDERERS ---------------- */
+
+function csvCell(value) {
+  const s = String(value ?? "");
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function renderCsv({ rows, meta }, format) {
+  const lines = [
+    format.layout.map(c => csvCell(c.header)).join(","),
+    ...applyLayout(rows, format.layout, meta).map(values => values.map(csvCell).join(","))
+  ];
+  // BOM so Excel opens UTF-8 descriptions correctly
+  return Buffer.from(`\uFEFF${lines.join("\r\n")}\r\n`, "utf8");
+}
+
+function fixedCell(value, col) {
+  const s = String(value ?? "").replace(/[\r\n\t]/g, " ");
+  if (s.length >= col.width) return s.slice(0, col.width);
+  return col.align === "right" ? s.padStart(col.width, col.numeric ? "0" : " ") : s.padEnd(col.width, " ");
+}
+
+function renderFixedWidth({ rows, meta }, format) {
+  const lines = applyLayout(rows, format.layout, meta).map(values =>
+    values.map((v, i) => fixedCell(v, format.layout[i])).join("")
+  );
+  return Buffer.from(`${lines.join("\r\n")}\r\n`, "latin1");
+}
+
+async function renderXlsx({ headers, rows, sheets }) {
+  const { default: XLSX } = await import("xlsx");
+  const wb = XLSX.utils.book_new();
+  const toSheet = sheetRows => XLSX.utils.json_to_sheet(
+    sheetRows.map(r => Object.fromEntries(headers.map(h => [h, r[h] ?? ""]))),
+    { header: headers }
+  );
+
+  if (Array.isArray(sheets) && sheets.length > 0) {
+    sheets.forEach(s => XLSX.utils.book_append_sheet(wb, toSheet(s.rows), String(s.name).slice(0, 31)));
+  } else {
+    XLSX.utils.book_append_sheet(wb, toSheet(rows), "Order");
+  }
+
+  return XLSX.write(wb, { type: "buffer", bookType: "xlsx" });
+}
+
+function renderJson({ headers, rows, meta }) {
+  const lines = rows.map(r => Object.fromEntries(headers.map(h => [h, r[h] ?? null])));
+  return Buffer.from(JSON.stringify({ order: meta, lines }, null, 2), "utf8");
+}
+
+async function renderPdf({ rows, meta }, format) {
+  // Optional heavy dependency, only loaded when a confirmation is requested
+  const { default: PDFDocument } = await import("pdfkit");
+  const doc = new PDFDocument({ size: "A4", margin: 40 });
+  const chunks = [];
+  doc.on("data", c => chunks.push(c));
+  const done = new Promise(resolve => doc.on("end", resolve));
+
+  doc.fontSize(16).text(meta.title || "Order Confirmation", { align: "center" }).moveDown(0.5);
+  doc.fontSize(10)
+    .text(`Order: ${meta.orderRef || meta.uploadId || ""}`)
+    .text(`Customer: ${[meta.customerName, meta.customerCode && `(${meta.customerCode})`].filter(Boolean).join(" ")}`)
+    .text(`Date: ${new Date(meta.date || Date.now()).toLocaleDateString("en-IN")}`)
+    .moveDown();
+
+  const drawRow = (values, bold) => {
+    if (doc.y > doc.page.height - 60) doc.addPage();
+    const y = doc.y;
+    let x = doc.page.margins.left;
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(9);
+    values.forEach((v, i) => {
+      const col = format.layout[i];
+      doc.text(String(v ?? ""), x, y, { width: col.width - 4, align: col.align || "left", lineBreak: false, ellipsis: true });
+      x += col.width;
+    });
+    doc.moveDown(0.4);
+    doc.x = doc.page.margins.left;
+  };
+
+  drawRow(format.layout.map(c => c.header), true);
+  applyLayout(rows, format.layout, meta).forEach(values => drawRow(values, false));
+
+  if (!format.table) {
+    const totalQty = rows.reduce((s, r) => s + (Number(r.ORDERQTY) || 0), 0);
+    doc.moveDown().font("Helvetica-Bold").text(`${rows.length} item(s), total quantity ${totalQty}`);
+  }
+
+  doc.end();
+  await done;
+  return Buffer.concat(chunks);
+}
+
+// Page width (A4 less margins) shared by the columns of a generic table
+const PDF_TABLE_WIDTH = 515;
+
+// One column per header, read from the key of the same name
+function tableLayout(headers) {
+  const width = Math.max(8, Math.floor(PDF_TABLE_WIDTH / Math.max(1, headers.length)));
+  return headers.map(h => ({ header: h, fields: [h], width }));
+}
+
+const RENDERERS = {
+  XLSX: renderXlsx,
+  CSV: renderCsv,
+  ERP_FIXED: renderFixedWidth,
+  JSON: renderJson,
+  PDF: renderPdf
+};
+
+/**
+ * payload: { headers, rows, sheets?, template?, customer?, meta: { uploadId, orderRef, customerCode, customerName, date } }
+ * rows / sheets hold canonical rows; template (resolveOutputTemplate) and
+ * customer (for customer.* columns) only shape XLSX and JSON.
+ * sheets ([{ name, rows }]) is only used by XLSX for the "sheets" download.
+ * table: true → not an order; every format writes payload.headers as they are
+ * (meta.title heads the PDF).
+ * → { buffer, mimeType, extension }
+ */
+export async function renderExport(formatId, payload) {
+  let format = getExportFormat(formatId);
+  if (!format) throw new Error(`Unknown export format: ${formatId}`);
+  if (payload.table && format.layout) {
+    format = { ...format, layout: tableLayout(payload.headers || []), table: true };
+  }
+
+  let { headers = [], rows = [], sheets } = payload;
+  if (!format.layout && payload.template) {
+    const shape = sheetRows => applyOutputTemplate(sheetRows, payload.template, { headers, customer: payload.customer });
+    ({ headers, rows } = shape(rows));
+    sheets = sheets?.map(s => ({ ...s, rows: shape(s.rows || []).rows }));
+  }
+
+  const buffer = await RENDERERS[format.id]({ headers, rows, sheets, meta: payload.meta || {} }, format);
+
+  return { buffer, mimeType: format.mimeType, extension: format.extension };
+}
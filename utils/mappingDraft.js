@@ -0,0 +1,40 @@
+/* =====================================================
+   MAPPING DRAFTS
+   In-progress mapping sessions saved per upload so a
+   refresh, crash or device switch does not lose work
+   ===================================================== */
+
+export function validateMappingDraft(input = {}) {
+  const errors = [];
+
+  if (!Array.isArray(input.filesData)) errors.push("filesData must be an array");
+  if (!Array.isArray(input.rows)) errors.push("rows must be an array");
+
+  return {
+    draft: {
+      filesData: Array.isArray(input.filesData) ? input.filesData : [],
+      rows: Array.isArray(input.rows) ? input.rows : [],
+      sheets: Array.isArray(input.sheets) ? input.sheets : [],
+      rowErrors: input.rowErrors && typeof input.rowErrors === "object" ? input.rowErrors : {}
+    },
+    errors
+  };
+}
+
+/**
+ * Light-weight listing entry for the dashboard "Resume" card –
+ * keeps full row payloads out of the list response.
+ */
+export function summarizeMappingDraft(uploadId, draft, updatedAt) {
+  const files = draft?.filesData || [];
+  const rows = draft?.rows || [];
+
+  return {
+    uploadId: String(uploadId),
+    fileNames: files.map(f => f.fileName).filter(Boolean),
+    customerNames: [...new Set(files.map(f => f.customer?.name).filter(Boolean))],
+    rowCount: rows.length,
+    mappedCount: rows.filter(r => r.SAPCODE).length,
+    updatedAt: new Date(updatedAt || Date.now()).toISOString()
+  };
+}
@@ -1,65 +1,245 @@
+
 /* =====================================================
    PRODUCT MATCHER – PHARMA SAFE
+   Scored multi-strategy matcher:
+   token overlap + strength parsing + edit distance + pack hints
    ===================================================== */
 
+const MIN_MATCH_SCORE = 0.6;
+
 function normalize(text = "") {
   return text
     .toUpperCase()
     .replace(/\+FREE/g, "")
     .replace(/['"*]/g, "")
-    .replace(/[^A-Z0-9 ]/g, " ")
+    .replace(/[^A-Z0-9. ]/g, " ")
+    .replace(/(\D)\.|\.(\D)/g, "$1 $2")
     .replace(/\s+/g, " ")
     .trim();
 }
 
-export function matchProductLoose(invoiceDesc, products) {
-  if (!invoiceDesc) return null;
+/* ---------------- STRENGTH / DOSAGE ---------------- */
 
-  const inv = normalize(invoiceDesc);
+const STRENGTH_RE = /(\d+(?:\.\d+)?)\s*(MG|MCG|GM|G|ML|IU|%)(?![A-Z])/g;
 
-  let best = null;
-  let bestScore = 0;
+const BARE_NUMBER_RE = /^\d+(?:\.\d+)?$/;
 
-  for (const p of products) {
-    const master = normalize(p.productName);
-
-    if (!master) continue;
-
-    // Exact contains (strongest)
-    if (inv.includes(master) || master.includes(inv)) {
-      return {
-        product: {
-          ITEMDESC: p.productName,
-          SAPCODE: p.productCode,
-          PACK: p.pack,
-          DVN: p.division
-        },
-        score: 1
-      };
+// Words left once strengths with a unit and pack tokens (10S, 1X10) are removed
+function baseWords(text = "") {
+  return normalize(text)
+    .replace(STRENGTH_RE, " ")
+    .split(" ")
+    .filter(w => w && !/^\d+S$/.test(w) && !/^\d+X\d+$/.test(w));
+}
+
+// "DOLO 650": a bare number after the name is the strength ("PACK OF 10" is not)
+function bareStrength(words) {
+  const last = words[words.length - 1];
+  const before = words[words.length - 2];
+  if (words.length < 2 || !BARE_NUMBER_RE.test(last)) return null;
+  return ["OF", "X", "PACK", "STRIP"].includes(before) ? null : last;
+}
+
+// "500 MG" / "500MG" → "500MG", "1 G" → "1GM", "DOLO 650" → "650"
+function parseStrengths(text = "") {
+  const out = new Set();
+  for (const m of normalize(text).matchAll(STRENGTH_RE)) {
+    const unit = m[2] === "G" ? "GM" : m[2];
+    out.add(`${Number(m[1])}${unit}`);
+  }
+  if (out.size === 0) {
+    const bare = bareStrength(baseWords(text));
+    if (bare) out.add(String(Number(bare)));
+  }
+  return [...out];
+}
+
+// A bare "650" matches "650MG"; two units must agree
+function sameStrength(a, b) {
+  if (a === b) return true;
+  if (!BARE_NUMBER_RE.test(a) && !BARE_NUMBER_RE.test(b)) return false;
+  return parseFloat(a) === parseFloat(b);
+}
+
+// Words used for name comparison: strengths (incl. a trailing bare number) and pack tokens removed
+function nameWords(text = "") {
+  const words = baseWords(text);
+  return bareStrength(words) ? words.slice(0, -1) : words;
+}
+
+/* ---------------- PACK HINTS ---------------- */
+
+// 10'S, 10S, PACK OF 10, 1X10, STRIP OF 15
+function parsePackHint(text = "") {
+  const t = String(text).toUpperCase();
+  const m =
+    t.match(/\b(\d+)\s*['`]?\s*S\b/) ||
+    t.match(/PACK\s*OF\s*(\d+)/) ||
+    t.match(/\b\d+\s*X\s*(\d+)\b/) ||
+    t.match(/STRIP\s*(?:OF\s*)?(\d+)/);
+  return m ? Number(m[1]) : null;
+}
+
+/* ---------------- EDIT DISTANCE ---------------- */
+
+function levenshtein(a, b) {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
     }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+function similarity(a = "", b = "") {
+  const max = Math.max(a.length, b.length);
+  return max === 0 ? 0 : 1 - levenshtein(a, b) / max;
+}
+
+/* ---------------- SCORING ---------------- */
+
+function masterText(p) {
+  return p.productName || [p.baseName, p.variant, p.dosage].filter(Boolean).join(" ");
+}
 
-    // Word overlap scoring
-    const invWords = inv.split(" ");
-    const masterWords = master.split(" ");
-
-    const common = invWords.filter(w => masterWords.includes(w));
-
-    const score =
-      (common.length * 2) / (invWords.length + masterWords.length);
-
-    if (score > bestScore && score >= 0.6) {
-      bestScore = score;
-      best = {
-        product: {
-          ITEMDESC: p.productName,
-          SAPCODE: p.productCode,
-          PACK: p.pack,
-          DVN: p.division
-        },
-        score
-      };
+function scoreProduct(invoiceDesc, p) {
+  const reasons = [];
+  const master = masterText(p);
+  if (!normalize(master)) return null;
+
+  const invWords = nameWords(invoiceDesc);
+  const masterWords = nameWords(master);
+  if (invWords.length === 0 || masterWords.length === 0) return null;
+
+  // 1. Token overlap (dice) – TABS ≈ TAB, one-letter typos tolerated
+  const common = invWords.filter(w =>
+    masterWords.some(m => m === w || (Math.min(w.length, m.length) >= 3 && similarity(w, m) >= 0.75))
+  );
+  const tokenScore = (common.length * 2) / (invWords.length + masterWords.length);
+  if (common.length > 0) reasons.push(`${common.length} word(s) match`);
+
+  // 2. Brand similarity (typo tolerant) on the first word / baseName
+  const brand = normalize(p.baseName || "").split(" ")[0] || masterWords[0];
+  const brandScore = similarity(invWords[0], brand);
+  if (brandScore === 1) reasons.push("Brand matches");
+  else if (brandScore >= 0.75) reasons.push("Brand similar (spelling)");
+
+  let score = 0.5 * tokenScore + 0.4 * brandScore;
+
+  // 3. Whole-name containment, on whole words ("PARACIP 50" is not inside "PARACIP 500")
+  const invSet = new Set(invWords);
+  const masterSet = new Set(masterWords);
+  if (masterWords.every(w => invSet.has(w)) || invWords.every(w => masterSet.has(w))) {
+    score += 0.1;
+    reasons.push("Name contained");
+  }
+
+  // 4. Strength / dosage – 5MG must never map to 50MG
+  const invStrengths = parseStrengths(invoiceDesc);
+  const masterStrengths = parseStrengths([master, p.dosage].filter(Boolean).join(" "));
+  let strengthMismatch = false;
+  if (invStrengths.length > 0 && masterStrengths.length > 0) {
+    const same = invStrengths.filter(s => masterStrengths.some(m => sameStrength(s, m)));
+    if (same.length > 0) {
+      score += 0.15;
+      reasons.push(`Strength ${same.join(", ")} matches`);
+    } else {
+      score *= 0.4;
+      strengthMismatch = true;
+      reasons.push(`Strength mismatch (${invStrengths.join(", ")} vs ${masterStrengths.join(", ")})`);
     }
+  } else if (invStrengths.length > 0 || masterStrengths.length > 0) {
+    score *= 0.9;
+    reasons.push("Strength not specified on both sides");
   }
 
+  // 5. Variant (e.g. SR, MR, XL) hint
+  const variant = normalize(p.variant || "");
+  if (variant && invWords.includes(variant)) {
+    score += 0.05;
+    reasons.push(`Variant ${variant} matches`);
+  }
+
+  // 6. Pack-size hint
+  const packHint = parsePackHint(invoiceDesc);
+  if (packHint && [Number(p.pack), Number(p.boxPack)].includes(packHint)) {
+    score += 0.05;
+    reasons.push(`Pack ${packHint} matches`);
+  }
+
+  return {
+    score: Math.max(0, Math.min(1, Number(score.toFixed(3)))),
+    // Uncapped: the variant / pack hints still separate two full-score matches
+    rawScore: Number(score.toFixed(3)),
+    reasons,
+    strengthMismatch
+  };
+}
+
+function toMatchedProduct(p) {
+  return {
+    ITEMDESC: p.productName,
+    SAPCODE: p.productCode,
+    PACK: p.pack,
+    DVN: p.division
+  };
+}
+
+/**
+ * Top-N candidates with scores and reasons, best first.
+ * Attached to extracted rows as `candidates` for the MappingPage dropdown.
+ */
+export function rankProductCandidates(invoiceDesc, products, { limit = 5, minScore = 0.3 } = {}) {
+  if (!invoiceDesc) return [];
+
+  const scored = [];
+
+  for (const p of products) {
+    const result = scoreProduct(invoiceDesc, p);
+    if (!result || result.score < minScore) continue;
+
+    scored.push({
+      productCode: p.productCode,
+      productName: p.productName,
+      division: p.division,
+      score: result.score,
+      rawScore: result.rawScore,
+      reasons: result.reasons,
+      strengthMismatch: result.strengthMismatch,
+      product: toMatchedProduct(p)
+    });
+  }
+
+  return scored.sort((a, b) => b.rawScore - a.rawScore).slice(0, limit);
+}
+
+/**
+ * Top candidate if it is safe to map without asking, else null
+ * (the user then picks from the candidates). Never auto-picks on a
+ * strength mismatch or when two products share the top score
+ * ("AMLONG" vs AMLONG 5MG / AMLONG 50MG).
+ */
+export function pickAutoMatch(candidates, minScore = MIN_MATCH_SCORE) {
+  const [best, second] = candidates;
+  if (!best || best.score < minScore || best.strengthMismatch) return null;
+  if (second && (second.rawScore ?? second.score) === (best.rawScore ?? best.score)) return null;
   return best;
 }
+
+export function matchProductLoose(invoiceDesc, products) {
+  const best = pickAutoMatch(rankProductCandidates(invoiceDesc, products, { limit: 2, minScore: MIN_MATCH_SCORE }));
+  if (!best) return null;
+
+  return {
+    product: best.product,
+    score: best.score
+  };
+}
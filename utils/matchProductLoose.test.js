@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { rankProductCandidates, pickAutoMatch, matchProductLoose } from "./matchProductLoose.js";
+
+const PRODUCTS = [
+  { productCode: "P500", productName: "PARACIP 500", baseName: "PARACIP", pack: 10, division: "GEN" },
+  { productCode: "P650", productName: "PARACIP 650", baseName: "PARACIP", pack: 15, division: "GEN" },
+  { productCode: "A5", productName: "AMLONG 5MG", baseName: "AMLONG", dosage: "5MG", pack: 10, division: "CVS" },
+  { productCode: "A50", productName: "AMLONG 50MG", baseName: "AMLONG", dosage: "50MG", pack: 10, division: "CVS" },
+  { productCode: "D650", productName: "DOLO 650MG", baseName: "DOLO", pack: 15, division: "GEN" },
+  { productCode: "D650B", productName: "DOLO 650MG", baseName: "DOLO", pack: 10, division: "GEN" }
+];
+
+const codes = candidates => candidates.map(c => c.productCode);
+
+describe("rankProductCandidates", () => {
+  it("ranks the same strength first and explains why", () => {
+    const [top] = rankProductCandidates("AMLONG 5 MG", PRODUCTS);
+    expect(top.productCode).toBe("A5");
+    expect(top.strengthMismatch).toBe(false);
+    expect(top.reasons).toContain("Strength 5MG matches");
+  });
+
+  it("flags 5MG against 50MG as a strength mismatch", () => {
+    const a50 = rankProductCandidates("AMLONG 5MG", PRODUCTS).find(c => c.productCode === "A50");
+    expect(a50.strengthMismatch).toBe(true);
+    expect(a50.score).toBeLessThan(0.6);
+  });
+
+  it("reads a bare trailing number as the strength", () => {
+    const candidates = rankProductCandidates("PARACIP 50", PRODUCTS);
+    expect(candidates.every(c => c.strengthMismatch)).toBe(true);
+
+    const [dolo] = rankProductCandidates("DOLO 650", PRODUCTS);
+    expect(dolo.strengthMismatch).toBe(false);
+    expect(dolo.reasons).toContain("Strength 650 matches");
+  });
+
+  it("uses the pack hint to separate packs of the same product", () => {
+    const [top, second] = rankProductCandidates("DOLO 650MG 10'S", PRODUCTS);
+    expect(top.productCode).toBe("D650B");
+    expect(top.reasons).toContain("Pack 10 matches");
+    // Both read 1 once capped; the hint still decides the order and the auto match
+    expect(top.rawScore).toBeGreaterThan(second.rawScore);
+    expect(matchProductLoose("DOLO 650MG 10'S", PRODUCTS)?.product.SAPCODE).toBe("D650B");
+  });
+
+  it("does not read a pack size as the strength", () => {
+    const [top] = rankProductCandidates("DOLO PACK OF 15", PRODUCTS);
+    expect(top.strengthMismatch).toBe(false);
+  });
+
+  it("tolerates a spelling mistake in the brand", () => {
+    expect(codes(rankProductCandidates("AMLOMG 5MG", PRODUCTS))[0]).toBe("A5");
+  });
+});
+
+describe("pickAutoMatch / matchProductLoose", () => {
+  it("maps a clear match", () => {
+    expect(matchProductLoose("AMLONG 5 MG", PRODUCTS)?.product.SAPCODE).toBe("A5");
+    expect(matchProductLoose("PARACIP 500", PRODUCTS)?.product.SAPCODE).toBe("P500");
+  });
+
+  it("never maps on a strength mismatch", () => {
+    expect(matchProductLoose("PARACIP 50", PRODUCTS)).toBeNull();
+    const withoutP650 = PRODUCTS.filter(p => p.productCode !== "P650");
+    expect(matchProductLoose("PARACIP 650", withoutP650)).toBeNull();
+  });
+
+  it("leaves a tied top score to the user", () => {
+    const candidates = rankProductCandidates("AMLONG", PRODUCTS);
+    expect(candidates[0].score).toBe(candidates[1].score);
+    expect(pickAutoMatch(candidates)).toBeNull();
+    expect(matchProductLoose("AMLONG", PRODUCTS)).toBeNull();
+  });
+
+  it("respects the minimum score", () => {
+    const candidates = [{ productCode: "X", score: 0.55, strengthMismatch: false }];
+    expect(pickAutoMatch(candidates)).toBeNull();
+    expect(pickAutoMatch(candidates, 0.5)?.productCode).toBe("X");
+  });
+});
@@ -0,0 +1,42 @@
+/* =====================================================
+   MATCH CONFIDENCE SETTINGS
+   Thresholds used by MappingPage to flag shaky auto matches
+   ===================================================== */
+
+export const DEFAULT_MATCH_SETTINGS = {
+  autoAccept: 0.85,
+  review: 0.6,
+  onUnreviewed: "warn"
+};
+
+export function validateMatchSettings(input = {}) {
+  const errors = [];
+
+  const autoAccept = Number(input.autoAccept ?? DEFAULT_MATCH_SETTINGS.autoAccept);
+  const review = Number(input.review ?? DEFAULT_MATCH_SETTINGS.review);
+  const onUnreviewed = input.onUnreviewed ?? DEFAULT_MATCH_SETTINGS.onUnreviewed;
+
+  if (isNaN(autoAccept) || autoAccept < 0 || autoAccept > 1) {
+    errors.push("autoAccept must be between 0 and 1");
+  }
+  if (isNaN(review) || review < 0 || review > 1) {
+    errors.push("review must be between 0 and 1");
+  }
+  if (!errors.length && review > autoAccept) {
+    errors.push("review cannot be above autoAccept");
+  }
+  if (!["warn", "block"].includes(onUnreviewed)) {
+    errors.push("onUnreviewed must be 'warn' or 'block'");
+  }
+
+  return {
+    settings: { autoAccept, review, onUnreviewed },
+    errors
+  };
+}
+
+// Confidence carried on each extracted row (alias hits are trusted)
+export function rowMatchConfidence(match) {
+  if (!match) return 0;
+  return match.source === "ALIAS" ? 1 : Number(match.score) || 0;
+}
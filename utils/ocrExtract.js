@@ -0,0 +1,158 @@
+import { createWorker } from "tesseract.js";
+
+/* =====================================================
+   LOCAL OCR STAGE – SCANNED PDF / IMAGE ORDERS
+   Runs tesseract in-process (no cloud service) and turns
+   recognised lines into order rows with per-field
+   confidence and bounding boxes (page pixel coordinates)
+   ===================================================== */
+
+const IMAGE_MIME = ["image/jpeg", "image/jpg", "image/png"];
+const UNIT_WORDS = /^(NOS|NO|BOX|BOXES|STRIP|STRIPS|PCS|PC|UNITS?|QTY)$/i;
+const HEADER_WORDS = /\b(ITEM|PRODUCT|DESCRIPTION|PARTICULARS|QTY|QUANTITY|S\.?\s?NO)\b/i;
+
+let workerPromise = null;
+
+// One warm worker per process – loading language data is the slow part
+function getWorker() {
+  if (!workerPromise) workerPromise = createWorker("eng");
+  return workerPromise;
+}
+
+function unionBox(boxes) {
+  const valid = boxes.filter(Boolean);
+  if (valid.length === 0) return null;
+  return {
+    x0: Math.min(...valid.map(b => b.x0)),
+    y0: Math.min(...valid.map(b => b.y0)),
+    x1: Math.max(...valid.map(b => b.x1)),
+    y1: Math.max(...valid.map(b => b.y1))
+  };
+}
+
+function meanConfidence(words) {
+  if (words.length === 0) return 0;
+  const sum = words.reduce((s, w) => s + (Number(w.confidence) || 0), 0);
+  return Number((sum / words.length / 100).toFixed(2));
+}
+
+// tesseract.js v5 exposes data.lines; newer versions nest them in blocks → paragraphs
+function flattenLines(data) {
+  if (Array.isArray(data.lines) && data.lines.length > 0) return data.lines;
+  return (data.blocks || []).flatMap(b => (b.paragraphs || []).flatMap(p => p.lines || []));
+}
+
+async function recognisePage(imageBuffer) {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(imageBuffer, {}, { blocks: true });
+
+  return flattenLines(data).map(line => ({
+    text: (line.text || "").trim(),
+    confidence: Number(((line.confidence || 0) / 100).toFixed(2)),
+    bbox: line.bbox,
+    words: (line.words || []).map(w => ({
+      text: (w.text || "").trim(),
+      confidence: w.confidence,
+      bbox: w.bbox
+    })).filter(w => w.text)
+  }));
+}
+
+/**
+ * "12 DOLO 650 TAB 10 NOS" → item words + qty word.
+ * Returns null for headers, totals and lines without a quantity.
+ */
+export function parseOcrLine(line) {
+  const words = [...line.words];
+  if (words.length < 2 || (HEADER_WORDS.test(line.text) && !/\d/.test(line.text))) return null;
+  if (/^(TOTAL|GRAND TOTAL|SUB TOTAL)\b/i.test(line.text)) return null;
+
+  // Trailing unit word ("10 NOS") belongs to the quantity
+  while (words.length > 0 && UNIT_WORDS.test(words[words.length - 1].text)) words.pop();
+
+  const qtyWord = words[words.length - 1];
+  if (!qtyWord || !/^\d{1,5}$/.test(qtyWord.text)) return null;
+
+  let itemWords = words.slice(0, -1);
+  // Leading serial number ("1", "12.", "3)")
+  if (itemWords.length > 1 && /^\d{1,3}[.)]?$/.test(itemWords[0].text)) itemWords = itemWords.slice(1);
+
+  const itemText = itemWords.map(w => w.text).join(" ").trim();
+  if ((itemText.match(/[A-Z]/gi) || []).length < 2) return null;
+
+  return {
+    ITEMDESC: itemText,
+    ORDERQTY: Number(qtyWord.text),
+    confidence: {
+      ITEMDESC: meanConfidence(itemWords),
+      ORDERQTY: meanConfidence([qtyWord])
+    },
+    boxes: {
+      ITEMDESC: unionBox(itemWords.map(w => w.bbox)),
+      ORDERQTY: qtyWord.bbox
+    }
+  };
+}
+
+async function rasterisePdf(buffer) {
+  // Optional heavy dependency, only loaded for scanned PDFs
+  const { pdf } = await import("pdf-to-img");
+  const pages = [];
+  for await (const image of await pdf(buffer, { scale: 2 })) pages.push(image);
+  return pages;
+}
+
+/**
+ * Full OCR extraction for one uploaded file.
+ * pageImages are returned so the caller can store them for the source viewer.
+ */
+export async function extractWithOcr(buffer, mimeType) {
+  const isImage = IMAGE_MIME.includes(String(mimeType).toLowerCase());
+  const pageImages = isImage ? [buffer] : await rasterisePdf(buffer);
+
+  const dataRows = [];
+  const pages = [];
+
+  for (let p = 0; p < pageImages.length; p++) {
+    const lines = await recognisePage(pageImages[p]);
+    let rowsOnPage = 0;
+
+    for (const line of lines) {
+      const parsed = parseOcrLine(line);
+      if (!parsed) continue;
+
+      rowsOnPage++;
+      dataRows.push({
+        ITEMDESC: parsed.ITEMDESC,
+        ORDERQTY: parsed.ORDERQTY,
+        _rawText: line.text,
+        _ocr: {
+          page: p + 1,
+          bbox: line.bbox,
+          lineConfidence: line.confidence,
+          confidence: parsed.confidence,
+          boxes: parsed.boxes
+        }
+      });
+    }
+
+    pages.push({
+      page: p + 1,
+      lineCount: lines.length,
+      rowCount: rowsOnPage,
+      meanConfidence: lines.length
+        ? Number((lines.reduce((s, l) => s + l.confidence, 0) / lines.length).toFixed(2))
+        : 0
+    });
+  }
+
+  return {
+    method: "OCR",
+    dataRows,
+    pages,
+    pageImages,
+    error: dataRows.length === 0
+      ? `OCR read ${pages.reduce((s, p) => s + p.lineCount, 0)} line(s) but found no item/quantity rows`
+      : null
+  };
+}
@@ -0,0 +1,221 @@
+/* =====================================================
+   ORDER APPROVAL
+   Converted orders whose free goods value, scheme percent
+   or total quantity go over the admin thresholds are held
+   for admin approval. Downloads stay locked until an admin
+   approves; a rejection sends the user back to edit and
+   re-convert, which evaluates the order again
+   ===================================================== */
+
+// A limit of null is switched off
+export const DEFAULT_APPROVAL_SETTINGS = {
+  enabled: false,
+  maxFreeValue: null,
+  maxSchemePercent: null,
+  maxTotalQty: null
+};
+
+export const APPROVAL_STATES = ["NOT_REQUIRED", "PENDING", "APPROVED", "REJECTED"];
+
+const LIMIT_FIELDS = ["maxFreeValue", "maxSchemePercent", "maxTotalQty"];
+
+export function validateApprovalSettings(input = {}) {
+  const errors = [];
+  const settings = { enabled: Boolean(input.enabled ?? DEFAULT_APPROVAL_SETTINGS.enabled) };
+
+  LIMIT_FIELDS.forEach(field => {
+    const raw = input[field];
+    if (raw === null || raw === undefined || raw === "") {
+      settings[field] = null;
+      return;
+    }
+    const value = Number(raw);
+    if (isNaN(value) || value < 0) {
+      errors.push(`${field} must be a positive number or empty`);
+    }
+    settings[field] = value;
+  });
+
+  if (settings.maxSchemePercent !== null && settings.maxSchemePercent > 100) {
+    errors.push("maxSchemePercent cannot be above 100");
+  }
+  if (settings.enabled && LIMIT_FIELDS.every(f => settings[f] === null)) {
+    errors.push("Set at least one limit to turn approvals on");
+  }
+
+  return { settings, errors };
+}
+
+const num = v => Number(v) || 0;
+const round2 = v => Math.round(v * 100) / 100;
+
+/**
+ * rates: { [productCode]: rate } from the product master.
+ * Rows without a rate add nothing to the free goods value.
+ */
+export function summarizeOrder(rows = [], rates = {}) {
+  let freeValue = 0;
+  let maxSchemePercent = 0;
+  let totalQty = 0;
+
+  rows.forEach(row => {
+    const qty = num(row.ORDERQTY);
+    const free = num(row.freeQty);
+    const percent = num(row.schemePercent) || (qty > 0 ? (free / qty) * 100 : 0);
+
+    totalQty += qty;
+    freeValue += free * num(rates[String(row.SAPCODE || "").trim()]);
+    maxSchemePercent = Math.max(maxSchemePercent, percent);
+  });
+
+  return {
+    freeValue: round2(freeValue),
+    maxSchemePercent: round2(maxSchemePercent),
+    totalQty
+  };
+}
+
+/**
+ * → { required, reasons: [string], metrics }
+ */
+export function evaluateApproval(rows, settings = DEFAULT_APPROVAL_SETTINGS, rates = {}) {
+  const metrics = summarizeOrder(rows, rates);
+  const reasons = [];
+
+  if (settings.enabled) {
+    if (settings.maxFreeValue !== null && metrics.freeValue > settings.maxFreeValue) {
+      reasons.push(`Free goods value ${metrics.freeValue} is above ${settings.maxFreeValue}`);
+    }
+    if (settings.maxSchemePercent !== null && metrics.maxSchemePercent > settings.maxSchemePercent) {
+      reasons.push(`Scheme ${metrics.maxSchemePercent}% is above ${settings.maxSchemePercent}%`);
+    }
+    if (settings.maxTotalQty !== null && metrics.totalQty > settings.maxTotalQty) {
+      reasons.push(`Total quantity ${metrics.totalQty} is above ${settings.maxTotalQty}`);
+    }
+  }
+
+  return { required: reasons.length > 0, reasons, metrics };
+}
+
+/**
+ * Approval block stored on the upload after each conversion.
+ * Re-converting always asks again: the quantities may have changed.
+ */
+export function buildApprovalState(evaluation, previous = null) {
+  const history = Array.isArray(previous?.history) ? previous.history : [];
+
+  if (!evaluation.required) {
+    return { state: "NOT_REQUIRED", reasons: [], metrics: evaluation.metrics, history };
+  }
+
+  return {
+    state: "PENDING",
+    reasons: evaluation.reasons,
+    metrics: evaluation.metrics,
+    requestedAt: new Date(),
+    decidedAt: null,
+    decidedBy: null,
+    comment: "",
+    history
+  };
+}
+
+// Orders converted before approvals existed have no approval block
+export function downloadsAllowed(upload) {
+  const state = upload?.approval?.state;
+  return !state || state === "NOT_REQUIRED" || state === "APPROVED";
+}
+
+// Lifecycle moves that need the approval gate open first
+const GATED_STATUSES = ["APPROVED", "DISPATCHED"];
+
+export function approvalBlocksStatus(upload, to) {
+  if (!GATED_STATUSES.includes(to) || downloadsAllowed(upload)) return null;
+  return upload.approval.state === "REJECTED"
+    ? "The order was rejected in approval, edit and re-convert it first"
+    : "The order is waiting for admin approval";
+}
+
+/**
+ * decision: "APPROVED" | "REJECTED", actor from req.user.
+ * Only a PENDING order can be decided, in one conditional update.
+ * → { upload } or { error, status }
+ */
+export async function decideApproval(Upload, uploadId, decision, { actor = null, comment = "" } = {}) {
+  const state = String(decision || "").toUpperCase();
+  if (!["APPROVED", "REJECTED"].includes(state)) {
+    return { error: "Decision must be APPROVED or REJECTED", status: 400 };
+  }
+
+  const text = String(comment || "").trim().slice(0, 1000);
+  if (state === "REJECTED" && !text) {
+    return { error: "A comment is required when rejecting", status: 400 };
+  }
+
+  const at = new Date();
+  const by = actor ? { userId: actor._id || actor.id, email: actor.email, name: actor.name } : null;
+
+  const updated = await Upload.findOneAndUpdate(
+    { _id: uploadId, "approval.state": "PENDING" },
+    {
+      $set: {
+        "approval.state": state,
+        "approval.decidedAt": at,
+        "approval.decidedBy": by,
+        "approval.comment": text
+      },
+      $push: { "approval.history": { state, at, by, comment: text } }
+    },
+    { new: true }
+  );
+
+  if (updated) return { upload: updated };
+
+  const exists = await Upload.exists({ _id: uploadId });
+  return exists
+    ? { error: "This order is not waiting for approval", status: 409 }
+    : { error: "Order not found", status: 404 };
+}
+
+/**
+ * Admin queue, oldest request first so nothing waits forever
+ */
+export async function listApprovalQueue(Upload, { state = "PENDING", page = 1, limit = 20 } = {}) {
+  const filter = state === "all" ? { "approval.state": { $in: ["PENDING", "APPROVED", "REJECTED"] } } : { "approval.state": state };
+  const skip = (Math.max(1, Number(page)) - 1) * Number(limit);
+
+  const [data, total] = await Promise.all([
+    Upload.find(filter)
+      .sort({ "approval.requestedAt": state === "PENDING" ? 1 : -1 })
+      .skip(skip)
+      .limit(Number(limit))
+      .populate("user", "name email")
+      .select("fileName orderRef status approval user createdAt")
+      .lean(),
+    Upload.countDocuments(filter)
+  ]);
+
+  return {
+    data,
+    pagination: { page: Number(page), limit: Number(limit), total, totalPages: Math.max(1, Math.ceil(total / Number(limit))) }
+  };
+}
+
+/**
+ * A user's orders waiting for approval, plus decisions from the last `days` days
+ */
+export async function approvalNotifications(Upload, userId, { days = 7 } = {}) {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  return Upload.find({
+    user: userId,
+    $or: [
+      { "approval.state": "PENDING" },
+      { "approval.state": { $in: ["APPROVED", "REJECTED"] }, "approval.decidedAt": { $gte: since } }
+    ]
+  })
+    .sort({ "approval.decidedAt": -1, "approval.requestedAt": -1 })
+    .limit(20)
+    .select("fileName orderRef approval")
+    .lean();
+}
@@ -0,0 +1,114 @@
+/* =====================================================
+   ORDER LIFECYCLE
+   EXTRACTED → MAPPING → CONVERTED → REVIEWED → APPROVED
+   → DISPATCHED (sent to ERP), with CANCELLED reachable
+   until dispatch. Every change is recorded on the upload
+   with who made it and when
+   ===================================================== */
+
+import { approvalBlocksStatus } from "./orderApproval.js";
+
+export const ORDER_STATUSES = [
+  "EXTRACTED",
+  "MAPPING",
+  "CONVERTED",
+  "REVIEWED",
+  "APPROVED",
+  "DISPATCHED",
+  "CANCELLED",
+  "FAILED"
+];
+
+// from → allowed next statuses
+export const STATUS_TRANSITIONS = {
+  EXTRACTED: ["MAPPING", "CONVERTED", "CANCELLED", "FAILED"],
+  MAPPING: ["CONVERTED", "CANCELLED", "FAILED"],
+  // Re-converting after edits keeps the order CONVERTED
+  CONVERTED: ["CONVERTED", "REVIEWED", "MAPPING", "CANCELLED"],
+  REVIEWED: ["APPROVED", "MAPPING", "CANCELLED"],
+  APPROVED: ["DISPATCHED", "REVIEWED", "CANCELLED"],
+  DISPATCHED: [],
+  CANCELLED: [],
+  FAILED: ["MAPPING", "CANCELLED"]
+};
+
+// Statuses set by the system during upload / conversion, not from the status endpoint
+export const SYSTEM_ONLY = ["EXTRACTED", "FAILED", "CONVERTED"];
+
+// Uploads stored before the lifecycle existed
+export const LEGACY_STATUSES = {
+  UNKNOWN: "EXTRACTED",
+  PROCESSING: "EXTRACTED",
+  UPLOADED: "EXTRACTED",
+  PENDING: "MAPPING",
+  ERROR: "FAILED"
+};
+
+export function normalizeStatus(status) {
+  const s = String(status || "").toUpperCase();
+  if (ORDER_STATUSES.includes(s)) return s;
+  return LEGACY_STATUSES[s] || "EXTRACTED";
+}
+
+export function allowedNextStatuses(status) {
+  return STATUS_TRANSITIONS[normalizeStatus(status)] || [];
+}
+
+/**
+ * null when allowed, otherwise the reason.
+ * bySystem: conversion / extraction code may set EXTRACTED, FAILED and CONVERTED.
+ */
+export function validateTransition(from, to, { bySystem = false } = {}) {
+  const target = String(to || "").toUpperCase();
+  if (!ORDER_STATUSES.includes(target)) return `Unknown status "${to}"`;
+  if (!bySystem && SYSTEM_ONLY.includes(target)) return `${target} is set automatically`;
+
+  const current = normalizeStatus(from);
+  if (!allowedNextStatuses(current).includes(target)) {
+    return `Cannot move an order from ${current} to ${target}`;
+  }
+  return null;
+}
+
+/**
+ * actor: { _id, email, name } from req.user
+ * → update document for Upload.findOneAndUpdate
+ */
+export function buildTransitionUpdate(from, to, actor = null, note = "") {
+  const at = new Date();
+  const by = actor ? { userId: actor._id || actor.id, email: actor.email, name: actor.name } : null;
+
+  return {
+    $set: {
+      status: to,
+      [`statusTimestamps.${to}`]: at
+    },
+    $push: {
+      statusHistory: { from: normalizeStatus(from), to, at, by, note: String(note || "").slice(0, 500) }
+    }
+  };
+}
+
+/**
+ * Validates and applies a transition in one conditional update, so two
+ * users changing the same order at once cannot skip a step.
+ * → { upload } or { error, status } (HTTP status code for the route)
+ */
+export async function transitionUpload(Upload, uploadId, to, { actor = null, note = "", bySystem = false } = {}) {
+  const upload = await Upload.findById(uploadId).select("status approval.state").lean();
+  if (!upload) return { error: "Order not found", status: 404 };
+
+  const target = String(to || "").toUpperCase();
+  const error = validateTransition(upload.status, target, { bySystem }) || approvalBlocksStatus(upload, target);
+  if (error) return { error, status: 409 };
+
+  // Only applies if nobody changed the status since it was read (legacy values matched as stored)
+  const updated = await Upload.findOneAndUpdate(
+    { _id: uploadId, status: upload.status ?? null },
+    buildTransitionUpdate(upload.status, target, actor, note),
+    { new: true }
+  );
+
+  if (!updated) return { error: "The order was changed by someone else, reload and try again", status: 409 };
+  return { upload: updated };
+}
@@ -0,0 +1,108 @@
+/* =====================================================
+   ORDER REFERENCE NUMBERS
+   Allocated on the server when an upload is converted
+   (one atomic counter increment), stored on the upload
+   and used for every download filename.
+   "COD/2024-25/00042" with the default settings
+   ===================================================== */
+
+export const DEFAULT_ORDER_REF_SETTINGS = {
+  prefix: "COD",
+  separator: "/",
+  padding: 5,
+  // Counter restarts every 1 April (Indian financial year)
+  resetEachFinancialYear: true
+};
+
+const FY_START_MONTH = 3; // April, 0-based
+
+export function validateOrderRefSettings(input = {}) {
+  const errors = [];
+
+  const prefix = String(input.prefix ?? DEFAULT_ORDER_REF_SETTINGS.prefix).trim().toUpperCase();
+  const separator = String(input.separator ?? DEFAULT_ORDER_REF_SETTINGS.separator);
+  const padding = Number(input.padding ?? DEFAULT_ORDER_REF_SETTINGS.padding);
+  const resetEachFinancialYear = input.resetEachFinancialYear ?? DEFAULT_ORDER_REF_SETTINGS.resetEachFinancialYear;
+
+  if (!/^[A-Z0-9-]{1,10}$/.test(prefix)) {
+    errors.push("prefix must be 1-10 letters, digits or dashes");
+  }
+  if (!["/", "-"].includes(separator)) {
+    errors.push("separator must be '/' or '-'");
+  }
+  if (!Number.isInteger(padding) || padding < 0 || padding > 10) {
+    errors.push("padding must be a whole number between 0 and 10");
+  }
+
+  return {
+    settings: { prefix, separator, padding, resetEachFinancialYear: !!resetEachFinancialYear },
+    errors
+  };
+}
+
+// 15 Mar 2025 → "2024-25", 1 Apr 2025 → "2025-26"
+export function financialYear(date = new Date()) {
+  const d = new Date(date);
+  const startYear = d.getMonth() >= FY_START_MONTH ? d.getFullYear() : d.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+}
+
+// One counter per prefix (and per financial year when it resets)
+export function orderRefCounterKey(settings = DEFAULT_ORDER_REF_SETTINGS, date = new Date()) {
+  return settings.resetEachFinancialYear
+    ? `orderRef:${settings.prefix}:${financialYear(date)}`
+    : `orderRef:${settings.prefix}`;
+}
+
+export function formatOrderRef(seq, settings = DEFAULT_ORDER_REF_SETTINGS, date = new Date()) {
+  const number = String(seq).padStart(settings.padding, "0");
+  const parts = settings.resetEachFinancialYear
+    ? [settings.prefix, financialYear(date), number]
+    : [settings.prefix, number];
+
+  return parts.join(settings.separator);
+}
+
+// Safe for download filenames ("COD/2024-25/00042" → "COD-2024-25-00042")
+export function orderRefFileBase(orderRef) {
+  return String(orderRef || "").replace(/[\\/:*?"<>|\s]+/g, "-");
+}
+
+/**
+ * Counter: mongoose model with { key: String (unique), seq: Number }.
+ * findOneAndUpdate with $inc + upsert is a single atomic operation, so
+ * concurrent conversions never receive the same number.
+ */
+export async function allocateOrderRef(Counter, settings = DEFAULT_ORDER_REF_SETTINGS, date = new Date()) {
+  const key = orderRefCounterKey(settings, date);
+  const counter = await Counter.findOneAndUpdate(
+    { key },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  );
+
+  return formatOrderRef(counter.seq, settings, date);
+}
+
+/**
+ * Give an upload its reference once. Re-converting or re-downloading
+ * keeps the existing number; the conditional update means two parallel
+ * conversions of the same upload cannot both set one.
+ */
+export async function ensureOrderRef(Upload, upload, Counter, settings = DEFAULT_ORDER_REF_SETTINGS) {
+  if (upload.orderRef) return upload.orderRef;
+
+  const orderRef = await allocateOrderRef(Counter, settings, new Date());
+  const updated = await Upload.findOneAndUpdate(
+    { _id: upload._id, orderRef: { $in: [null, ""] } },
+    { $set: { orderRef, orderRefAssignedAt: new Date() } },
+    { new: true }
+  );
+
+  // Lost the race: keep the reference the other request stored (the allocated number is skipped)
+  if (!updated) {
+    const current = await Upload.findById(upload._id).select("orderRef").lean();
+    return current?.orderRef || orderRef;
+  }
+  return updated.orderRef;
+}
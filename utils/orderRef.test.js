@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_ORDER_REF_SETTINGS,
+  financialYear,
+  formatOrderRef,
+  orderRefCounterKey,
+  orderRefFileBase,
+  validateOrderRefSettings
+} from "./orderRef.js";
+
+describe("financialYear", () => {
+  it("starts the year on 1 April", () => {
+    expect(financialYear(new Date(2025, 2, 31, 23, 59))).toBe("2024-25");
+    expect(financialYear(new Date(2025, 3, 1, 0, 0))).toBe("2025-26");
+  });
+
+  it("pads the short end year across a century", () => {
+    expect(financialYear(new Date(2099, 5, 1))).toBe("2099-00");
+    expect(financialYear(new Date(2008, 5, 1))).toBe("2008-09");
+  });
+});
+
+describe("formatOrderRef", () => {
+  it("formats the default reference", () => {
+    expect(formatOrderRef(42, DEFAULT_ORDER_REF_SETTINGS, new Date(2024, 10, 5))).toBe("COD/2024-25/00042");
+  });
+
+  it("leaves the year out when the counter never resets", () => {
+    const settings = { prefix: "ORD", separator: "-", padding: 3, resetEachFinancialYear: false };
+    expect(formatOrderRef(7, settings, new Date(2024, 10, 5))).toBe("ORD-007");
+    expect(formatOrderRef(12345, settings)).toBe("ORD-12345");
+  });
+});
+
+describe("orderRefCounterKey", () => {
+  it("uses one counter per financial year", () => {
+    expect(orderRefCounterKey(DEFAULT_ORDER_REF_SETTINGS, new Date(2025, 2, 31))).toBe("orderRef:COD:2024-25");
+    expect(orderRefCounterKey(DEFAULT_ORDER_REF_SETTINGS, new Date(2025, 3, 1))).toBe("orderRef:COD:2025-26");
+    expect(orderRefCounterKey({ ...DEFAULT_ORDER_REF_SETTINGS, resetEachFinancialYear: false })).toBe("orderRef:COD");
+  });
+});
+
+describe("orderRefFileBase / validateOrderRefSettings", () => {
+  it("makes references safe for filenames", () => {
+    expect(orderRefFileBase("COD/2024-25/00042")).toBe("COD-2024-25-00042");
+  });
+
+  it("normalises and validates settings", () => {
+    expect(validateOrderRefSettings({ prefix: " ord " })).toEqual({
+      settings: { ...DEFAULT_ORDER_REF_SETTINGS, prefix: "ORD" },
+      errors: []
+    });
+    expect(validateOrderRefSettings({ prefix: "A B", separator: ".", padding: 11 }).errors).toHaveLength(3);
+  });
+});
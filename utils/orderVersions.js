@@ -0,0 +1,148 @@
+/* =====================================================
+   ORDER VERSIONS
+   Every conversion and every save of converted / scheme
+   rows stores an immutable snapshot, numbered per upload,
+   so any file that went to the warehouse can be downloaded
+   again and compared row by row with another version.
+   Snapshots are only ever inserted, never updated
+   ===================================================== */
+
+export const VERSION_REASONS = ["CONVERSION", "EDIT", "SCHEME_EDIT", "REVERT"];
+
+const getPath = (obj, path) => path.split(".").reduce((o, k) => (o == null ? undefined : o[k]), obj);
+
+/**
+ * Snapshot the upload's current converted + scheme data.
+ * The number comes from an atomic $inc on the upload so two saves
+ * at once still get distinct versions.
+ * → the created version document
+ */
+export async function createVersion(OrderVersion, Upload, upload, { actor = null, reason = "EDIT", note = "" } = {}) {
+  const counter = await Upload.findByIdAndUpdate(
+    upload._id,
+    { $inc: { versionCount: 1 } },
+    { new: true }
+  ).select("versionCount").lean();
+
+  const rows = getPath(upload, "convertedData.rows") || [];
+
+  return OrderVersion.create({
+    upload: upload._id,
+    version: counter.versionCount,
+    reason: VERSION_REASONS.includes(reason) ? reason : "EDIT",
+    note: String(note || "").slice(0, 500),
+    orderRef: upload.orderRef,
+    // Rows are canonical; the template they were converted with shapes the XLSX / JSON download
+    outputTemplateId: upload.outputTemplateId || null,
+    convertedData: {
+      headers: getPath(upload, "convertedData.headers") || [],
+      rows
+    },
+    schemeDetails: upload.schemeDetails || [],
+    rowCount: rows.length,
+    createdAt: new Date(),
+    createdBy: actor ? { userId: actor._id || actor.id, email: actor.email, name: actor.name } : null
+  });
+}
+
+// Picker list: metadata only, newest first
+export async function listVersions(OrderVersion, uploadId) {
+  return OrderVersion.find({ upload: uploadId })
+    .sort({ version: -1 })
+    .select("version reason note rowCount createdAt createdBy orderRef")
+    .lean();
+}
+
+export async function getVersion(OrderVersion, uploadId, version) {
+  return OrderVersion.findOne({ upload: uploadId, version: Number(version) }).lean();
+}
+
+/* ===== ROW DIFF ===== */
+
+const sameValue = (a, b) => String(a ?? "") === String(b ?? "");
+
+/**
+ * Rows are paired by product code (+ occurrence, for repeated codes)
+ * rather than position, so an inserted row doesn't mark everything
+ * below it as changed.
+ */
+function keyRows(rows, keyField) {
+  const seen = {};
+  return rows.map((row, index) => {
+    const code = String(row?.[keyField] ?? "").trim().toUpperCase() || `#${index}`;
+    seen[code] = (seen[code] || 0) + 1;
+    return { key: `${code}::${seen[code]}`, code, row, index };
+  });
+}
+
+/**
+ * → { headers, summary: { added, removed, changed, unchanged },
+ *     rows: [{ status, code, before, after, changedFields, fromIndex, toIndex }] }
+ */
+export function diffRowSets(fromRows = [], toRows = [], { keyField = "SAPCODE", headers = [] } = {}) {
+  const from = keyRows(fromRows, keyField);
+  const to = keyRows(toRows, keyField);
+  const fromByKey = new Map(from.map(r => [r.key, r]));
+  const toKeys = new Set(to.map(r => r.key));
+
+  const summary = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  const rows = [];
+
+  to.forEach(t => {
+    const f = fromByKey.get(t.key);
+    if (!f) {
+      summary.added++;
+      rows.push({ status: "added", code: t.code, before: null, after: t.row, changedFields: [], fromIndex: null, toIndex: t.index });
+      return;
+    }
+
+    const fields = new Set([...Object.keys(f.row || {}), ...Object.keys(t.row || {})].filter(k => !k.startsWith("_")));
+    const changedFields = [...fields].filter(k => !sameValue(f.row?.[k], t.row?.[k]));
+    const status = changedFields.length ? "changed" : "unchanged";
+    summary[status]++;
+    rows.push({ status, code: t.code, before: f.row, after: t.row, changedFields, fromIndex: f.index, toIndex: t.index });
+  });
+
+  from.forEach(f => {
+    if (toKeys.has(f.key)) return;
+    summary.removed++;
+    rows.push({ status: "removed", code: f.code, before: f.row, after: null, changedFields: [], fromIndex: f.index, toIndex: null });
+  });
+
+  const allHeaders = headers.length
+    ? headers
+    : [...new Set([...fromRows, ...toRows].flatMap(r => Object.keys(r || {})).filter(k => !k.startsWith("_")))];
+
+  return { headers: allHeaders, summary, rows };
+}
+
+/**
+ * Converted and scheme diffs between two version documents
+ */
+export function diffVersions(fromVersion, toVersion) {
+  return {
+    from: fromVersion.version,
+    to: toVersion.version,
+    converted: diffRowSets(fromVersion.convertedData?.rows, toVersion.convertedData?.rows, {
+      keyField: "SAPCODE",
+      headers: toVersion.convertedData?.headers || []
+    }),
+    scheme: diffRowSets(fromVersion.schemeDetails, toVersion.schemeDetails, { keyField: "productCode" })
+  };
+}
+
+// Payload for exportFormats.renderExport when downloading an old version
+// (template: resolveOutputTemplate for version.outputTemplateId)
+export function versionExportPayload(version, template = null) {
+  const rows = version.convertedData?.rows || [];
+  const headers = version.convertedData?.headers?.length
+    ? version.convertedData.headers
+    : Object.keys(rows[0] || {}).filter(k => !k.startsWith("_"));
+
+  return {
+    headers,
+    rows,
+    template,
+    meta: { orderRef: version.orderRef, version: version.version, createdAt: version.createdAt }
+  };
+}
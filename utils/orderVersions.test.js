@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { diffRowSets, diffVersions, versionExportPayload } from "./orderVersions.js";
+
+describe("diffRowSets", () => {
+  const before = [
+    { SAPCODE: "P1", ORDERQTY: 10, _rowId: "a" },
+    { SAPCODE: "P2", ORDERQTY: 5 },
+    { SAPCODE: "P3", ORDERQTY: 2 }
+  ];
+
+  it("pairs rows by code so an inserted row leaves the rest unchanged", () => {
+    const after = [before[0], { SAPCODE: "P9", ORDERQTY: 1 }, before[1], before[2]];
+    const diff = diffRowSets(before, after);
+    expect(diff.summary).toEqual({ added: 1, removed: 0, changed: 0, unchanged: 3 });
+    expect(diff.rows[1]).toMatchObject({ status: "added", code: "P9", fromIndex: null, toIndex: 1 });
+  });
+
+  it("lists changed fields, ignoring internal ones", () => {
+    const after = [{ SAPCODE: "P1", ORDERQTY: "12", _rowId: "b" }, before[1], before[2]];
+    const [row] = diffRowSets(before, after).rows;
+    expect(row).toMatchObject({ status: "changed", code: "P1", changedFields: ["ORDERQTY"], fromIndex: 0, toIndex: 0 });
+  });
+
+  it("treats a number and its string as the same value", () => {
+    const after = [{ SAPCODE: "P1", ORDERQTY: "10", _rowId: "a" }, before[1], before[2]];
+    expect(diffRowSets(before, after).summary.changed).toBe(0);
+  });
+
+  it("reports removed rows after the current ones", () => {
+    const diff = diffRowSets(before, [before[0], before[2]]);
+    expect(diff.summary).toEqual({ added: 0, removed: 1, changed: 0, unchanged: 2 });
+    expect(diff.rows[2]).toMatchObject({ status: "removed", code: "P2", after: null, fromIndex: 1, toIndex: null });
+  });
+
+  it("pairs repeated codes by occurrence", () => {
+    const from = [{ SAPCODE: "P1", ORDERQTY: 1 }, { SAPCODE: "p1", ORDERQTY: 2 }];
+    const to = [{ SAPCODE: "P1", ORDERQTY: 1 }, { SAPCODE: "P1", ORDERQTY: 3 }];
+    const diff = diffRowSets(from, to);
+    expect(diff.rows.map(r => r.status)).toEqual(["unchanged", "changed"]);
+  });
+
+  it("collects headers from both sides unless given", () => {
+    expect(diffRowSets([{ SAPCODE: "P1", _x: 1 }], [{ SAPCODE: "P1", DVN: "GEN" }]).headers).toEqual(["SAPCODE", "DVN"]);
+    expect(diffRowSets([], [], { headers: ["A"] }).headers).toEqual(["A"]);
+  });
+});
+
+describe("diffVersions", () => {
+  it("diffs converted rows by SAPCODE and scheme rows by productCode", () => {
+    const v1 = { version: 1, convertedData: { rows: [{ SAPCODE: "P1", ORDERQTY: 10 }] }, schemeDetails: [{ productCode: "P1", freeQty: 1 }] };
+    const v2 = { version: 2, convertedData: { headers: ["SAPCODE", "ORDERQTY"], rows: [{ SAPCODE: "P1", ORDERQTY: 20 }] }, schemeDetails: [{ productCode: "P1", freeQty: 2 }] };
+    const diff = diffVersions(v1, v2);
+    expect(diff).toMatchObject({ from: 1, to: 2 });
+    expect(diff.converted.headers).toEqual(["SAPCODE", "ORDERQTY"]);
+    expect(diff.converted.rows[0].changedFields).toEqual(["ORDERQTY"]);
+    expect(diff.scheme.rows[0]).toMatchObject({ code: "P1", changedFields: ["freeQty"] });
+  });
+});
+
+describe("versionExportPayload", () => {
+  it("falls back to the first row's keys for headers and carries the template", () => {
+    const version = { version: 3, orderRef: "ORD/26-27/0001", createdAt: "2026-10-17", convertedData: { rows: [{ SAPCODE: "P1", _rowId: "a" }] } };
+    const template = { id: "t1" };
+    expect(versionExportPayload(version, template)).toEqual({
+      headers: ["SAPCODE"],
+      rows: version.convertedData.rows,
+      template,
+      meta: { orderRef: "ORD/26-27/0001", version: 3, createdAt: "2026-10-17" }
+    });
+  });
+});
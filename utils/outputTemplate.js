@@ -0,0 +1,148 @@
+/* =====================================================
+   OUTPUT COLUMN TEMPLATES
+   Admin-defined layouts for the converted file: which
+   columns, in what order, under which header, including
+   computed columns. Converted rows are stored with the
+   canonical fields (SAPCODE, ORDERQTY, DVN …) that edits,
+   division reports, ERP layouts and version diffs rely on;
+   the template is applied only when rendering the preview
+   and the XLSX / JSON downloads
+   ===================================================== */
+
+// Sent by MappingPage for "Built-in columns": no template, not even the default
+export const BUILTIN_TEMPLATE_ID = "builtin";
+
+// Fields present on every converted row (or its customer)
+export const OUTPUT_SOURCE_FIELDS = [
+  { id: "SAPCODE", label: "Product code" },
+  { id: "ITEMDESC", label: "Item description" },
+  { id: "ORDERQTY", label: "Order quantity" },
+  { id: "BOX PACK", label: "Box pack" },
+  { id: "PACK", label: "Pack" },
+  { id: "DVN", label: "Division" },
+  { id: "freeQty", label: "Free quantity" },
+  { id: "schemePercent", label: "Scheme %" },
+  { id: "customerCode", label: "Customer code" },
+  { id: "customerName", label: "Customer name" },
+  { id: "customer.gstNo", label: "Customer GST" },
+  { id: "customer.city", label: "Customer city" },
+  { id: "customer.drugLicNo", label: "Customer drug licence" }
+];
+
+const num = v => Number(v) || 0;
+
+export const OUTPUT_COMPUTED_FIELDS = {
+  ROW_NO: { label: "Row number", compute: (row, i) => i + 1 },
+  TOTAL_QTY: { label: "Order + free quantity", compute: row => num(row.ORDERQTY) + num(row.freeQty) },
+  BOXES: {
+    label: "Boxes (qty ÷ box pack)",
+    compute: row => (num(row["BOX PACK"]) > 0 ? Math.ceil(num(row.ORDERQTY) / num(row["BOX PACK"])) : "")
+  },
+  SCHEME_LABEL: {
+    label: "Scheme (e.g. 10+1)",
+    compute: row => (num(row.freeQty) > 0 ? `${num(row.ORDERQTY)}+${num(row.freeQty)}` : "")
+  }
+};
+
+// What the template editor offers
+export function listOutputFields() {
+  return [
+    ...OUTPUT_SOURCE_FIELDS.map(f => ({ ...f, computed: false })),
+    ...Object.entries(OUTPUT_COMPUTED_FIELDS).map(([id, f]) => ({ id: `=${id}`, label: f.label, computed: true }))
+  ];
+}
+
+const KNOWN_FIELDS = new Set(listOutputFields().map(f => f.id));
+
+/**
+ * { name, divisions?, isDefault?, columns: [{ field, header }] }
+ * field: a source field id, "=COMPUTED" id, or "" with a constant value.
+ */
+export function validateOutputTemplate(input = {}) {
+  const errors = [];
+  const name = String(input.name || "").trim();
+  if (!name) errors.push("name is required");
+
+  const columns = [];
+  (Array.isArray(input.columns) ? input.columns : []).forEach((c, i) => {
+    const header = String(c?.header || "").trim();
+    const field = String(c?.field || "").trim();
+    const constant = c?.constant === undefined || c?.constant === null ? "" : String(c.constant);
+
+    if (!header) errors.push(`Column ${i + 1}: header is required`);
+    if (field && !KNOWN_FIELDS.has(field)) errors.push(`Column ${i + 1}: unknown field "${field}"`);
+    if (!field && constant === "") errors.push(`Column ${i + 1}: pick a field or enter a fixed value`);
+
+    columns.push({ header, field, ...(field ? {} : { constant }) });
+  });
+
+  if (columns.length === 0) errors.push("At least one column is required");
+
+  const headers = columns.map(c => c.header.toUpperCase()).filter(Boolean);
+  if (new Set(headers).size !== headers.length) errors.push("Column headers must be unique");
+
+  const divisions = [...new Set((input.divisions || []).map(d => String(d).trim().toUpperCase()).filter(Boolean))];
+
+  return {
+    template: { name, divisions, isDefault: !!input.isDefault, columns },
+    errors
+  };
+}
+
+function readValue(row, column, index, customer) {
+  if (!column.field) return column.constant ?? "";
+
+  if (column.field.startsWith("=")) {
+    const computed = OUTPUT_COMPUTED_FIELDS[column.field.slice(1)];
+    return computed ? computed.compute(row, index) : "";
+  }
+
+  if (column.field.startsWith("customer.")) {
+    const key = column.field.slice("customer.".length);
+    return row[`customer_${key}`] ?? customer?.[key] ?? "";
+  }
+
+  const v = row[column.field];
+  return v === undefined || v === null ? "" : v;
+}
+
+/**
+ * Canonical converted rows → { headers, rows } in the template layout.
+ * customer: master record for customer.* fields (rows may override per row).
+ * keepSource: attach the canonical row as `_source` (preview highlighting,
+ * division grouping); leave it off for files.
+ * Without a template the rows pass through with the given headers.
+ */
+export function applyOutputTemplate(rows, template, { headers = [], customer = null, keepSource = false } = {}) {
+  if (!template?.columns?.length) return { headers, rows };
+
+  return {
+    headers: template.columns.map(c => c.header),
+    rows: rows.map((row, i) => ({
+      ...Object.fromEntries(template.columns.map(c => [c.header, readValue(row, c, i, customer)])),
+      ...(keepSource ? { _source: row } : {})
+    }))
+  };
+}
+
+/**
+ * Which template applies: the one picked at conversion time, else a
+ * template made for the division (division reports), else the default.
+ * BUILTIN_TEMPLATE_ID means no template.
+ */
+export function resolveOutputTemplate(templates = [], { templateId = null, division = "" } = {}) {
+  if (templateId === BUILTIN_TEMPLATE_ID) return null;
+
+  if (templateId) {
+    const picked = templates.find(t => String(t._id) === String(templateId));
+    if (picked) return picked;
+  }
+
+  const div = String(division || "").trim().toUpperCase();
+  if (div) {
+    const forDivision = templates.find(t => (t.divisions || []).includes(div));
+    if (forDivision) return forDivision;
+  }
+
+  return templates.find(t => t.isDefault) || null;
+}
@@ -0,0 +1,163 @@
+import { rankProductCandidates, pickAutoMatch } from "./matchProductLoose.js";
+import { aliasKey } from "./productAlias.js";
+import { DEFAULT_MATCH_SETTINGS } from "./matchSettings.js";
+
+/* =====================================================
+   PASTED ORDER TEXT → ORDER ROWS
+   Handles WhatsApp / email free text ("Dolo 650 - 10",
+   "10 x Pan 40", "Azithral 500 5 strips") and tab-separated
+   lines copied from Excel / email tables
+   ===================================================== */
+
+const UNIT = "(?:nos?|pcs?|pieces?|strips?|stps?|box(?:es)?|bx|units?|bottles?|btls?|tabs?|caps?|packs?|pkts?)";
+// "Dolo-650" is a name, not qty 650: a dash separator needs a space before it
+const TRAILING_QTY_SEP = new RegExp(`^(.*?\\S)(?:\\s+[-–—]|\\s*[:=@*×]|\\s+x)\\s*(\\d{1,5})\\s*${UNIT}?\\.?$`, "i");
+const TRAILING_QTY_UNIT = new RegExp(`^(.*?\\S)\\s+(\\d{1,5})\\s*${UNIT}\\.?$`, "i");
+const TRAILING_QTY_BARE = /^(.*?\S)\s+(\d{1,5})$/;
+const LEADING_QTY = new RegExp(`^(\\d{1,5})\\s*(?:${UNIT}\\.?\\s*)?(?:x|\\*|×|-|–)?\\s+([a-z].*)$`, "i");
+const PACK_RE = /\b(\d{1,3}\s?[x*]\s?\d{1,3}(?:\s?[x*]\s?\d{1,3})?|\d{1,3}'?s)\b/i;
+const STRENGTH_TAIL = /\d+(?:\.\d+)?\s*(?:mg|mcg|gm?|ml|iu|%)$/i;
+const SKIP_LINE = /^(total|grand total|sub ?total|thanks?|thank you|regards|hi|hello|dear|sir|madam|please|pls|kindly)\b/i;
+
+// WhatsApp export prefix: "[12/03/24, 10:15 AM] Ravi Pharma: " or "12/03/2024, 10:15 - Ravi: "
+const WHATSAPP_PREFIX = /^\[?\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4},?\s+\d{1,2}:\d{2}(?::\d{2})?\s*(?:[ap]\.?m\.?)?\]?\s*(?:-\s*)?[^:]{1,40}:\s*/i;
+// Bullets and serial numbers: "1.", "2)", "3 -", "•", "*", "-"
+const BULLET = /^(?:\d{1,3}\s*[.)]\s+|\d{1,3}\s+-\s+|[•*·▪►>-]\s*)/;
+
+function cleanLine(line) {
+  return String(line || "")
+    .replace(WHATSAPP_PREFIX, "")
+    .replace(BULLET, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function extractPack(desc) {
+  const m = desc.match(PACK_RE);
+  if (!m) return { desc, pack: null };
+  return {
+    desc: desc.replace(m[0], " ").replace(/[()[\]]/g, " ").replace(/\s+/g, " ").trim(),
+    pack: m[1].replace(/\s/g, "").toUpperCase()
+  };
+}
+
+/**
+ * One free-text line → { ITEMDESC, ORDERQTY, packHint? } or null.
+ * packHint ("10X10", "15'S") is the packing as written, not the box count.
+ * A bare trailing number is only taken as the quantity when the
+ * description keeps its own strength ("Pan 40 10"), otherwise
+ * "Dolo 650" would be read as 650 units of "Dolo".
+ */
+export function parseTextLine(rawLine) {
+  const line = cleanLine(rawLine);
+  if (!line || SKIP_LINE.test(line) || !/[a-z]/i.test(line) || !/\d/.test(line)) return null;
+
+  let desc = null;
+  let qty = null;
+
+  const sep = line.match(TRAILING_QTY_SEP) || line.match(TRAILING_QTY_UNIT);
+  if (sep) {
+    desc = sep[1];
+    qty = Number(sep[2]);
+  }
+
+  if (!desc) {
+    const lead = line.match(LEADING_QTY);
+    if (lead) {
+      qty = Number(lead[1]);
+      desc = lead[2];
+    }
+  }
+
+  if (!desc) {
+    const bare = line.match(TRAILING_QTY_BARE);
+    if (bare && (/\d/.test(bare[1]) || STRENGTH_TAIL.test(bare[1]))) {
+      desc = bare[1];
+      qty = Number(bare[2]);
+    }
+  }
+
+  if (!desc || !qty || qty <= 0) return null;
+
+  const { desc: itemDesc, pack } = extractPack(desc.replace(/[-–—:=,]+$/, "").trim());
+  if ((itemDesc.match(/[a-z]/gi) || []).length < 2) return null;
+
+  return { ITEMDESC: itemDesc, ORDERQTY: qty, ...(pack ? { packHint: pack } : {}) };
+}
+
+/**
+ * Tab-separated cells → row. Description = longest mostly-text cell,
+ * quantity = last whole-number cell, pack = a cell shaped like "10x10".
+ */
+export function parseTabbedLine(rawLine) {
+  const cells = String(rawLine || "").split("\t").map(c => c.trim()).filter(Boolean);
+  if (cells.length < 2) return null;
+
+  const packCell = cells.find(c => PACK_RE.test(c) && c.replace(PACK_RE, "").trim() === "");
+  const qtyCell = [...cells].reverse().find(c => c !== packCell && /^\d{1,5}(?:\.0+)?$/.test(c.replace(/,/g, "")));
+  const textCells = cells.filter(c => c !== packCell && c !== qtyCell && /[a-z]/i.test(c));
+  if (!qtyCell || textCells.length === 0) return null;
+
+  const desc = textCells.reduce((a, b) => (b.length > a.length ? b : a));
+  if (SKIP_LINE.test(desc)) return null;
+
+  const qty = Number(qtyCell.replace(/,/g, ""));
+  if (!qty || qty <= 0) return null;
+
+  return { ITEMDESC: desc, ORDERQTY: qty, ...(packCell ? { packHint: packCell.replace(/\s/g, "").toUpperCase() } : {}) };
+}
+
+/**
+ * Whole pasted block → { rows, skipped }.
+ * skipped lists the non-empty lines that were not read as items,
+ * so the user can see what was left out.
+ */
+export function parsePastedOrder(text) {
+  const rows = [];
+  const skipped = [];
+  const lines = String(text || "").replace(/\r\n?/g, "\n").split("\n");
+
+  lines.forEach((line, idx) => {
+    if (!line.trim()) return;
+
+    const parsed = line.includes("\t") ? parseTabbedLine(line) || parseTextLine(line.replace(/\t/g, " ")) : parseTextLine(line);
+    if (parsed) rows.push({ ...parsed, _line: idx + 1, _rawText: line.trim() });
+    else skipped.push({ line: idx + 1, text: line.trim() });
+  });
+
+  return { rows, skipped };
+}
+
+/**
+ * Parsed rows → rows ready for the manual entry table:
+ * learned alias first, then the loose matcher with its ranked candidates.
+ * Matches below the review threshold are left unmapped (candidates still offered).
+ */
+export function matchPastedRows(rows, products, { aliasIndex = null, customerCode = "", minScore = DEFAULT_MATCH_SETTINGS.review } = {}) {
+  return rows.map(row => {
+    const aliasCode = aliasIndex?.get(aliasKey(customerCode, row.ITEMDESC));
+    const aliased = aliasCode ? products.find(p => p.productCode === aliasCode) : null;
+    // The matcher scores pack hints inside the description ("10X10" → strip of 10)
+    const candidates = rankProductCandidates([row.ITEMDESC, row.packHint].filter(Boolean).join(" "), products, { limit: 5 });
+
+    // Manual rows carry the master product itself (boxPack, division...)
+    const auto = pickAutoMatch(candidates, minScore);
+    const top = auto ? products.find(p => p.productCode === auto.productCode) : null;
+
+    const best = aliased
+      ? { product: aliased, score: 1, source: "ALIAS" }
+      : top
+        ? { product: top, score: auto.score, source: "AUTO" }
+        : null;
+
+    return {
+      ...row,
+      matchedProduct: best?.product || null,
+      SAPCODE: best?.product?.productCode || "",
+      DVN: best?.product?.division || "",
+      matchConfidence: best?.score ?? 0,
+      mappingSource: best?.source || null,
+      candidates: candidates.map(({ product, ...c }) => c)
+    };
+  });
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { parseTextLine, parseTabbedLine, parsePastedOrder, matchPastedRows } from "./parsePastedOrder.js";
+import { aliasKey } from "./productAlias.js";
+
+describe("parseTextLine", () => {
+  it("reads a trailing quantity after a separator", () => {
+    expect(parseTextLine("Dolo 650 - 10")).toEqual({ ITEMDESC: "Dolo 650", ORDERQTY: 10 });
+    expect(parseTextLine("Pan 40: 5 strips")).toEqual({ ITEMDESC: "Pan 40", ORDERQTY: 5 });
+  });
+
+  it("reads a leading quantity", () => {
+    expect(parseTextLine("10 x Pan 40")).toEqual({ ITEMDESC: "Pan 40", ORDERQTY: 10 });
+  });
+
+  it("keeps a dashed strength as part of the name", () => {
+    expect(parseTextLine("Dolo-650")).toBeNull();
+    expect(parseTextLine("Dolo 650")).toBeNull();
+  });
+
+  it("takes a bare trailing number only when the name keeps its strength", () => {
+    expect(parseTextLine("Pan 40 10")).toEqual({ ITEMDESC: "Pan 40", ORDERQTY: 10 });
+  });
+
+  it("strips WhatsApp prefixes and bullets", () => {
+    expect(parseTextLine("[12/03/24, 10:15 AM] Ravi Pharma: 2. Azithral 500 - 5")).toEqual({
+      ITEMDESC: "Azithral 500",
+      ORDERQTY: 5
+    });
+  });
+
+  it("pulls the packing out as a hint", () => {
+    expect(parseTextLine("Dolo 650 10x10 - 20")).toEqual({ ITEMDESC: "Dolo 650", ORDERQTY: 20, packHint: "10X10" });
+  });
+
+  it("skips greetings and totals", () => {
+    expect(parseTextLine("Total 45")).toBeNull();
+    expect(parseTextLine("Thanks")).toBeNull();
+  });
+});
+
+describe("parseTabbedLine", () => {
+  it("picks the description, last whole number and pack cell", () => {
+    expect(parseTabbedLine("1\tDOLO 650MG TAB\t15's\t20")).toEqual({ ITEMDESC: "DOLO 650MG TAB", ORDERQTY: 20, packHint: "15'S" });
+  });
+
+  it("reads thousands separators in the quantity", () => {
+    expect(parseTabbedLine("PAN 40\t1,200")).toEqual({ ITEMDESC: "PAN 40", ORDERQTY: 1200 });
+  });
+
+  it("returns null without a quantity cell", () => {
+    expect(parseTabbedLine("PAN 40\tstrip")).toBeNull();
+  });
+});
+
+describe("parsePastedOrder", () => {
+  it("returns rows with their line numbers and lists skipped lines", () => {
+    const { rows, skipped } = parsePastedOrder("Hi sir\r\nDolo 650 - 10\r\n\r\nPAN 40\t5\r\nsend fast");
+    expect(rows).toEqual([
+      { ITEMDESC: "Dolo 650", ORDERQTY: 10, _line: 2, _rawText: "Dolo 650 - 10" },
+      { ITEMDESC: "PAN 40", ORDERQTY: 5, _line: 4, _rawText: "PAN 40\t5" }
+    ]);
+    expect(skipped).toEqual([
+      { line: 1, text: "Hi sir" },
+      { line: 5, text: "send fast" }
+    ]);
+  });
+});
+
+describe("matchPastedRows", () => {
+  const products = [
+    { productCode: "D650", productName: "DOLO 650MG", baseName: "DOLO", pack: 15, division: "GEN" },
+    { productCode: "P40", productName: "PAN 40MG", baseName: "PAN", pack: 10, division: "GI" }
+  ];
+
+  it("auto-matches a confident row and keeps the candidates", () => {
+    const [row] = matchPastedRows([{ ITEMDESC: "Dolo 650", ORDERQTY: 10 }], products);
+    expect(row).toMatchObject({ SAPCODE: "D650", DVN: "GEN", mappingSource: "AUTO" });
+    expect(row.matchedProduct).toBe(products[0]);
+    expect(row.candidates[0].productCode).toBe("D650");
+    expect(row.candidates[0].product).toBeUndefined();
+  });
+
+  it("prefers a learned alias for the customer", () => {
+    const aliasIndex = new Map([[aliasKey("C001", "Dolo 650"), "P40"]]);
+    const [row] = matchPastedRows([{ ITEMDESC: "Dolo 650", ORDERQTY: 10 }], products, { aliasIndex, customerCode: "C001" });
+    expect(row).toMatchObject({ SAPCODE: "P40", matchConfidence: 1, mappingSource: "ALIAS" });
+  });
+
+  it("leaves unknown items unmapped", () => {
+    const [row] = matchPastedRows([{ ITEMDESC: "Zzyx 10", ORDERQTY: 1 }], products);
+    expect(row).toMatchObject({ SAPCODE: "", DVN: "", matchedProduct: null, matchConfidence: 0, mappingSource: null });
+  });
+});
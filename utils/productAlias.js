@@ -0,0 +1,50 @@
+import { normalizeKey } from "./normalizeKey.js";
+import { matchProductLoose } from "./matchProductLoose.js";
+
+/* =====================================================
+   PRODUCT ALIAS STORE – LEARNED MANUAL MAPPINGS
+   Consulted before the loose matcher during extraction
+   ===================================================== */
+
+export function aliasKey(customerCode = "", invoiceDesc = "") {
+  return `${String(customerCode).trim().toUpperCase()}::${normalizeKey(invoiceDesc)}`;
+}
+
+// aliases: [{ customerCode, invoiceDesc, productCode }] → Map(key → productCode)
+export function buildAliasIndex(aliases = []) {
+  const index = new Map();
+
+  for (const a of aliases) {
+    if (!a?.invoiceDesc || !a?.productCode) continue;
+    index.set(aliasKey(a.customerCode, a.invoiceDesc), a.productCode);
+  }
+
+  return index;
+}
+
+export function matchProductWithAliases(invoiceDesc, customerCode, aliasIndex, products) {
+  if (!invoiceDesc) return null;
+
+  const productCode = aliasIndex?.get(aliasKey(customerCode, invoiceDesc));
+
+  if (productCode) {
+    const p = products.find(prod => prod.productCode === productCode);
+
+    // Alias may point to a product that was deleted since → fall back
+    if (p) {
+      return {
+        product: {
+          ITEMDESC: p.productName,
+          SAPCODE: p.productCode,
+          PACK: p.pack,
+          DVN: p.division
+        },
+        score: 1,
+        source: "ALIAS"
+      };
+    }
+  }
+
+  const loose = matchProductLoose(invoiceDesc, products);
+  return loose ? { ...loose, source: "AUTO" } : null;
+}
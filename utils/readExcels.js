@@ -1,4 +1,26 @@
 import XLSX from "xlsx";
+import { applyColumnTemplate, isSheetSkipped } from "./columnTemplate.js";
+import { prepareCsv } from "./csvSniff.js";
+
+// Everything SheetJS reads as a workbook (.ods = LibreOffice, .xlsm = macro-enabled)
+export const SPREADSHEET_EXTENSIONS = ["xlsx", "xls", "xlsm", "ods", "csv"];
+
+export function isSpreadsheetFile(fileName = "") {
+  return SPREADSHEET_EXTENSIONS.includes(String(fileName).split(".").pop().toLowerCase());
+}
+
+/**
+ * CSV is decoded and its delimiter sniffed before parsing; binary
+ * formats go straight to SheetJS. Macros in .xlsm are never loaded.
+ */
+function readWorkbook(buffer, fileName = "") {
+  if (/\.(csv|tsv)$/i.test(fileName)) {
+    const { text, delimiter, encoding } = prepareCsv(buffer);
+    console.log(`DEBUG [CSV]: "${fileName}" encoding=${encoding} delimiter=${JSON.stringify(delimiter)}`);
+    return XLSX.read(text, { type: "string", FS: delimiter });
+  }
+  return XLSX.read(buffer, { type: "buffer", bookVBA: false });
+}
 
 function normalizeKey(key = "") {
   return key
@@ -8,28 +30,52 @@ function normalizeKey(key = "") {
     .replace(/[\s._-]+/g, " ");
 }
 
-export function readExcelSheets(buffer) {
-  const wb = XLSX.read(buffer, { type: "buffer" });
+// Find the row with most columns in top 20 rows (more robust for titles/merges)
+function detectHeaderRow(rowsRaw) {
+  let headerRowIndex = 0;
+  let maxCols = 0;
+  const SCAN_LIMIT = Math.min(rowsRaw.length, 20);
+
+  for (let i = 0; i < SCAN_LIMIT; i++) {
+    const nonEmpties = (rowsRaw[i] || []).filter(c => c && c.toString().trim().length > 0).length;
+    if (nonEmpties > maxCols) {
+      maxCols = nonEmpties;
+      headerRowIndex = i;
+    }
+  }
+
+  return headerRowIndex;
+}
+
+/**
+ * template (optional): saved column template for the customer.
+ * When given, rows come back keyed by canonical fields (ITEMDESC, ORDERQTY, PACK, FREEQTY)
+ * instead of normalized header names.
+ * includeSheets (optional): sheet names the user chose on upload; others are not read.
+ * fileName (optional): picks the CSV path (encoding / delimiter sniffing) by extension.
+ */
+export function readExcelSheets(buffer, template = null, includeSheets = null, fileName = "") {
+  const wb = readWorkbook(buffer, fileName);
   const result = {};
+  const include = Array.isArray(includeSheets) && includeSheets.length > 0
+    ? includeSheets.map(s => String(s).toLowerCase())
+    : null;
 
   wb.SheetNames.forEach(sheetName => {
+    if (include && !include.includes(sheetName.toLowerCase())) return;
+    if (isSheetSkipped(sheetName, template)) return;
+
     const sheet = wb.Sheets[sheetName];
     // Read as array of arrays to find the real header row
     const rowsRaw = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: "" });
 
-    // Find the row with most columns in top 20 rows (more robust for titles/merges)
-    let headerRowIndex = 0;
-    let maxCols = 0;
-    const SCAN_LIMIT = Math.min(rowsRaw.length, 20);
-    
-    for (let i = 0; i < SCAN_LIMIT; i++) {
-      const nonEmpties = (rowsRaw[i] || []).filter(c => c && c.toString().trim().length > 0).length;
-      if (nonEmpties > maxCols) {
-        maxCols = nonEmpties;
-        headerRowIndex = i;
-      }
+    if (template) {
+      result[sheetName.toLowerCase()] = applyColumnTemplate(rowsRaw, template, sheetName);
+      return;
     }
 
+    const headerRowIndex = detectHeaderRow(rowsRaw);
+
     const rawHeaders = rowsRaw[headerRowIndex] || [];
     console.log(`DEBUG [EXCEL]: Sheet "${sheetName}" HeaderRowIndex: ${headerRowIndex}, Raw:`, rawHeaders);
     const headers = [];
@@ -53,8 +99,9 @@ export function readExcelSheets(buffer) {
 
     const dataRows = rowsRaw.slice(headerRowIndex + 1);
 
-    result[sheetName.toLowerCase()] = dataRows.map(row => {
-      const normalized = {};
+    result[sheetName.toLowerCase()] = dataRows.map((row, idx) => {
+      // Where the row sits in the original sheet (0-based), for the source viewer
+      const normalized = { _source: { sheet: sheetName, row: headerRowIndex + 1 + idx } };
    headers.forEach((h, i) => {
   if (!h) return;
 
@@ -70,3 +117,36 @@ export function readExcelSheets(buffer) {
 
   return result;
 }
+
+/**
+ * Raw top-of-sheet grid for the column template editor.
+ */
+export function previewExcelSheets(buffer, limit = 30, fileName = "") {
+  const wb = readWorkbook(buffer, fileName);
+
+  return wb.SheetNames.map(sheetName => {
+    const rowsRaw = XLSX.utils.sheet_to_json(wb.Sheets[sheetName], { header: 1, defval: "" });
+
+    return {
+      name: sheetName,
+      totalRows: rowsRaw.length,
+      detectedHeaderRowIndex: detectHeaderRow(rowsRaw),
+      rows: rowsRaw.slice(0, limit).map(r => r.map(c => (c === null || c === undefined ? "" : String(c))))
+    };
+  });
+}
+
+// sheetSelections form field: { [fileName]: [sheetName, ...] } (JSON string or object)
+export function selectedSheetsForFile(sheetSelections, fileName) {
+  let selections = sheetSelections;
+  if (typeof selections === "string") {
+    try {
+      selections = JSON.parse(selections);
+    } catch {
+      return null;
+    }
+  }
+
+  const sheets = selections?.[fileName];
+  return Array.isArray(sheets) ? sheets : null;
+}
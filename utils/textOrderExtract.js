@@ -0,0 +1,226 @@
+import { parseTextLine, parseTabbedLine } from "./parsePastedOrder.js";
+import { detectCustomer } from "./detectCustomer.js";
+
+/* =====================================================
+   PLAIN-TEXT / EMAIL (.txt, .eml) ORDERS
+   Splits an email into headers, body and signature,
+   reads item lines with the pasted-order line parser and
+   gathers customer hints (sender, subject, signature)
+   ===================================================== */
+
+const SIGNATURE_START = /^(--\s*|_{3,}|-{3,}|(?:best |warm |kind )?regards,?|thanks?(?: ?(?:&|and) regards)?,?|thank you,?|yours (?:truly|faithfully|sincerely),?|sent from my .*)$/i;
+// Quoted reply history is an older order, not this one
+const REPLY_START = /^(on .{4,120} wrote:|-{2,}\s*original message\s*-{2,}|-{2,}\s*forwarded message\s*-{2,}|from: .+@.+)$/i;
+// Contact lines look like "Desc 12345" to the line parser
+const CONTACT_LINE = /\b(ph(?:one)?|mob(?:ile)?|cell|tel|fax|gst(?:in)?|d\.?l\.?\s?no|drug lic|pin(?:code)?|email|e-mail|address)\b/i;
+const MAX_SIGNATURE_LINES = 12;
+
+/* ---------------- MIME DECODING ---------------- */
+
+function decodeQuotedPrintable(text) {
+  const bytes = [];
+  const soft = text.replace(/=\r?\n/g, "");
+  for (let i = 0; i < soft.length; i++) {
+    if (soft[i] === "=" && /^[0-9A-F]{2}$/i.test(soft.substr(i + 1, 2))) {
+      bytes.push(parseInt(soft.substr(i + 1, 2), 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(soft[i], "utf8"));
+    }
+  }
+  return Buffer.from(bytes).toString("utf8");
+}
+
+function decodeBody(body, encoding = "") {
+  const enc = encoding.toLowerCase();
+  if (enc === "base64") return Buffer.from(body.replace(/\s+/g, ""), "base64").toString("utf8");
+  if (enc === "quoted-printable") return decodeQuotedPrintable(body);
+  return body;
+}
+
+// "=?UTF-8?B?...?=" / "=?UTF-8?Q?...?=" in Subject and From
+function decodeHeaderWords(value = "") {
+  return value.replace(/=\?[^?]+\?([BQ])\?([^?]*)\?=/gi, (_, type, data) =>
+    type.toUpperCase() === "B"
+      ? Buffer.from(data, "base64").toString("utf8")
+      : decodeQuotedPrintable(data.replace(/_/g, " "))
+  );
+}
+
+function htmlToText(html) {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>|<\/(p|div|tr|li|h\d)>/gi, "\n")
+    .replace(/<\/t[dh]>/gi, "\t")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/gi, " ")
+    .replace(/&amp;/gi, "&")
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCharCode(Number(n)));
+}
+
+function splitHeaders(raw) {
+  const idx = raw.search(/\r?\n\r?\n/);
+  const head = idx === -1 ? raw : raw.slice(0, idx);
+  const body = idx === -1 ? "" : raw.slice(idx).replace(/^\r?\n\r?\n/, "");
+
+  const headers = {};
+  // Folded header lines continue with leading whitespace
+  head.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/).forEach(line => {
+    const m = line.match(/^([\w-]+):\s*(.*)$/);
+    if (m) headers[m[1].toLowerCase()] = m[2];
+  });
+  return { headers, body };
+}
+
+function readPart(raw) {
+  const { headers, body } = splitHeaders(raw);
+  const type = (headers["content-type"] || "text/plain").toLowerCase();
+  const boundary = (headers["content-type"] || "").match(/boundary="?([^";]+)"?/i)?.[1];
+
+  if (type.startsWith("multipart/") && boundary) {
+    const parts = body
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter(p => !p.startsWith("--"))
+      .map(p => readPart(p.replace(/^\r?\n/, "")));
+    // Prefer the plain-text alternative; fall back to HTML
+    return parts.find(p => p.type === "text/plain" && p.text.trim())
+      || parts.find(p => p.text.trim())
+      || { type: "text/plain", text: "" };
+  }
+
+  const decoded = decodeBody(body, headers["content-transfer-encoding"]);
+  if (type.startsWith("text/html")) return { type: "text/html", text: htmlToText(decoded) };
+  if (type.startsWith("text/")) return { type: "text/plain", text: decoded };
+  return { type, text: "" };
+}
+
+/**
+ * Raw .eml → { headers: { from, subject, date }, body }.
+ * Attachments are ignored; only the readable text part is kept.
+ */
+export function parseEmail(raw) {
+  const { headers } = splitHeaders(raw);
+  const part = readPart(raw);
+
+  return {
+    headers: {
+      from: decodeHeaderWords(headers.from || ""),
+      subject: decodeHeaderWords(headers.subject || ""),
+      date: headers.date || ""
+    },
+    body: part.text
+  };
+}
+
+/* ---------------- BODY SECTIONS ---------------- */
+
+/**
+ * Body → { orderLines, signatureLines }.
+ * Quoted replies ("> ...", "On ... wrote:") are dropped; the signature is
+ * the block after "Regards" / "--" and is only used for customer hints.
+ */
+export function splitBody(text) {
+  const lines = String(text || "").replace(/\r\n?/g, "\n").split("\n");
+  const orderLines = [];
+  const signatureLines = [];
+  let inSignature = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (REPLY_START.test(trimmed)) break;
+    if (trimmed.startsWith(">")) continue;
+
+    if (!inSignature && SIGNATURE_START.test(trimmed)) {
+      inSignature = true;
+      continue;
+    }
+
+    if (inSignature) {
+      if (trimmed && signatureLines.length < MAX_SIGNATURE_LINES) signatureLines.push(trimmed);
+    } else {
+      orderLines.push({ line: i + 1, text: line });
+    }
+  }
+
+  return { orderLines, signatureLines };
+}
+
+function parseSender(from = "") {
+  const email = from.match(/<([^>]+)>/)?.[1] || from.match(/[\w.+-]+@[\w.-]+/)?.[0] || "";
+  const name = from.replace(/<[^>]*>/, "").replace(/["']/g, "").trim();
+  const domain = email.split("@")[1] || "";
+  // Webmail domains say nothing about the customer
+  const orgDomain = /^(gmail|yahoo|hotmail|outlook|rediffmail|live|icloud|ymail)\./i.test(domain) ? "" : domain.split(".")[0];
+
+  return { name: name === email ? "" : name, email, orgDomain };
+}
+
+/* ---------------- EXTRACTION ---------------- */
+
+/**
+ * Text / email file → same shape as the spreadsheet, PDF and OCR extractors:
+ * { method, dataRows, customer, hints, error }.
+ * customer follows the upload result shape read by MappingPage
+ * ({ name, code, city, state, customerType, source, candidates }).
+ */
+export function extractTextOrder(buffer, fileName = "", customers = []) {
+  const raw = Buffer.isBuffer(buffer) ? buffer.toString("utf8") : String(buffer || "");
+  const isEmail = /\.eml$/i.test(fileName) || /^(from|received|return-path|mime-version|message-id):/im.test(raw.slice(0, 2000));
+
+  const email = isEmail ? parseEmail(raw) : null;
+  const body = email ? email.body : raw;
+  const { orderLines, signatureLines } = splitBody(body);
+
+  const dataRows = [];
+  for (const { line, text } of orderLines) {
+    if (!text.trim() || CONTACT_LINE.test(text)) continue;
+
+    const parsed = text.includes("\t")
+      ? parseTabbedLine(text) || parseTextLine(text.replace(/\t/g, " "))
+      : parseTextLine(text);
+    if (!parsed) continue;
+
+    dataRows.push({
+      ITEMDESC: parsed.ITEMDESC,
+      ORDERQTY: parsed.ORDERQTY,
+      ...(parsed.packHint ? { packHint: parsed.packHint } : {}),
+      _rawText: text.trim(),
+      _line: line
+    });
+  }
+
+  const sender = email ? parseSender(email.headers.from) : { name: "", email: "", orgDomain: "" };
+  const hints = {
+    senderName: sender.name,
+    senderEmail: sender.email,
+    subject: email?.headers.subject || "",
+    signature: signatureLines
+  };
+
+  // Item lines are left out so product names don't read as customer names
+  const hintText = [sender.name, sender.orgDomain, hints.subject, ...signatureLines].filter(Boolean).join("\n");
+  const detected = customers.length > 0 ? detectCustomer(hintText, customers) : { customer: null, source: null, candidates: [] };
+
+  return {
+    method: isEmail ? "EMAIL" : "TEXT",
+    dataRows,
+    customer: {
+      name: detected.customer?.customerName || "",
+      code: detected.customer?.customerCode || "",
+      city: detected.customer?.city,
+      state: detected.customer?.state,
+      customerType: detected.customer?.customerType,
+      source: detected.source,
+      candidates: detected.candidates
+    },
+    hints,
+    error: dataRows.length === 0
+      ? `No item / quantity lines found in ${orderLines.filter(l => l.text.trim()).length} line(s) of text`
+      : null
+  };
+}
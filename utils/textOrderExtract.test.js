@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { parseEmail, splitBody, extractTextOrder } from "./textOrderExtract.js";
+
+const EML = [
+  "From: =?UTF-8?B?UmF2aSBQaGFybWE=?= <orders@ravipharma.in>",
+  "Subject: Order for",
+  " October",
+  "Date: Sat, 17 Oct 2026 10:15:00 +0530",
+  "MIME-Version: 1.0",
+  'Content-Type: multipart/alternative; boundary="b1"',
+  "",
+  "--b1",
+  "Content-Type: text/plain; charset=utf-8",
+  "Content-Transfer-Encoding: quoted-printable",
+  "",
+  "Dolo 650 - 10=",
+  "",
+  "Pan 40 =3D 5",
+  "",
+  "Regards,",
+  "Ravi Pharma",
+  "Ph 98450 12345",
+  "--b1",
+  "Content-Type: text/html",
+  "",
+  "<p>Dolo 650 - 10</p>",
+  "--b1--",
+  ""
+].join("\r\n");
+
+describe("parseEmail", () => {
+  it("decodes encoded and folded headers", () => {
+    const { headers } = parseEmail(EML);
+    expect(headers.from).toBe("Ravi Pharma <orders@ravipharma.in>");
+    expect(headers.subject).toBe("Order for October");
+    expect(headers.date).toBe("Sat, 17 Oct 2026 10:15:00 +0530");
+  });
+
+  it("prefers the plain-text part and decodes quoted-printable", () => {
+    const { body } = parseEmail(EML);
+    expect(body).toContain("Dolo 650 - 10\r\nPan 40 = 5");
+  });
+
+  it("falls back to the HTML part as text", () => {
+    const raw = ["Content-Type: text/html", "", "<table><tr><td>PAN 40</td><td>5</td></tr></table>"].join("\n");
+    expect(parseEmail(raw).body).toBe("PAN 40\t5\t\n");
+  });
+
+  it("decodes base64 bodies", () => {
+    const raw = ["Content-Type: text/plain", "Content-Transfer-Encoding: base64", "", Buffer.from("Dolo 650 - 10").toString("base64")].join("\n");
+    expect(parseEmail(raw).body).toBe("Dolo 650 - 10");
+  });
+});
+
+describe("splitBody", () => {
+  it("separates the order from the signature", () => {
+    const { orderLines, signatureLines } = splitBody("Dolo 650 - 10\n\nRegards,\nRavi Pharma\nMysore");
+    expect(orderLines.map(l => l.text)).toEqual(["Dolo 650 - 10", ""]);
+    expect(signatureLines).toEqual(["Ravi Pharma", "Mysore"]);
+  });
+
+  it("drops quoted lines and stops at the reply history", () => {
+    const { orderLines } = splitBody("Pan 40 - 5\n> Dolo 650 - 10\nOn Fri, 16 Oct 2026 someone wrote:\nAzithral 500 - 3");
+    expect(orderLines).toEqual([{ line: 1, text: "Pan 40 - 5" }]);
+  });
+});
+
+describe("extractTextOrder", () => {
+  it("reads item lines from a plain text file", () => {
+    const result = extractTextOrder(Buffer.from("Hi\nDolo 650 - 10\nPAN 40\t5\n"), "order.txt");
+    expect(result.method).toBe("TEXT");
+    expect(result.dataRows).toEqual([
+      { ITEMDESC: "Dolo 650", ORDERQTY: 10, _rawText: "Dolo 650 - 10", _line: 2 },
+      { ITEMDESC: "PAN 40", ORDERQTY: 5, _rawText: "PAN 40\t5", _line: 3 }
+    ]);
+    expect(result.error).toBeNull();
+  });
+
+  it("skips contact lines and gathers sender hints from an email", () => {
+    const result = extractTextOrder(Buffer.from(EML), "order.eml");
+    expect(result.method).toBe("EMAIL");
+    expect(result.dataRows.map(r => r.ITEMDESC)).toEqual(["Dolo 650", "Pan 40"]);
+    expect(result.hints).toEqual({
+      senderName: "Ravi Pharma",
+      senderEmail: "orders@ravipharma.in",
+      subject: "Order for October",
+      signature: ["Ravi Pharma", "Ph 98450 12345"]
+    });
+    expect(result.customer).toMatchObject({ name: "", code: "", source: null, candidates: [] });
+  });
+
+  it("reports an error when no item lines are found", () => {
+    const result = extractTextOrder("Please call me\nThanks", "note.txt");
+    expect(result.dataRows).toEqual([]);
+    expect(result.error).toBe("No item / quantity lines found in 1 line(s) of text");
+  });
+});